@@ -0,0 +1,42 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../src/middleware/auth.js';
+import { ModerationAlertsQuerySchema, moderationService } from '../../../src/services/ModerationService.js';
+import { asyncHandler, validateSchema } from '../../../src/utils/errors.js';
+import { ApiResponse, ModerationAlert } from '../../../src/types/index.js';
+
+/**
+ * Admin Moderation Alerts API Endpoint
+ * GET /api/admin/moderation/alerts - flagged sessions raised for teachers, newest first
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  await authMiddleware.requireAdmin(authContext);
+
+  const query = validateSchema(ModerationAlertsQuerySchema, req.query, 'query parameters');
+  const alerts = await moderationService.listAlerts(query);
+
+  const response: ApiResponse<ModerationAlert[]> = {
+    success: true,
+    data: alerts,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,51 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { ActivatePromptRequestSchema, promptService } from '../../../../src/services/PromptService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../src/utils/errors.js';
+import { AnalysisPrompt, ApiResponse } from '../../../../src/types/index.js';
+
+/**
+ * Admin Prompt Activation API Endpoint
+ * POST /api/admin/prompts/{promptId}/activate
+ *
+ * Makes the version the only active one for its conversation type and language,
+ * or adds it to a prompt experiment when a traffic weight is given.
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  await authMiddleware.requireAdmin(authContext);
+
+  const { promptId } = req.query;
+  if (!promptId || typeof promptId !== 'string') {
+    throw new ValidationError('Prompt ID is required', 'promptId');
+  }
+
+  const { trafficWeight } = validateSchema(ActivatePromptRequestSchema, req.body ?? {});
+  const prompt = await promptService.activatePrompt(promptId, trafficWeight);
+
+  const response: ApiResponse<AnalysisPrompt> = {
+    success: true,
+    data: prompt,
+    message: `Prompt ${prompt.prompt_name} v${prompt.prompt_version} activated`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,50 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { CreatePromptVersionRequestSchema, promptService } from '../../../../src/services/PromptService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../src/utils/errors.js';
+import { AnalysisPrompt, ApiResponse } from '../../../../src/types/index.js';
+
+/**
+ * Admin Prompt Versions API Endpoint
+ * POST /api/admin/prompts/{promptId}/versions
+ *
+ * Creates a new, inactive version based on the given prompt version.
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  await authMiddleware.requireAdmin(authContext);
+
+  const { promptId } = req.query;
+  if (!promptId || typeof promptId !== 'string') {
+    throw new ValidationError('Prompt ID is required', 'promptId');
+  }
+
+  const changes = validateSchema(CreatePromptVersionRequestSchema, req.body ?? {});
+  const prompt = await promptService.createVersion(promptId, changes);
+
+  const response: ApiResponse<AnalysisPrompt> = {
+    success: true,
+    data: prompt,
+    message: `Prompt ${prompt.prompt_name} v${prompt.prompt_version} created`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(201).json(response);
+});
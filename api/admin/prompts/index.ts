@@ -0,0 +1,58 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../src/middleware/auth.js';
+import { CreatePromptRequestSchema, ListPromptsQuerySchema, promptService } from '../../../src/services/PromptService.js';
+import { asyncHandler, validateSchema } from '../../../src/utils/errors.js';
+import { AnalysisPrompt, ApiResponse } from '../../../src/types/index.js';
+
+/**
+ * Admin Analysis Prompts API Endpoint
+ * GET /api/admin/prompts - list prompt versions
+ * POST /api/admin/prompts - create a new prompt (inactive version 1)
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET and POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  await authMiddleware.requireAdmin(authContext);
+
+  if (req.method === 'GET') {
+    const filters = validateSchema(ListPromptsQuerySchema, req.query, 'query parameters');
+    const prompts = await promptService.listPrompts(filters);
+
+    const response: ApiResponse<AnalysisPrompt[]> = {
+      success: true,
+      data: prompts,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(200).json(response);
+    return;
+  }
+
+  const request = validateSchema(CreatePromptRequestSchema, req.body);
+  const prompt = await promptService.createPrompt(request);
+
+  const response: ApiResponse<AnalysisPrompt> = {
+    success: true,
+    data: prompt,
+    message: `Prompt ${prompt.prompt_name} v${prompt.prompt_version} created`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(201).json(response);
+});
@@ -0,0 +1,44 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../src/middleware/auth.js';
+import { PreviewPromptRequestSchema, promptService } from '../../../src/services/PromptService.js';
+import { asyncHandler, validateSchema } from '../../../src/utils/errors.js';
+import { ApiResponse, PromptPreview } from '../../../src/types/index.js';
+
+/**
+ * Admin Prompt Preview API Endpoint
+ * POST /api/admin/prompts/preview
+ *
+ * Renders a stored or draft template against a sample prompt context.
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  await authMiddleware.requireAdmin(authContext);
+
+  const request = validateSchema(PreviewPromptRequestSchema, req.body);
+  const preview = await promptService.previewPrompt(request);
+
+  const response: ApiResponse<PromptPreview> = {
+    success: true,
+    data: preview,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,42 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { UsageReportQuerySchema, usageService } from '../../src/services/UsageService.js';
+import { asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { ApiResponse, UsageReport } from '../../src/types/index.js';
+
+/**
+ * Admin Usage Report API Endpoint
+ * GET /api/admin/usage - external API usage and cost by user, service and day
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  await authMiddleware.requireAdmin(authContext);
+
+  const query = validateSchema(UsageReportQuerySchema, req.query, 'query parameters');
+  const report = await usageService.getReport(query);
+
+  const response: ApiResponse<UsageReport> = {
+    success: true,
+    data: report,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,117 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { elevenLabsService } from '../../src/services/ElevenLabsService.js';
+import { moderationService } from '../../src/services/ModerationService.js';
+import { asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { loggingService } from '../../src/utils/logging.js';
+
+// Zod schema for conversation request validation, one branch per action
+const ConversationRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('start_conversation'),
+    agentId: z.string().min(1),
+    config: z.record(z.string(), z.any()).optional()
+  }),
+  z.object({
+    action: z.literal('send_message'),
+    conversationId: z.string().min(1),
+    message: z.string().min(1),
+    config: z.record(z.string(), z.any()).optional()
+  }),
+  z.object({
+    action: z.literal('end_conversation'),
+    conversationId: z.string().min(1)
+  })
+]);
+
+/**
+ * ElevenLabs Conversation API Endpoint
+ * POST /api/elevenlabs/conversation
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'elevenlabs');
+
+  const request = validateSchema(ConversationRequestSchema, req.body);
+
+  let data: any;
+  let conversationId: string | undefined;
+
+  switch (request.action) {
+    case 'start_conversation':
+      data = await elevenLabsService.startConversation(request.agentId, request.config);
+      conversationId = data?.conversation_id;
+      await loggingService.logConversationEvent({
+        userId: authContext.userId,
+        conversationId,
+        logType: 'session_start',
+        serviceName: 'elevenlabs',
+        eventData: { agent_id: request.agentId },
+        metadata: { auth_method: authContext.authMethod }
+      });
+      break;
+
+    case 'send_message':
+      // Blocked messages never reach the agent
+      await moderationService.moderate([{ source: 'user_message', text: request.message }], {
+        userId: authContext.userId,
+        conversationId: request.conversationId,
+        path: 'conversation'
+      });
+      data = await elevenLabsService.sendMessage(request.conversationId, request.message, request.config);
+      // The agent's reply is screened before the learner sees it
+      await moderationService.moderateOutput(data, {
+        userId: authContext.userId,
+        conversationId: request.conversationId,
+        path: 'conversation'
+      });
+      conversationId = request.conversationId;
+      await loggingService.logConversationEvent({
+        userId: authContext.userId,
+        conversationId,
+        logType: 'message_exchange',
+        serviceName: 'elevenlabs',
+        eventData: { message_length: request.message.length },
+        metadata: { auth_method: authContext.authMethod }
+      });
+      break;
+
+    case 'end_conversation':
+      data = await elevenLabsService.endConversation(request.conversationId);
+      conversationId = request.conversationId;
+      await loggingService.logConversationEvent({
+        userId: authContext.userId,
+        conversationId,
+        logType: 'session_end',
+        serviceName: 'elevenlabs',
+        eventData: {},
+        metadata: { auth_method: authContext.authMethod }
+      });
+      break;
+  }
+
+  res.status(200).json({
+    success: true,
+    data,
+    action: request.action,
+    timestamp: new Date().toISOString()
+  });
+});
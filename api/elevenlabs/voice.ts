@@ -0,0 +1,56 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { elevenLabsService } from '../../src/services/ElevenLabsService.js';
+import { asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { ApiResponse } from '../../src/types/index.js';
+
+// Zod schema for voice request validation
+const VoiceRequestSchema = z.object({
+  text: z.string().min(1).max(5000),
+  voiceId: z.string().min(1),
+  settings: z.object({
+    stability: z.number().min(0).max(1).optional(),
+    similarity_boost: z.number().min(0).max(1).optional(),
+    style: z.number().min(0).max(1).optional(),
+    use_speaker_boost: z.boolean().optional()
+  }).optional()
+});
+
+/**
+ * ElevenLabs Text-to-Speech API Endpoint
+ * POST /api/elevenlabs/voice
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'elevenlabs');
+
+  const { text, voiceId, settings } = validateSchema(VoiceRequestSchema, req.body);
+
+  const voice = await elevenLabsService.generateVoice(text, voiceId, settings, authContext.userId);
+
+  const response: ApiResponse<{ audioUrl: string; duration?: number }> = {
+    success: true,
+    data: voice,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,141 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { ConversationAnalysisRequestSchema, openAIService } from '../../src/services/OpenAIService.js';
+import { learnerProfileService } from '../../src/services/LearnerProfileService.js';
+import { moderationService } from '../../src/services/ModerationService.js';
+import { quotaService } from '../../src/services/QuotaService.js';
+import { ErrorHandler, ValidationError, asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { loggingService } from '../../src/utils/logging.js';
+import { ConversationAnalysis } from '../../src/types/index.js';
+
+/**
+ * Streaming OpenAI Conversation Analysis API Endpoint (Server-Sent Events)
+ * POST /api/openai/analyze-stream
+ *
+ * Emits `summary` events with incremental summary text, then one terminal
+ * `analysis` event carrying the validated ConversationAnalysis, or an `error`
+ * event when the analysis fails after the stream has started. Summary events
+ * are sent once the complete analysis has passed moderation.
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'openai');
+
+  const {
+    messages,
+    userProfile,
+    studyTopic,
+    vocabularyContext,
+    conversationType,
+    conversationId,
+    tokenBudget
+  } = validateSchema(
+    ConversationAnalysisRequestSchema,
+    req.body
+  );
+
+  if (vocabularyContext) {
+    throw new ValidationError(
+      'Vocabulary practice analysis is not streamed, use /api/openai/analyze',
+      'vocabularyContext'
+    );
+  }
+
+  // An exhausted quota or blocked content is reported as a regular error before the stream starts
+  await quotaService.assertWithinQuota(authContext.userId, 'tokens');
+  await moderationService.moderateConversation(messages, {
+    userId: authContext.userId,
+    conversationId,
+    path: 'analysis'
+  });
+
+  // Errors after this point are reported in-stream, so headers go out first
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.status(200);
+  res.flushHeaders?.();
+
+  let finalAnalysis: ConversationAnalysis | undefined;
+
+  // Summary text is held back until the complete analysis has been screened, so blocked text never reaches the learner
+  const summaryDeltas: string[] = [];
+
+  const events = openAIService.streamConversationAnalysis(messages, userProfile, studyTopic, {
+    conversationType,
+    tokenBudget,
+    userId: authContext.userId
+  });
+
+  try {
+    for await (const event of events) {
+      if (event.type === 'summary') {
+        summaryDeltas.push(event.delta);
+      } else {
+        await moderationService.moderateAnalysis(event.analysis, {
+          userId: authContext.userId,
+          conversationId,
+          path: 'analysis'
+        });
+        finalAnalysis = event.analysis;
+        for (const delta of summaryDeltas) {
+          res.write(`event: summary\ndata: ${JSON.stringify({ delta })}\n\n`);
+        }
+        res.write(`event: analysis\ndata: ${JSON.stringify(event.analysis)}\n\n`);
+      }
+    }
+  } catch (error) {
+    // The status is already sent, so the failure ends the stream as a terminal error event
+    const { statusCode, body } = await ErrorHandler.handleError(error as Error, {
+      endpoint: req.url,
+      method: req.method,
+      userAgent: req.headers['user-agent']
+    });
+    res.write(`event: error\ndata: ${JSON.stringify({ status: statusCode, ...body })}\n\n`);
+  }
+
+  // Analyses build the learner's profile once, API key calls have no user
+  if (finalAnalysis && authContext.authMethod === 'jwt' && !finalAnalysis.cached) {
+    await learnerProfileService.recordAnalysis(authContext.userId, finalAnalysis, conversationId);
+  }
+
+  await loggingService.logConversationEvent({
+    userId: authContext.userId,
+    conversationId,
+    logType: 'analysis',
+    serviceName: 'openai',
+    eventData: {
+      conversation_type: finalAnalysis?.conversationType ?? conversationType,
+      prompt_id: finalAnalysis?.promptId,
+      prompt_version: finalAnalysis?.promptVersion,
+      prompt_locale: finalAnalysis?.promptLocale,
+      cefr_level: finalAnalysis?.proficiency?.cefrLevel,
+      message_count: messages.length,
+      has_study_topic: !!studyTopic,
+      stream: true
+    },
+    metadata: {
+      auth_method: authContext.authMethod
+    }
+  });
+
+  // Persisted before the stream ends, serverless functions may be frozen once the response is complete
+  res.end();
+});
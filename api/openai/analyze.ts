@@ -0,0 +1,111 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { ConversationAnalysisRequestSchema, openAIService } from '../../src/services/OpenAIService.js';
+import { learnerProfileService } from '../../src/services/LearnerProfileService.js';
+import { moderationService } from '../../src/services/ModerationService.js';
+import { vocabularyService } from '../../src/services/VocabularyService.js';
+import { asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { loggingService } from '../../src/utils/logging.js';
+import { ApiResponse, ConversationAnalysis } from '../../src/types/index.js';
+
+/**
+ * OpenAI Conversation Analysis API Endpoint
+ * POST /api/openai/analyze
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'openai');
+
+  const {
+    messages,
+    userProfile,
+    studyTopic,
+    vocabularyContext,
+    conversationType,
+    conversationId,
+    tokenBudget
+  } = validateSchema(
+    ConversationAnalysisRequestSchema,
+    req.body
+  );
+
+  // Blocked content is refused before it reaches the model
+  await moderationService.moderateConversation(messages, {
+    userId: authContext.userId,
+    conversationId,
+    path: 'analysis'
+  });
+
+  // Requests with a word list go through the vocabulary practice analysis
+  const analysis = vocabularyContext
+    ? await openAIService.analyzeVocabularyPractice(messages, userProfile, vocabularyContext, {
+      tokenBudget,
+      userId: authContext.userId
+    })
+    : await openAIService.analyzeConversation(messages, userProfile, studyTopic, {
+      conversationType,
+      tokenBudget,
+      userId: authContext.userId
+    });
+
+  // The analysis is screened as well, before it reaches the learner or their profile
+  await moderationService.moderateAnalysis(analysis, {
+    userId: authContext.userId,
+    conversationId,
+    path: 'analysis'
+  });
+
+  // Analyses build the learner's profile once, API key calls have no user
+  if (authContext.authMethod === 'jwt' && !analysis.cached) {
+    await learnerProfileService.recordAnalysis(authContext.userId, analysis, conversationId);
+
+    if (vocabularyContext && analysis.wordOutcomes) {
+      await vocabularyService.recordOutcomes(authContext.userId, vocabularyContext, analysis.wordOutcomes, conversationId);
+    }
+  }
+
+  await loggingService.logConversationEvent({
+    userId: authContext.userId,
+    conversationId,
+    logType: 'analysis',
+    serviceName: 'openai',
+    eventData: {
+      conversation_type: analysis.conversationType,
+      prompt_id: analysis.promptId,
+      prompt_version: analysis.promptVersion,
+      prompt_locale: analysis.promptLocale,
+      cefr_level: analysis.proficiency?.cefrLevel,
+      message_count: messages.length,
+      has_study_topic: !!studyTopic,
+      has_vocabulary_context: !!vocabularyContext
+    },
+    metadata: {
+      auth_method: authContext.authMethod
+    }
+  });
+
+  const response: ApiResponse<ConversationAnalysis> = {
+    success: true,
+    data: analysis,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
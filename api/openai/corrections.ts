@@ -0,0 +1,73 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { CorrectionRequestSchema, openAIService } from '../../src/services/OpenAIService.js';
+import { moderationService } from '../../src/services/ModerationService.js';
+import { asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { loggingService } from '../../src/utils/logging.js';
+import { ApiResponse, ConversationCorrections } from '../../src/types/index.js';
+
+/**
+ * Grammar Corrections API Endpoint
+ * POST /api/openai/corrections
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'openai');
+
+  const { messages, userProfile } = validateSchema(CorrectionRequestSchema, req.body);
+
+  // Blocked content is refused before it reaches the model
+  await moderationService.moderateConversation(messages, {
+    userId: authContext.userId,
+    path: 'corrections'
+  });
+
+  const corrections = await openAIService.correctMessages(messages, userProfile, authContext.userId);
+
+  // Corrected text and explanations are generated, so they are screened like analyses
+  await moderationService.moderateOutput(
+    corrections.corrections.map(correction => ({ corrected: correction.corrected, errors: correction.errors })),
+    { userId: authContext.userId, path: 'corrections' }
+  );
+
+  await loggingService.logConversationEvent({
+    userId: authContext.userId,
+    logType: 'analysis',
+    serviceName: 'openai',
+    eventData: {
+      task: 'corrections',
+      message_count: messages.length,
+      corrected_message_count: corrections.corrections.length,
+      error_count: corrections.corrections.reduce((total, correction) => total + correction.errors.length, 0),
+      degraded: !!corrections.degraded
+    },
+    metadata: {
+      auth_method: authContext.authMethod
+    }
+  });
+
+  const response: ApiResponse<ConversationCorrections> = {
+    success: true,
+    data: corrections,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,49 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { analysisJobService } from '../../../../src/services/AnalysisJobService.js';
+import { ValidationError, asyncHandler } from '../../../../src/utils/errors.js';
+import { AnalysisJob, ApiResponse } from '../../../../src/types/index.js';
+
+/**
+ * Batch Analysis Job API Endpoint
+ * GET /api/openai/jobs/{jobId} - continue the job and return its progress
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { jobId } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    throw new ValidationError('Job ID is required', 'jobId');
+  }
+
+  const job = await analysisJobService.getJob(jobId);
+  await authMiddleware.requireUserAccess(authContext, job.userId);
+
+  // Each poll continues the job for a bounded time, unless another request is working on it
+  const progress = await analysisJobService.advanceJob(job);
+
+  const response: ApiResponse<AnalysisJob> = {
+    success: true,
+    data: progress,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,49 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { AnalysisJobResultsQuerySchema, analysisJobService } from '../../../../src/services/AnalysisJobService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../src/utils/errors.js';
+import { AnalysisJobResults, ApiResponse } from '../../../../src/types/index.js';
+
+/**
+ * Batch Analysis Job Results API Endpoint
+ * GET /api/openai/jobs/{jobId}/results - a page of the job's items with their analyses
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { jobId, ...params } = req.query;
+  if (!jobId || typeof jobId !== 'string') {
+    throw new ValidationError('Job ID is required', 'jobId');
+  }
+
+  const query = validateSchema(AnalysisJobResultsQuerySchema, params, 'query parameters');
+  const job = await analysisJobService.getJob(jobId);
+  await authMiddleware.requireUserAccess(authContext, job.userId);
+
+  const results = await analysisJobService.getResults(job, query);
+
+  const response: ApiResponse<AnalysisJobResults> = {
+    success: true,
+    data: results,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
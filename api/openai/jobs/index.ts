@@ -0,0 +1,46 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../src/middleware/auth.js';
+import { SubmitAnalysisJobRequestSchema, analysisJobService } from '../../../src/services/AnalysisJobService.js';
+import { asyncHandler, validateSchema } from '../../../src/utils/errors.js';
+import { AnalysisJob, ApiResponse } from '../../../src/types/index.js';
+
+/**
+ * Batch Analysis Jobs API Endpoint
+ * POST /api/openai/jobs - queue a batch of conversations for analysis and start on it
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'openai');
+
+  const request = validateSchema(SubmitAnalysisJobRequestSchema, req.body);
+  const job = await analysisJobService.submitJob(authContext.userId, request);
+
+  // Start the job right away, polls of GET /api/openai/jobs/{jobId} continue it
+  const progress = await analysisJobService.advanceJob(job);
+
+  const response: ApiResponse<AnalysisJob> = {
+    success: true,
+    data: progress,
+    message: `Analysis job queued with ${job.total} conversation(s)`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(202).json(response);
+});
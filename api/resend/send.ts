@@ -0,0 +1,44 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../src/middleware/auth.js';
+import { EmailDataSchema, resendService } from '../../src/services/ResendService.js';
+import { asyncHandler, validateSchema } from '../../src/utils/errors.js';
+import { ApiResponse } from '../../src/types/index.js';
+
+/**
+ * Resend Email API Endpoint
+ * POST /api/resend/send
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+  authMiddleware.validateServiceAccess(authContext, 'resend');
+
+  const emailData = validateSchema(EmailDataSchema, req.body);
+
+  const result = await resendService.sendEmail(emailData, authContext.userId);
+
+  const response: ApiResponse<{ id: string; status: string }> = {
+    success: true,
+    data: result,
+    message: 'Email sent successfully',
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
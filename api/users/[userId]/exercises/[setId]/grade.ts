@@ -0,0 +1,52 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../../src/middleware/auth.js';
+import { GradeExercisesRequestSchema, exerciseService } from '../../../../../src/services/ExerciseService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../../src/utils/errors.js';
+import { ApiResponse, ExerciseGrade } from '../../../../../src/types/index.js';
+
+/**
+ * Exercise Grading API Endpoint
+ * POST /api/users/{userId}/exercises/{setId}/grade - grade answers to an exercise set
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId, setId } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+  if (!setId || typeof setId !== 'string') {
+    throw new ValidationError('Exercise set ID is required', 'setId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+
+  const request = validateSchema(GradeExercisesRequestSchema, req.body);
+  const grade = await exerciseService.gradeExercises(userId, setId, request);
+
+  const response: ApiResponse<ExerciseGrade> = {
+    success: true,
+    data: grade,
+    message: `${grade.correctCount} of ${grade.total} correct`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,50 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { CreateExerciseSetRequestSchema, exerciseService } from '../../../../src/services/ExerciseService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../src/utils/errors.js';
+import { ApiResponse, ExerciseSet } from '../../../../src/types/index.js';
+
+/**
+ * Exercises API Endpoint
+ * POST /api/users/{userId}/exercises - generate exercises from the user's recent mistakes
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+  authMiddleware.validateServiceAccess(authContext, 'openai');
+
+  const request = validateSchema(CreateExerciseSetRequestSchema, req.body);
+  const exerciseSet = await exerciseService.createExerciseSet(userId, request);
+
+  const response: ApiResponse<ExerciseSet> = {
+    success: true,
+    data: exerciseSet,
+    message: `Created ${exerciseSet.exercises.length} exercise(s)`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(201).json(response);
+});
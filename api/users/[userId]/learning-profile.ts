@@ -0,0 +1,48 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../src/middleware/auth.js';
+import { learnerProfileService } from '../../../src/services/LearnerProfileService.js';
+import { ValidationError, asyncHandler } from '../../../src/utils/errors.js';
+import { ApiResponse, LearnerProfile } from '../../../src/types/index.js';
+
+/**
+ * Learner Profile API Endpoint
+ * GET /api/users/{userId}/learning-profile - recurring mistakes, strengths, interests
+ * and proficiency history merged from the user's past analyses
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+
+  const profile = await learnerProfileService.getProfile(userId);
+
+  const response: ApiResponse<LearnerProfile> = {
+    success: true,
+    data: profile,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,47 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../src/middleware/auth.js';
+import { quotaService } from '../../../src/services/QuotaService.js';
+import { ValidationError, asyncHandler } from '../../../src/utils/errors.js';
+import { ApiResponse, QuotaStatus } from '../../../src/types/index.js';
+
+/**
+ * Quota API Endpoint
+ * GET /api/users/{userId}/quota - the user's plan and remaining daily and monthly allowance
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+
+  const status = await quotaService.getStatus(userId);
+
+  const response: ApiResponse<QuotaStatus> = {
+    success: true,
+    data: status,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
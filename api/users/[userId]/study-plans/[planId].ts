@@ -0,0 +1,50 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { studyPlanService } from '../../../../src/services/StudyPlanService.js';
+import { ValidationError, asyncHandler } from '../../../../src/utils/errors.js';
+import { ApiResponse, StudyPlan } from '../../../../src/types/index.js';
+
+/**
+ * Study Plan API Endpoint
+ * GET /api/users/{userId}/study-plans/{planId} - get one of the user's study plans
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId, planId } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+  if (!planId || typeof planId !== 'string') {
+    throw new ValidationError('Plan ID is required', 'planId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+
+  const plan = await studyPlanService.getPlan(userId, planId);
+
+  const response: ApiResponse<StudyPlan> = {
+    success: true,
+    data: plan,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
@@ -0,0 +1,70 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import {
+  CreateStudyPlanRequestSchema,
+  ListStudyPlansQuerySchema,
+  studyPlanService
+} from '../../../../src/services/StudyPlanService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../src/utils/errors.js';
+import { ApiResponse, StudyPlan } from '../../../../src/types/index.js';
+
+/**
+ * Study Plans API Endpoint
+ * GET /api/users/{userId}/study-plans - list the user's study plans, newest first
+ * POST /api/users/{userId}/study-plans - generate and store a new study plan
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET and POST requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId, ...params } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+
+  if (req.method === 'GET') {
+    const query = validateSchema(ListStudyPlansQuerySchema, params, 'query parameters');
+    const plans = await studyPlanService.listPlans(userId, query);
+
+    const response: ApiResponse<StudyPlan[]> = {
+      success: true,
+      data: plans,
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(200).json(response);
+    return;
+  }
+
+  authMiddleware.validateServiceAccess(authContext, 'openai');
+
+  const request = validateSchema(CreateStudyPlanRequestSchema, req.body);
+  const plan = await studyPlanService.createPlan(userId, request);
+
+  const response: ApiResponse<StudyPlan> = {
+    success: true,
+    data: plan,
+    message: `Study plan created with ${plan.weeks.length} week(s)`,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(201).json(response);
+});
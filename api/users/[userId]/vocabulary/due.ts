@@ -0,0 +1,49 @@
+// @ts-ignore - @vercel/node types not available
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { authMiddleware } from '../../../../src/middleware/auth.js';
+import { DueWordsQuerySchema, vocabularyService } from '../../../../src/services/VocabularyService.js';
+import { ValidationError, asyncHandler, validateSchema } from '../../../../src/utils/errors.js';
+import { ApiResponse, VocabularyContext } from '../../../../src/types/index.js';
+
+/**
+ * Words Due For Review API Endpoint
+ * GET /api/users/{userId}/vocabulary/due - words whose spaced-repetition review is due,
+ * shaped as a VocabularyContext for the next practice session
+ */
+export default asyncHandler(async (req: VercelRequest, res: VercelResponse, next?: Function) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are allowed',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  // Authenticate request
+  const authContext = await authMiddleware.authMiddleware(req, res, next);
+
+  const { userId, ...params } = req.query;
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId');
+  }
+
+  await authMiddleware.requireUserAccess(authContext, userId);
+
+  const query = validateSchema(DueWordsQuerySchema, params, 'query parameters');
+  const dueWords = await vocabularyService.getDueWords(userId, query);
+
+  const response: ApiResponse<VocabularyContext> = {
+    success: true,
+    data: dueWords,
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).json(response);
+});
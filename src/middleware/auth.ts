@@ -141,6 +141,40 @@ export class AuthMiddleware {
     // }
   }
 
+  /**
+   * Require an authenticated user with the admin role
+   */
+  async requireAdmin(authContext: AuthContext): Promise<void> {
+    if (authContext.authMethod !== 'jwt') {
+      throw new AuthorizationError('Admin access required');
+    }
+
+    const { data: profile } = await this.supabase
+      .from('profiles')
+      .select('user_role')
+      .eq('user_id', authContext.userId)
+      .single();
+
+    if (profile?.user_role !== 'admin') {
+      throw new AuthorizationError('Admin access required');
+    }
+  }
+
+  /**
+   * Require access to a user's data: the user themselves, an admin or the system API key
+   */
+  async requireUserAccess(authContext: AuthContext, userId: string): Promise<void> {
+    if (authContext.authMethod === 'api_key' || authContext.userId === userId) {
+      return;
+    }
+
+    try {
+      await this.requireAdmin(authContext);
+    } catch {
+      throw new AuthorizationError('Access denied: You can only access your own data');
+    }
+  }
+
   /**
    * Get user information from database
    */
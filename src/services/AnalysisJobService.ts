@@ -0,0 +1,447 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { ConversationAnalysisRequestSchema, openAIService } from './OpenAIService.js';
+import { moderationService } from './ModerationService.js';
+import { ErrorHandler, ExternalAPIError, NotFoundError, RateLimitError } from '../utils/errors.js';
+import { AnalysisJob, AnalysisJobItem, AnalysisJobResults, ConversationAnalysis } from '../types/index.js';
+
+// Conversations accepted in one job
+const MAX_JOB_ITEMS = 100;
+
+// Concurrent analyses per job, ANALYSIS_JOB_CONCURRENCY overrides
+const DEFAULT_JOB_CONCURRENCY = 3;
+const MAX_JOB_CONCURRENCY = 10;
+
+// Time an invocation spends starting analyses, kept well inside the function timeout
+const JOB_STEP_BUDGET_MS = 8000;
+
+// Attempts per item, and the delay before the first retry (doubled for each further one)
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// A running item not finished within this time was abandoned by an invocation that timed out
+const ITEM_LEASE_MS = 120000;
+
+// A job is leased to one invocation for its budget plus the time its last items may take
+const JOB_LEASE_MS = JOB_STEP_BUDGET_MS + ITEM_LEASE_MS;
+
+export const SubmitAnalysisJobRequestSchema = z.object({
+  items: z.array(ConversationAnalysisRequestSchema).min(1).max(MAX_JOB_ITEMS)
+});
+
+export const AnalysisJobResultsQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(MAX_JOB_ITEMS).default(50)
+});
+
+export type SubmitAnalysisJobRequest = z.infer<typeof SubmitAnalysisJobRequestSchema>;
+export type AnalysisJobResultsQuery = z.infer<typeof AnalysisJobResultsQuerySchema>;
+type AnalysisJobItemRequest = SubmitAnalysisJobRequest['items'][number];
+
+/**
+ * Batch conversation analysis that outlives a single request
+ * Jobs and their items are persisted in analysis_jobs and analysis_job_items. Submitting a job
+ * starts it and each later poll continues it for a bounded time, so progress survives cold starts
+ * and timeouts; a job is leased to one invocation at a time, so polls never add worker pools
+ */
+export class AnalysisJobService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Store a job with one pending item per conversation
+   */
+  async submitJob(userId: string, request: SubmitAnalysisJobRequest): Promise<AnalysisJob> {
+    const { data: job, error } = await this.supabase
+      .from('analysis_jobs')
+      .insert({
+        user_id: userId,
+        status: 'queued',
+        total: request.items.length,
+        succeeded_count: 0,
+        failed_count: 0,
+        lease_version: 0,
+        updated_at: new Date().toISOString()
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create analysis job: ${error.message}`);
+    }
+
+    const { error: itemsError } = await this.supabase
+      .from('analysis_job_items')
+      .insert(request.items.map((item, position) => ({
+        job_id: job.id,
+        position,
+        conversation_id: item.conversationId ?? null,
+        request: item,
+        status: 'pending',
+        attempts: 0
+      })));
+
+    if (itemsError) {
+      throw new Error(`Failed to create analysis job items: ${itemsError.message}`);
+    }
+
+    console.log(`🗂️ Queued analysis job ${job.id} with ${request.items.length} conversation(s) for user ${userId}`);
+    return toAnalysisJob(job);
+  }
+
+  /**
+   * Get a job's progress
+   */
+  async getJob(jobId: string): Promise<AnalysisJob> {
+    const { data, error } = await this.supabase
+      .from('analysis_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch analysis job: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Analysis job not found: ${jobId}`);
+    }
+
+    return toAnalysisJob(data);
+  }
+
+  /**
+   * Analyze pending items of a job with bounded concurrency until none are left or the time
+   * budget is spent, then return the updated progress
+   * Items in progress when the budget runs out still finish; no new ones are started. While
+   * another invocation holds the job's lease this only returns the progress
+   */
+  async advanceJob(job: AnalysisJob, budgetMs: number = JOB_STEP_BUDGET_MS): Promise<AnalysisJob> {
+    if (job.status === 'completed') {
+      return job;
+    }
+
+    const leaseVersion = await this.claimJob(job.id);
+    if (leaseVersion === null) {
+      return this.getJob(job.id);
+    }
+
+    const deadline = Date.now() + budgetMs;
+    const worker = async () => {
+      while (Date.now() < deadline) {
+        const item = await this.claimNextItem(job.id);
+        if (!item) return;
+        await this.processItem(job, item);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: getJobConcurrency() }, worker));
+    } finally {
+      await this.releaseJob(job.id, leaseVersion);
+    }
+
+    return this.refreshJob(job.id);
+  }
+
+  /**
+   * Get a page of a job's items in submission order, with analyses of finished items
+   */
+  async getResults(job: AnalysisJob, query: AnalysisJobResultsQuery): Promise<AnalysisJobResults> {
+    const { data, error } = await this.supabase
+      .from('analysis_job_items')
+      .select('*')
+      .eq('job_id', job.id)
+      .order('position', { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch analysis job items: ${error.message}`);
+    }
+
+    return { job, items: (data || []).map(toAnalysisJobItem) };
+  }
+
+  /**
+   * Lease a job to this invocation unless another one holds an unexpired lease
+   * The lease version works like an item's attempt count: a concurrent claim updates nothing
+   * Returns the claimed version, or null when the job is leased elsewhere
+   */
+  private async claimJob(jobId: string): Promise<number | null> {
+    const now = Date.now();
+
+    const { data: job, error } = await this.supabase
+      .from('analysis_jobs')
+      .select('lease_version, leased_until')
+      .eq('id', jobId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch analysis job: ${error.message}`);
+    }
+
+    if (job.leased_until && Date.parse(job.leased_until) > now) {
+      return null;
+    }
+
+    const leaseVersion = (job.lease_version ?? 0) + 1;
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('analysis_jobs')
+      .update({ lease_version: leaseVersion, leased_until: new Date(now + JOB_LEASE_MS).toISOString() })
+      .eq('id', jobId)
+      .eq('lease_version', job.lease_version ?? 0)
+      .select('id');
+
+    if (claimError) {
+      throw new Error(`Failed to lease analysis job: ${claimError.message}`);
+    }
+
+    return claimed?.length ? leaseVersion : null;
+  }
+
+  /**
+   * Give up a job's lease so that the next poll can continue it straight away
+   */
+  private async releaseJob(jobId: string, leaseVersion: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('analysis_jobs')
+      .update({ leased_until: null })
+      .eq('id', jobId)
+      .eq('lease_version', leaseVersion);
+
+    if (error) {
+      throw new Error(`Failed to release analysis job: ${error.message}`);
+    }
+  }
+
+  /**
+   * Claim the first item that is waiting, or was abandoned, by counting an attempt on it
+   * The attempt count doubles as a version, so a concurrent claim of the same item updates nothing
+   */
+  private async claimNextItem(jobId: string): Promise<any | null> {
+    const now = Date.now();
+
+    const { data, error } = await this.supabase
+      .from('analysis_job_items')
+      .select('*')
+      .eq('job_id', jobId)
+      .in('status', ['pending', 'running'])
+      .order('position', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch analysis job items: ${error.message}`);
+    }
+
+    for (const item of data || []) {
+      const claimable = item.status === 'pending'
+        ? !item.available_at || Date.parse(item.available_at) <= now
+        : Date.parse(item.started_at) <= now - ITEM_LEASE_MS;
+      if (!claimable) continue;
+
+      if (item.attempts >= MAX_ATTEMPTS) {
+        await this.updateItem(item, {
+          status: 'failed',
+          last_error: item.last_error || 'Analysis did not finish in time',
+          finished_at: new Date(now).toISOString()
+        });
+        continue;
+      }
+
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('analysis_job_items')
+        .update({ status: 'running', attempts: item.attempts + 1, started_at: new Date(now).toISOString() })
+        .eq('id', item.id)
+        .eq('attempts', item.attempts)
+        .select('*');
+
+      if (claimError) {
+        throw new Error(`Failed to claim analysis job item: ${claimError.message}`);
+      }
+
+      if (claimed?.length) {
+        return claimed[0];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Analyze one claimed item and store the outcome
+   * Retryable failures go back to pending with a backoff until the attempts run out; an exhausted
+   * quota is not one of them, it lasts until the quota period resets
+   */
+  private async processItem(job: AnalysisJob, item: any): Promise<void> {
+    try {
+      const analysis = await this.analyzeItem(job.userId, item.request);
+
+      await this.updateItem(item, {
+        status: 'succeeded',
+        analysis,
+        last_error: null,
+        finished_at: new Date().toISOString()
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retry = error instanceof Error
+        && !(error instanceof RateLimitError)
+        && ErrorHandler.isRetryable(error)
+        && item.attempts < MAX_ATTEMPTS;
+
+      console.warn(`⚠️ Analysis job ${job.id} item ${item.position} failed (attempt ${item.attempts}):`, message);
+      await this.updateItem(item, retry
+        ? {
+          status: 'pending',
+          last_error: message,
+          available_at: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1)).toISOString()
+        }
+        : {
+          status: 'failed',
+          last_error: message,
+          finished_at: new Date().toISOString()
+        });
+    }
+  }
+
+  /**
+   * Analyze an item the way the synchronous endpoint would, moderation of messages and analysis included
+   * A degraded fallback is no use in a batch, so it counts as a retryable failure
+   */
+  private async analyzeItem(userId: string, request: AnalysisJobItemRequest): Promise<ConversationAnalysis> {
+    await moderationService.moderateConversation(request.messages, {
+      userId,
+      conversationId: request.conversationId,
+      path: 'analysis_job'
+    });
+
+    const analysis = request.vocabularyContext
+      ? await openAIService.analyzeVocabularyPractice(request.messages, request.userProfile, request.vocabularyContext, {
+        tokenBudget: request.tokenBudget,
+        userId
+      })
+      : await openAIService.analyzeConversation(request.messages, request.userProfile, request.studyTopic, {
+        conversationType: request.conversationType,
+        tokenBudget: request.tokenBudget,
+        userId
+      });
+
+    if (analysis.degraded) {
+      throw new ExternalAPIError('Analysis failed and returned a fallback', 'openai');
+    }
+
+    await moderationService.moderateAnalysis(analysis, {
+      userId,
+      conversationId: request.conversationId,
+      path: 'analysis_job'
+    });
+
+    return analysis;
+  }
+
+  /**
+   * Update a claimed item, unless another invocation has claimed it since
+   */
+  private async updateItem(item: any, values: Record<string, any>): Promise<void> {
+    const { error } = await this.supabase
+      .from('analysis_job_items')
+      .update(values)
+      .eq('id', item.id)
+      .eq('attempts', item.attempts);
+
+    if (error) {
+      throw new Error(`Failed to update analysis job item: ${error.message}`);
+    }
+  }
+
+  /**
+   * Recount a job's items and store its progress
+   */
+  private async refreshJob(jobId: string): Promise<AnalysisJob> {
+    const { data: items, error } = await this.supabase
+      .from('analysis_job_items')
+      .select('status')
+      .eq('job_id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to fetch analysis job items: ${error.message}`);
+    }
+
+    const succeeded = (items || []).filter((item: any) => item.status === 'succeeded').length;
+    const failed = (items || []).filter((item: any) => item.status === 'failed').length;
+    const completed = succeeded + failed === (items || []).length;
+    const now = new Date().toISOString();
+
+    const { data, error: updateError } = await this.supabase
+      .from('analysis_jobs')
+      .update({
+        status: completed ? 'completed' : 'running',
+        succeeded_count: succeeded,
+        failed_count: failed,
+        updated_at: now,
+        completed_at: completed ? now : null
+      })
+      .eq('id', jobId)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to update analysis job: ${updateError.message}`);
+    }
+
+    if (completed) {
+      console.log(`🗂️ Analysis job ${jobId} completed: ${succeeded} succeeded, ${failed} failed`);
+    }
+
+    return toAnalysisJob(data);
+  }
+}
+
+/**
+ * Get the number of concurrent analyses per job, from ANALYSIS_JOB_CONCURRENCY when valid
+ */
+export function getJobConcurrency(): number {
+  const configured = parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || '', 10);
+  if (isNaN(configured) || configured < 1) {
+    return DEFAULT_JOB_CONCURRENCY;
+  }
+  return Math.min(configured, MAX_JOB_CONCURRENCY);
+}
+
+function toAnalysisJob(row: any): AnalysisJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    total: row.total,
+    succeeded: row.succeeded_count,
+    failed: row.failed_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at ?? undefined
+  };
+}
+
+function toAnalysisJobItem(row: any): AnalysisJobItem {
+  return {
+    index: row.position,
+    conversationId: row.conversation_id ?? undefined,
+    status: row.status,
+    attempts: row.attempts,
+    analysis: row.analysis ?? undefined,
+    error: row.last_error ?? undefined
+  };
+}
+
+// Export singleton instance
+export const analysisJobService = new AnalysisJobService();
+export default analysisJobService;
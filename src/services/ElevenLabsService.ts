@@ -5,6 +5,8 @@ import {
   ElevenLabsVoiceRequest 
 } from '../types/index.js';
 import { ExternalAPIError } from '../utils/errors.js';
+import { getRedactionPolicy, redactText } from '../utils/redaction.js';
+import { quotaService } from './QuotaService.js';
 
 /**
  * ElevenLabs Service for voice conversations and text-to-speech
@@ -104,7 +106,8 @@ export class ElevenLabsService {
 
       const endpoint = `${this.baseUrl}/convai/conversation/${conversationId}/message`;
       const requestBody = {
-        message,
+        // PII is masked following the elevenlabs redaction policy
+        message: redactText(message, getRedactionPolicy().elevenlabs),
         ...config
       };
 
@@ -230,14 +233,18 @@ export class ElevenLabsService {
 
   /**
    * Generate voice using ElevenLabs
+   * Usage is billed per character of text, cached voices cost nothing
    */
   async generateVoice(
     text: string, 
     voiceId: string, 
-    settings: any = {}
+    settings: any = {},
+    userId?: string
   ): Promise<{ audioUrl: string; duration?: number }> {
     const startTime = Date.now();
     
+    await quotaService.assertWithinQuota(userId, 'characters', text.length);
+
     try {
       console.log('🔊 ElevenLabs Service: Generating voice', { voiceId, textLength: text.length });
 
@@ -303,7 +310,9 @@ export class ElevenLabsService {
         requestBody,
         responseStatus: response.status,
         responseBody: { audioUrl, duration: result.duration },
-        duration
+        duration,
+        userId,
+        usage: { model: requestBody.model_id, characters: text.length }
       });
 
       console.log('✅ ElevenLabs Service: Voice generated successfully');
@@ -317,6 +326,7 @@ export class ElevenLabsService {
         serviceName: 'elevenlabs',
         endpoint: `${this.baseUrl}/text-to-speech/${voiceId}`,
         method: 'POST',
+        userId,
         responseStatus: 500,
         duration,
         errorMessage: error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { openAIService, UserProfileSchema } from './OpenAIService.js';
+import { learnerProfileService } from './LearnerProfileService.js';
+import { moderationService } from './ModerationService.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { Exercise, ExerciseGrade, ExerciseSet, ExerciseWithAnswer, LearnerProfile } from '../types/index.js';
+
+// Mistakes and areas for improvement given to the exercise prompt, most frequent first
+const FOCUS_ITEM_LIMIT = 5;
+
+const ExerciseTypeSchema = z.enum(['fill_in_blank', 'multiple_choice', 'sentence_transformation']);
+
+export const CreateExerciseSetRequestSchema = z.object({
+  userProfile: UserProfileSchema,
+  practiceLanguage: z.string().min(1).optional(),
+  count: z.number().int().min(1).max(20).default(6),
+  types: z.array(ExerciseTypeSchema).min(1).default(['fill_in_blank', 'multiple_choice', 'sentence_transformation'])
+}).refine(
+  request => !!request.practiceLanguage || !!request.userProfile.practice_languages?.length,
+  { message: 'practiceLanguage is required when the profile has no practice languages', path: ['practiceLanguage'] }
+);
+
+export const GradeExercisesRequestSchema = z.object({
+  answers: z.array(z.object({
+    exerciseId: z.string().min(1),
+    answer: z.string()
+  })).min(1)
+});
+
+export type CreateExerciseSetRequest = z.infer<typeof CreateExerciseSetRequestSchema>;
+export type GradeExercisesRequest = z.infer<typeof GradeExercisesRequestSchema>;
+
+/**
+ * Practice exercises generated from a learner's recent mistakes
+ * Sets are stored with their answer key in exercise_sets and graded here, so answers are
+ * never sent to the client before grading; graded attempts go to exercise_attempts
+ */
+export class ExerciseService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Generate and store an exercise set for a user
+   */
+  async createExerciseSet(userId: string, request: CreateExerciseSetRequest): Promise<ExerciseSet> {
+    const practiceLanguage = request.practiceLanguage || request.userProfile.practice_languages![0];
+
+    // Without a profile the prompt targets typical difficulties at the learner's level
+    const profile: Pick<LearnerProfile, 'recurringMistakes' | 'areasForImprovement'> = await learnerProfileService
+      .getProfile(userId)
+      .catch(error => {
+        console.warn('⚠️ Failed to load learner profile for exercises:', error);
+        return { recurringMistakes: [], areasForImprovement: [] };
+      });
+
+    const exercises = await openAIService.generateExercises(request.userProfile, {
+      practiceLanguage,
+      count: request.count,
+      types: request.types,
+      commonMistakes: profile.recurringMistakes.slice(0, FOCUS_ITEM_LIMIT).map(insight => insight.text),
+      areasForImprovement: profile.areasForImprovement.slice(0, FOCUS_ITEM_LIMIT).map(insight => insight.text)
+    }, userId);
+
+    // Generated exercises are screened before they are stored and shown, answer keys included
+    await moderationService.moderateOutput(exercises, { userId, path: 'exercises' });
+
+    const { data, error } = await this.supabase
+      .from('exercise_sets')
+      .insert({
+        user_id: userId,
+        practice_language: practiceLanguage,
+        exercises
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save exercise set: ${error.message}`);
+    }
+
+    console.log(`✏️ Created ${exercises.length} exercise(s) for user ${userId}`);
+    return toExerciseSet(data);
+  }
+
+  /**
+   * Grade answers against a set's answer key and store the attempt
+   * Exercises without an answer count as incorrect
+   */
+  async gradeExercises(userId: string, setId: string, request: GradeExercisesRequest): Promise<ExerciseGrade> {
+    const { data: set, error: fetchError } = await this.supabase
+      .from('exercise_sets')
+      .select('*')
+      .eq('id', setId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch exercise set: ${fetchError.message}`);
+    }
+
+    if (!set) {
+      throw new NotFoundError(`Exercise set not found: ${setId}`);
+    }
+
+    const exercises: ExerciseWithAnswer[] = set.exercises;
+    const unknown = request.answers.find(answer => !exercises.some(exercise => exercise.id === answer.exerciseId));
+    if (unknown) {
+      throw new ValidationError(`Unknown exercise in answers: ${unknown.exerciseId}`, 'answers');
+    }
+
+    const results = exercises.map(exercise => {
+      const answer = request.answers.find(entry => entry.exerciseId === exercise.id)?.answer ?? '';
+      const accepted = [exercise.answer, ...(exercise.acceptableAnswers || [])].map(normalizeAnswer);
+
+      return {
+        exerciseId: exercise.id,
+        correct: answer.trim() !== '' && accepted.includes(normalizeAnswer(answer)),
+        answer,
+        expected: exercise.answer,
+        explanation: exercise.explanation
+      };
+    });
+    const correctCount = results.filter(result => result.correct).length;
+
+    const { error } = await this.supabase
+      .from('exercise_attempts')
+      .insert({
+        set_id: setId,
+        user_id: userId,
+        answers: request.answers,
+        correct_count: correctCount,
+        total: results.length
+      });
+
+    if (error) {
+      throw new Error(`Failed to save exercise attempt: ${error.message}`);
+    }
+
+    console.log(`✏️ Graded exercise set ${setId}: ${correctCount}/${results.length}`);
+    return { setId, correctCount, total: results.length, results };
+  }
+}
+
+/**
+ * Normalize an answer for comparison: case, surrounding punctuation and extra whitespace
+ * don't make an answer wrong
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'“”‘’¿¡.,;:!?]+|[\s"'“”‘’¿¡.,;:!?]+$/g, '');
+}
+
+function toExerciseSet(row: any): ExerciseSet {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    practiceLanguage: row.practice_language,
+    // The answer key stays on the server until grading
+    exercises: (row.exercises as ExerciseWithAnswer[]).map(({ answer, acceptableAnswers, explanation, ...exercise }): Exercise => exercise),
+    createdAt: row.created_at
+  };
+}
+
+// Export singleton instance
+export const exerciseService = new ExerciseService();
+export default exerciseService;
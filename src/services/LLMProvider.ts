@@ -0,0 +1,327 @@
+import OpenAI from 'openai';
+import { LLMCompletion, LLMProvider, LLMRequest, LLMUsage } from '../types/index.js';
+
+/**
+ * LLM providers used by the analysis pipeline
+ * Selected with LLM_PROVIDER: openai (default), openai_compatible or stub
+ */
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Characters per streamed piece from the stub provider
+const STUB_STREAM_CHUNK_SIZE = 16;
+
+// Words ignored when the stub picks key topics
+const STUB_STOP_WORDS = new Set([
+  'about', 'after', 'again', 'analyze', 'analysis', 'assistant', 'because', 'conversation',
+  'could', 'there', 'their', 'these', 'thing', 'think', 'where', 'which', 'would', 'should'
+]);
+
+/**
+ * OpenAI chat completions, also used for OpenAI-compatible servers (vLLM, Ollama, LM Studio...)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly endpoint: string;
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string; baseURL?: string; name?: string }) {
+    this.name = options.name || 'openai';
+    this.endpoint = `${(options.baseURL || OPENAI_BASE_URL).replace(/\/$/, '')}/chat/completions`;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode && { response_format: { type: 'json_object' as const } })
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      }
+    };
+  }
+
+  async *stream(request: LLMRequest, onUsage?: (usage: LLMUsage) => void): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode && { response_format: { type: 'json_object' as const } }),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+
+      // Usage arrives in a final chunk without choices
+      if (chunk.usage) {
+        onUsage?.({
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Deterministic local provider for development and tests, never touches the network
+ * The same request always produces the same response
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly endpoint = 'stub://local/chat/completions';
+
+  constructor(private readonly respond: (request: LLMRequest) => string = buildStubResponse) {}
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const content = this.respond(request);
+    return { content, usage: estimateStubUsage(request, content) };
+  }
+
+  async *stream(request: LLMRequest, onUsage?: (usage: LLMUsage) => void): AsyncGenerator<string> {
+    const content = this.respond(request);
+    for (let index = 0; index < content.length; index += STUB_STREAM_CHUNK_SIZE) {
+      yield content.slice(index, index + STUB_STREAM_CHUNK_SIZE);
+    }
+    onUsage?.(estimateStubUsage(request, content));
+  }
+}
+
+/**
+ * Approximate usage at four characters per token
+ */
+function estimateStubUsage(request: LLMRequest, content: string): LLMUsage {
+  const promptTokens = Math.ceil(request.messages.reduce((total, message) => total + message.content.length, 0) / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Answer a request according to its task
+ */
+function buildStubResponse(request: LLMRequest): string {
+  switch (request.task) {
+    case 'corrections':
+      return buildStubCorrections(request);
+    case 'vocabulary_outcomes':
+      return buildStubWordOutcomes(request);
+    case 'study_plan':
+      return buildStubStudyPlan(request);
+    case 'exercises':
+      return buildStubExercises(request);
+    default:
+      return buildStubAnalysis(request);
+  }
+}
+
+/**
+ * Correct the messages listed in the last user prompt, flagging repeated words ("the the")
+ */
+function buildStubCorrections(request: LLMRequest): string {
+  const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+  const listing = prompt.split('MESSAGES:\n')[1];
+  let messages: Array<{ index: number; text: string }> = [];
+  try {
+    messages = listing ? JSON.parse(listing) : [];
+  } catch {
+    messages = [];
+  }
+
+  return JSON.stringify({
+    corrections: messages.map(({ index, text }) => {
+      const repeated = [...text.matchAll(/\b(\p{L}+) \1\b/giu)];
+      return {
+        index,
+        corrected: text.replace(/\b(\p{L}+) \1\b/giu, '$1'),
+        errors: repeated.map(([duplicate, word]) => ({
+          text: duplicate,
+          correction: word,
+          category: 'lexical',
+          explanation: `"${word}" is repeated.`
+        }))
+      };
+    })
+  });
+}
+
+/**
+ * Judge the words listed in the last user prompt: used by the learner counts as correct
+ */
+function buildStubWordOutcomes(request: LLMRequest): string {
+  const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+  const [listing = '', learnerText = ''] = prompt.split('WORDS:\n')[1]?.split('\n\nLEARNER MESSAGES:\n') || [];
+  let words: string[] = [];
+  try {
+    words = listing ? JSON.parse(listing) : [];
+  } catch {
+    words = [];
+  }
+
+  const used = new Set(learnerText.toLowerCase().match(/\p{L}+/gu) || []);
+
+  return JSON.stringify({
+    outcomes: words.map(word => ({ word, outcome: used.has(word.toLowerCase()) ? 'correct' : 'not_used' }))
+  });
+}
+
+/**
+ * Build a study plan with the number of weeks and topics asked for in the last user prompt
+ */
+function buildStubStudyPlan(request: LLMRequest): string {
+  const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+  const language = prompt.match(/^- Practice language: (.+)$/m)?.[1] || 'the language';
+  const weeks = Number(prompt.match(/^- Number of weeks: (\d+)$/m)?.[1] || 1);
+  const topicsPerWeek = Number(prompt.match(/^- Topics per week: (\d+)$/m)?.[1] || 1);
+
+  return JSON.stringify({
+    title: `${weeks}-week ${language} plan`,
+    weeks: Array.from({ length: weeks }, (_, week) => ({
+      focus: `Week ${week + 1} practice`,
+      topics: Array.from({ length: topicsPerWeek }, (_, topic) => ({
+        title: `Conversation ${week * topicsPerWeek + topic + 1}`,
+        description: `Everyday conversation in ${language}.`,
+        objectives: ['Hold a short conversation', 'Use new vocabulary']
+      }))
+    }))
+  });
+}
+
+// Exercises returned by the stub, cycled through for the requested types
+const STUB_EXERCISES: Record<string, object> = {
+  fill_in_blank: {
+    type: 'fill_in_blank',
+    instructions: 'Fill in the blank.',
+    prompt: 'Yesterday I ___ to the market.',
+    answer: 'went',
+    explanation: '"Went" is the past tense of "go".',
+    focus: 'Past tense'
+  },
+  multiple_choice: {
+    type: 'multiple_choice',
+    instructions: 'Choose the correct option.',
+    prompt: 'She ___ a doctor.',
+    options: ['is', 'are', 'am'],
+    answer: 'is',
+    explanation: 'Third person singular takes "is".',
+    focus: 'Verb agreement'
+  },
+  sentence_transformation: {
+    type: 'sentence_transformation',
+    instructions: 'Rewrite the sentence in the past tense.',
+    prompt: 'I eat an apple.',
+    answer: 'I ate an apple.',
+    explanation: '"Ate" is the past tense of "eat".',
+    focus: 'Past tense'
+  }
+};
+
+/**
+ * Write the number and types of exercises listed in the last user prompt
+ */
+function buildStubExercises(request: LLMRequest): string {
+  const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+  const count = Number(prompt.match(/^- Number of exercises: (\d+)$/m)?.[1] || 1);
+  const types = (prompt.match(/^- Exercise types: (.+)$/m)?.[1] || 'fill_in_blank')
+    .split(', ')
+    .filter(type => type in STUB_EXERCISES);
+
+  return JSON.stringify({
+    exercises: Array.from({ length: count }, (_, index) => STUB_EXERCISES[types[index % types.length]])
+  });
+}
+
+/**
+ * Build a conversation analysis from the last user prompt without a model
+ */
+function buildStubAnalysis(request: LLMRequest): string {
+  const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+  const learnerTurns = (prompt.match(/^USER:/gm) || []).length;
+
+  const wordCounts = new Map<string, number>();
+  for (const word of prompt.toLowerCase().match(/\p{L}{5,}/gu) || []) {
+    if (!STUB_STOP_WORDS.has(word)) {
+      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
+    }
+  }
+  const keyTopics = [...wordCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 3)
+    .map(([word]) => word);
+
+  return JSON.stringify({
+    summary: `Stub analysis of a conversation with ${learnerTurns} learner message(s).`,
+    keyTopics: keyTopics.length > 0 ? keyTopics : ['general conversation'],
+    userInsights: {
+      languageLevel: 'Intermediate',
+      commonMistakes: [],
+      interests: keyTopics.slice(0, 1),
+      learningStyle: 'Conversational',
+      strengths: ['Participation'],
+      areasForImprovement: ['Vocabulary range']
+    },
+    learningProgress: {
+      vocabularyProgress: 'Steady',
+      grammarProgress: 'Steady',
+      fluencyProgress: 'Steady'
+    },
+    proficiency: {
+      cefrLevel: 'B1',
+      vocabulary: 50,
+      grammar: 50,
+      fluency: 50,
+      confidence: Math.min(0.9, 0.2 + learnerTurns * 0.1)
+    }
+  });
+}
+
+/**
+ * Create the provider configured by the environment
+ */
+export function createLLMProvider(): LLMProvider {
+  const provider = process.env.LLM_PROVIDER || 'openai';
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return new OpenAIProvider({ apiKey });
+    }
+
+    case 'openai_compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL is required for the openai_compatible provider');
+      }
+      // Self-hosted servers often ignore the key, but the client requires one
+      return new OpenAIProvider({
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL,
+        name: 'openai_compatible'
+      });
+    }
+
+    case 'stub':
+      return new StubLLMProvider();
+
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
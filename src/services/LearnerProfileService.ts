@@ -0,0 +1,154 @@
+import { createClient } from '@supabase/supabase-js';
+import { proficiencyService } from './ProficiencyService.js';
+import { ConversationAnalysis, LearnerInsight, LearnerProfile } from '../types/index.js';
+
+// Past analyses merged into a profile, most recent first
+const PROFILE_ANALYSIS_LIMIT = 50;
+
+// Entries per list in the condensed history given to prompts
+const HISTORY_ITEM_LIMIT = 5;
+
+// learner_history value for users without stored analyses
+export const NO_LEARNER_HISTORY = 'No previous conversations analyzed';
+
+/**
+ * Longitudinal learner model
+ * Every analysis of a user is stored in conversation_analyses and merged into a profile
+ * of recurring mistakes, areas for improvement, strengths and interests
+ */
+export class LearnerProfileService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Store an analysis and its proficiency estimate
+   * A conversation analyzed again replaces its earlier analysis, so resubmissions are counted
+   * once. Degraded analyses are skipped; failures are logged, not thrown, so they never fail
+   * the analysis request
+   */
+  async recordAnalysis(userId: string, analysis: ConversationAnalysis, conversationId?: string): Promise<void> {
+    if (analysis.degraded) {
+      return;
+    }
+
+    try {
+      const row = {
+        user_id: userId,
+        conversation_id: conversationId ?? null,
+        conversation_type: analysis.conversationType,
+        prompt_id: analysis.promptId ?? null,
+        analysis
+      };
+      const { error } = conversationId
+        ? await this.supabase.from('conversation_analyses').upsert(row, { onConflict: 'user_id,conversation_id' })
+        : await this.supabase.from('conversation_analyses').insert(row);
+
+      if (error) {
+        console.error('❌ Failed to store analysis:', error);
+      }
+    } catch (error) {
+      console.error('❌ Analysis storage error:', error);
+    }
+
+    await proficiencyService.recordEstimate(userId, analysis, conversationId);
+  }
+
+  /**
+   * Build a user's profile from their recent analyses
+   */
+  async getProfile(userId: string): Promise<LearnerProfile> {
+    const { data, error } = await this.supabase
+      .from('conversation_analyses')
+      .select('analysis, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(PROFILE_ANALYSIS_LIMIT);
+
+    if (error) {
+      throw new Error(`Failed to fetch analyses: ${error.message}`);
+    }
+
+    const rows: Array<{ analysis: ConversationAnalysis; created_at: string }> = data || [];
+
+    return {
+      userId,
+      analysisCount: rows.length,
+      firstAnalyzedAt: rows[rows.length - 1]?.created_at,
+      lastAnalyzedAt: rows[0]?.created_at,
+      recurringMistakes: mergeInsights(rows, analysis => analysis.userInsights.commonMistakes),
+      areasForImprovement: mergeInsights(rows, analysis => analysis.userInsights.areasForImprovement),
+      strengths: mergeInsights(rows, analysis => analysis.userInsights.strengths),
+      interests: mergeInsights(rows, analysis => analysis.userInsights.interests),
+      proficiency: await proficiencyService.getHistory(userId)
+    };
+  }
+
+  /**
+   * Summarize a user's profile for the learner_history prompt variable
+   */
+  async getPromptHistory(userId: string): Promise<string> {
+    const profile = await this.getProfile(userId);
+
+    if (profile.analysisCount === 0) {
+      return NO_LEARNER_HISTORY;
+    }
+
+    const list = (insights: LearnerInsight[]) => insights.length > 0
+      ? insights.slice(0, HISTORY_ITEM_LIMIT).map(insight => `${insight.text} (${insight.occurrences}x)`).join(', ')
+      : 'None recorded';
+    const latest = profile.proficiency[profile.proficiency.length - 1];
+
+    return [
+      `Previous conversations analyzed: ${profile.analysisCount}`,
+      `Recurring mistakes: ${list(profile.recurringMistakes)}`,
+      `Strengths: ${list(profile.strengths)}`,
+      `Interests: ${list(profile.interests)}`,
+      ...(latest ? [`Latest proficiency estimate: ${latest.cefrLevel}`] : [])
+    ].join('\n');
+  }
+}
+
+/**
+ * Merge list entries across analyses, case-insensitively, most frequent first
+ * Rows are expected most recent first, so the first spelling seen is the most recent one
+ */
+function mergeInsights(
+  rows: Array<{ analysis: ConversationAnalysis; created_at: string }>,
+  select: (analysis: ConversationAnalysis) => string[] | undefined
+): LearnerInsight[] {
+  const insights = new Map<string, LearnerInsight>();
+
+  for (const row of rows) {
+    const seen = new Set<string>();
+
+    for (const entry of select(row.analysis) || []) {
+      const text = entry.trim();
+      const key = text.toLowerCase();
+      if (!text || seen.has(key)) continue;
+      seen.add(key);
+
+      const insight = insights.get(key);
+      if (insight) {
+        insight.occurrences += 1;
+      } else {
+        insights.set(key, { text, occurrences: 1, lastSeenAt: row.created_at });
+      }
+    }
+  }
+
+  return [...insights.values()].sort((a, b) => b.occurrences - a.occurrences || b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+// Export singleton instance
+export const learnerProfileService = new LearnerProfileService();
+export default learnerProfileService;
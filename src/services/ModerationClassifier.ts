@@ -0,0 +1,145 @@
+import OpenAI from 'openai';
+import { ModerationCategory, ModerationClassifier, ModerationResult } from '../types/index.js';
+import { getRedactionPolicy, redactText } from '../utils/redaction.js';
+
+/**
+ * Moderation classifiers for learner messages and model output
+ * Selected with MODERATION_PROVIDER: openai or rules. The default follows LLM_PROVIDER, so
+ * setups that keep conversations off OpenAI (stub, openai_compatible) moderate locally too
+ */
+
+const OPENAI_MODERATION_MODEL = 'omni-moderation-latest';
+
+// OpenAI category prefixes ("self-harm/intent" counts as self-harm) to our categories
+const OPENAI_CATEGORY_MAP: Record<string, ModerationCategory> = {
+  'sexual': 'sexual',
+  'self-harm': 'self_harm',
+  'violence': 'violence',
+  'illicit/violent': 'violence',
+  'harassment': 'harassment',
+  'hate': 'hate'
+};
+
+// Regular expression sources per category, matched as whole words on lowercased text without
+// accents. Phrases rather than single words where a word alone is common in lessons ("kill time")
+const RULES: Record<ModerationCategory, string[]> = {
+  sexual: [
+    'porn', 'porno', 'pornography', 'pornografia', 'send nudes', 'nudes', 'naked (?:photos|pics|pictures)',
+    'sexting', 'have sex', 'tener sexo', 'fotos desnud[oa]s?', 'photos nues?', 'nacktbilder?', 'foto nud[ae]',
+    'fotos nuas', 'fazer sexo'
+  ],
+  self_harm: [
+    'kill myself', 'killing myself', 'suicide', 'suicidal', 'self[- ]harm', 'cut(?:ting)? myself', 'hurt myself',
+    'want to die', 'end my life', 'suicidarme', 'suicidio', 'matarme', 'quiero morir(?:me)?', 'quitarme la vida',
+    'hacerme dano', 'me suicider', 'je veux mourir', 'envie de mourir', 'selbstmord', 'mich umbringen',
+    'ich will sterben', 'suicidarmi', 'uccidermi', 'voglio morire', 'farla finita', 'me matar', 'quero morrer'
+  ],
+  violence: [
+    '(?:kill|shoot|stab) you', 'beat you up', 'bring a (?:gun|knife) to school', 'school shooting', 'bomb the school',
+    'te voy a matar', 'te mato', 'je vais te tuer', 'ich bring(?:e)? dich um', 'ti ammazzo', 'ti uccido',
+    'vou te matar'
+  ],
+  harassment: [
+    'kill yourself', 'kys', 'go die', 'you are worthless', 'nobody likes you', 'bitch', 'slut', 'whore',
+    'puta', 'zorra', 'matate', 'nadie te quiere', 'salope', 'pute', 'schlampe', 'hure',
+    'puttana', 'ammazzati', 'vadia'
+  ],
+  hate: [
+    '(?:hate|kill|exterminate|gas) (?:all )?(?:the )?(?:jews|muslims|christians|gays|lesbians|blacks|black people|immigrants|refugees|gypsies)',
+    '(?:odio|matar) a (?:todos )?(?:los|las) (?:judios|musulmanes|gays|negros|inmigrantes|gitanos|refugiados)',
+    'heil hitler', 'sieg heil', 'white power'
+  ]
+};
+
+const RULE_PATTERNS = Object.entries(RULES).map(([category, sources]) => ({
+  category: category as ModerationCategory,
+  patterns: sources.map(source => new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'u'))
+}));
+
+/**
+ * OpenAI moderation endpoint, sent text is redacted following the openai redaction policy
+ */
+export class OpenAIModerationClassifier implements ModerationClassifier {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string }) {
+    this.client = new OpenAI({ apiKey: options.apiKey });
+  }
+
+  async classify(texts: string[]): Promise<ModerationResult[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const categories = getRedactionPolicy().openai;
+    const response = await this.client.moderations.create({
+      model: OPENAI_MODERATION_MODEL,
+      input: texts.map(text => redactText(text, categories))
+    });
+
+    return response.results.map(result => {
+      const flaggedCategories = new Set<ModerationCategory>();
+      for (const [category, flagged] of Object.entries(result.categories)) {
+        const mapped = OPENAI_CATEGORY_MAP[category] ?? OPENAI_CATEGORY_MAP[category.split('/')[0]];
+        if (flagged && mapped) {
+          flaggedCategories.add(mapped);
+        }
+      }
+      return { flagged: flaggedCategories.size > 0, categories: [...flaggedCategories] };
+    });
+  }
+}
+
+/**
+ * Local keyword rules in the product's languages, for offline use and as a fallback
+ * Coarser than a model: it misses paraphrases and cannot tell quoting from meaning
+ */
+export class RuleBasedModerationClassifier implements ModerationClassifier {
+  readonly name = 'rules';
+
+  async classify(texts: string[]): Promise<ModerationResult[]> {
+    return texts.map(text => {
+      const normalized = normalizeForRules(text);
+      const categories = RULE_PATTERNS
+        .filter(({ patterns }) => patterns.some(pattern => pattern.test(normalized)))
+        .map(({ category }) => category);
+      return { flagged: categories.length > 0, categories };
+    });
+  }
+}
+
+/**
+ * Lowercase, strip accents and collapse whitespace, so rules need one spelling per phrase
+ */
+function normalizeForRules(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Create the classifier configured by the environment
+ */
+export function createModerationClassifier(): ModerationClassifier {
+  const llmProvider = process.env.LLM_PROVIDER || 'openai';
+  const provider = process.env.MODERATION_PROVIDER || (llmProvider === 'openai' ? 'openai' : 'rules');
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return new OpenAIModerationClassifier({ apiKey });
+    }
+
+    case 'rules':
+      return new RuleBasedModerationClassifier();
+
+    default:
+      throw new Error(`Unknown moderation provider: ${provider}`);
+  }
+}
@@ -0,0 +1,305 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { RuleBasedModerationClassifier, createModerationClassifier } from './ModerationClassifier.js';
+import { resendService } from './ResendService.js';
+import { parseJsonEnv } from '../utils/env.js';
+import { ContentBlockedError } from '../utils/errors.js';
+import { loggingService } from '../utils/logging.js';
+import {
+  ConversationAnalysis,
+  Message,
+  ModerationAction,
+  ModerationAlert,
+  ModerationCategory,
+  ModerationClassifier,
+  ModerationContext,
+  ModerationFlag,
+  ModerationInput,
+  ModerationOutcome,
+  ModerationPolicy
+} from '../types/index.js';
+
+export const MODERATION_CATEGORIES: ModerationCategory[] = ['sexual', 'self_harm', 'violence', 'harassment', 'hate'];
+
+const MODERATION_ACTIONS: ModerationAction[] = ['log', 'alert', 'block'];
+
+/**
+ * Action per category; MODERATION_POLICY (JSON, same shape) overrides categories
+ * Self-harm is never blocked by default: a learner in distress should reach a teacher, not an error
+ */
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  sexual: 'block',
+  self_harm: 'alert',
+  violence: 'alert',
+  harassment: 'alert',
+  hate: 'block'
+};
+
+const ModerationActionSchema = z.enum(MODERATION_ACTIONS as [ModerationAction, ...ModerationAction[]]).optional();
+
+const ModerationPolicySchema = z.object(
+  Object.fromEntries(MODERATION_CATEGORIES.map(category => [category, ModerationActionSchema]))
+).strict().transform((overrides): ModerationPolicy => ({ ...DEFAULT_MODERATION_POLICY, ...overrides }));
+
+export const ModerationAlertsQuerySchema = z.object({
+  status: z.enum(['open', 'resolved']).optional(),
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export type ModerationAlertsQuery = z.infer<typeof ModerationAlertsQuerySchema>;
+
+/**
+ * Screens learner messages and model output in the analysis and conversation paths
+ * Flagged content is logged to unified_logs; depending on the policy it also raises an alert for
+ * the learner's teachers in moderation_alerts, or blocks the request
+ */
+export class ModerationService {
+  private supabase: any;
+  private classifier: ModerationClassifier | null = null;
+  private fallback = new RuleBasedModerationClassifier();
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Moderate a conversation: learner turns as user messages, tutor turns as model output
+   */
+  async moderateConversation(messages: Message[], context: ModerationContext): Promise<ModerationOutcome> {
+    const inputs: ModerationInput[] = [];
+    messages.forEach((message, messageIndex) => {
+      if (message.role !== 'system') {
+        inputs.push({
+          source: message.role === 'user' ? 'user_message' : 'model_output',
+          text: message.content,
+          messageIndex
+        });
+      }
+    });
+
+    return this.moderate(inputs, context);
+  }
+
+  /**
+   * Moderate generated content before it is returned or stored
+   * Every string in the content is screened, together as one model output
+   */
+  async moderateOutput(output: unknown, context: ModerationContext): Promise<ModerationOutcome> {
+    return this.moderate([{ source: 'model_output', text: collectTexts(output).join('\n') }], context);
+  }
+
+  /**
+   * Moderate the text of an analysis, leaving out its scores and prompt metadata
+   */
+  async moderateAnalysis(analysis: ConversationAnalysis, context: ModerationContext): Promise<ModerationOutcome> {
+    const { summary, keyTopics, userInsights, learningProgress, wordOutcomes } = analysis;
+    return this.moderateOutput({ summary, keyTopics, userInsights, learningProgress, wordOutcomes }, context);
+  }
+
+  /**
+   * Classify texts and act on what is flagged
+   * Throws ContentBlockedError, after logging and alerting, when the policy blocks a flagged category
+   */
+  async moderate(inputs: ModerationInput[], context: ModerationContext): Promise<ModerationOutcome> {
+    const texts = inputs.filter(input => input.text?.trim());
+    const { classifier, results } = await this.classify(texts.map(input => input.text));
+
+    const flags: ModerationFlag[] = [];
+    results.forEach((result, index) => {
+      if (result.flagged) {
+        flags.push({
+          source: texts[index].source,
+          ...(texts[index].messageIndex !== undefined && { messageIndex: texts[index].messageIndex }),
+          categories: result.categories
+        });
+      }
+    });
+
+    if (flags.length === 0) {
+      return { flagged: false, classifier, flags };
+    }
+
+    const policy = getModerationPolicy();
+    const categories = [...new Set(flags.flatMap(flag => flag.categories))];
+    const action = categories
+      .map(category => policy[category])
+      .reduce((severest, next) => MODERATION_ACTIONS.indexOf(next) > MODERATION_ACTIONS.indexOf(severest) ? next : severest, 'log');
+    const outcome: ModerationOutcome = { flagged: true, action, classifier, flags };
+
+    console.warn(`🚩 Moderation flagged ${categories.join(', ')} in ${context.path} for user ${context.userId} (${action})`);
+
+    await loggingService.logConversationEvent({
+      userId: context.userId,
+      conversationId: context.conversationId,
+      logType: 'moderation',
+      serviceName: 'moderation',
+      eventData: { path: context.path, action, categories, flags, classifier },
+      metadata: {}
+    });
+
+    if (action !== 'log') {
+      await this.createAlert(context, outcome, categories);
+    }
+
+    if (action === 'block') {
+      throw new ContentBlockedError(
+        `Content blocked by moderation: ${categories.filter(category => policy[category] === 'block').join(', ')}`,
+        categories
+      );
+    }
+
+    return outcome;
+  }
+
+  /**
+   * List moderation alerts, newest first
+   */
+  async listAlerts(query: ModerationAlertsQuery): Promise<ModerationAlert[]> {
+    let request = this.supabase
+      .from('moderation_alerts')
+      .select('*');
+
+    if (query.status) {
+      request = request.eq('status', query.status);
+    }
+    if (query.userId) {
+      request = request.eq('user_id', query.userId);
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch moderation alerts: ${error.message}`);
+    }
+
+    return (data || []).map(toModerationAlert);
+  }
+
+  /**
+   * Classify with the configured classifier, falling back to the local rules when it fails or
+   * cannot be created, so that an outage or a misconfiguration never lets content through unscreened
+   */
+  private async classify(texts: string[]) {
+    if (texts.length === 0) {
+      return { classifier: this.fallback.name, results: [] };
+    }
+
+    try {
+      const classifier = this.getClassifier();
+      return { classifier: classifier.name, results: await classifier.classify(texts) };
+    } catch (error) {
+      console.warn('⚠️ Moderation classifier failed, using local rules:', error);
+      return { classifier: this.fallback.name, results: await this.fallback.classify(texts) };
+    }
+  }
+
+  /**
+   * Store an alert and email it to the learner's teachers
+   */
+  private async createAlert(context: ModerationContext, outcome: ModerationOutcome, categories: ModerationCategory[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('moderation_alerts')
+      .insert({
+        user_id: context.userId,
+        conversation_id: context.conversationId ?? null,
+        path: context.path,
+        action: outcome.action,
+        categories,
+        flags: outcome.flags,
+        classifier: outcome.classifier,
+        status: 'open'
+      });
+
+    if (error) {
+      throw new Error(`Failed to create moderation alert: ${error.message}`);
+    }
+
+    await this.notifyTeachers(context, outcome.action as 'alert' | 'block', categories);
+  }
+
+  /**
+   * Email the teachers linked to the learner in teacher_students
+   * The alert is stored already, so a failed email is logged rather than failing the request
+   */
+  private async notifyTeachers(context: ModerationContext, action: 'alert' | 'block', categories: ModerationCategory[]): Promise<void> {
+    const { data: teachers, error } = await this.supabase
+      .from('teacher_students')
+      .select('teacher_email, student_name')
+      .eq('student_id', context.userId);
+
+    if (error) {
+      console.error('❌ Failed to fetch teachers for moderation alert:', error);
+      return;
+    }
+
+    for (const teacher of teachers || []) {
+      await resendService.sendModerationAlert(teacher.teacher_email, {
+        studentName: teacher.student_name,
+        categories,
+        action
+      }).catch(error => console.error('❌ Failed to email moderation alert to teacher:', error));
+    }
+  }
+
+  /**
+   * Get the classifier, created on first use so that importing the service needs no credentials
+   */
+  private getClassifier(): ModerationClassifier {
+    if (!this.classifier) {
+      this.classifier = createModerationClassifier();
+    }
+    return this.classifier;
+  }
+}
+
+/**
+ * Get the moderation policy, with MODERATION_POLICY applied over the defaults
+ */
+export function getModerationPolicy(): ModerationPolicy {
+  return parseJsonEnv('MODERATION_POLICY', ModerationPolicySchema, DEFAULT_MODERATION_POLICY);
+}
+
+/**
+ * Collect the strings of a value, however deeply they are nested
+ */
+function collectTexts(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectTexts);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectTexts);
+  }
+  return [];
+}
+
+function toModerationAlert(row: any): ModerationAlert {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    conversationId: row.conversation_id ?? undefined,
+    path: row.path,
+    action: row.action,
+    categories: row.categories,
+    flags: row.flags,
+    classifier: row.classifier,
+    status: row.status,
+    createdAt: row.created_at
+  };
+}
+
+// Export singleton instance
+export const moderationService = new ModerationService();
+export default moderationService;
@@ -1,5 +1,4 @@
-// @ts-ignore - openai types not available
-import OpenAI from 'openai';
+import { z, ZodType } from 'zod';
 import { createClient } from '@supabase/supabase-js';
 import { cacheService } from '../utils/cache.js';
 import { loggingService } from '../utils/logging.js';
@@ -9,126 +8,1334 @@ import {
   StudyTopic, 
   VocabularyContext, 
   ConversationAnalysis,
+  ConversationType,
+  PromptType,
+  AnalysisOptions,
+  AnalysisStreamEvent,
   AnalysisPrompt,
-  PromptContext
+  ModelConfig,
+  LLMMessage,
+  LLMProvider,
+  LLMTask,
+  StudyPlanWeek,
+  ExerciseType,
+  ExerciseWithAnswer,
+  WordOutcome,
+  ConversationCorrections,
+  CorrectionSpan,
+  MessageCorrection,
+  TokenBudget,
+  PromptContext,
+  LLMUsage,
+  UsageMetrics,
+  PiiCategory,
+  PlaceholderMap,
+  RedactedMessages
 } from '../types/index.js';
-import { ExternalAPIError } from '../utils/errors.js';
+import { ExternalAPIError, NotFoundError, TemplateError } from '../utils/errors.js';
+import { renderTemplate } from '../utils/template.js';
+import { getLocaleFallbacks, normalizeLocale } from '../utils/locale.js';
+import { getRedactionPolicy, redactMessages, redactText, restorePartialText, restorePlaceholders } from '../utils/redaction.js';
+import { getDeclaredVariables, validatePromptTemplate } from './PromptService.js';
+import { createLLMProvider } from './LLMProvider.js';
+import { learnerProfileService, NO_LEARNER_HISTORY } from './LearnerProfileService.js';
+import { quotaService } from './QuotaService.js';
+import {
+  chunkMessages,
+  estimateConversationTokens,
+  estimateMessageTokens,
+  formatConversation,
+  truncateMessages
+} from '../utils/tokens.js';
+
+// Signals used to classify conversations that are not vocabulary practice, one per cue with its
+// wording in the product's languages (English, Spanish, French, German, Italian, Portuguese),
+// matched on lowercased text without accents
+const STUDY_PLAN_SIGNALS = [
+  /study plan|learning plan|plan de estudios?|plan d'etudes?|lernplan|piano di studio|plano de estudos?/,
+  /\b(schedule|horario|emploi du temps|zeitplan|cronograma)\b/,
+  /\b(goals?|metas?|objetivos?|objectifs?|ziele?|obiettivi?)\b/,
+  /\b(weekly|per week|semanal(es)?|por semana|par semaine|hebdomadaire|pro woche|wochentlich|settimanale|a settimana)\b/,
+  /\b(roadmap|curriculum|lehrplan)\b/,
+  /what should i (learn|study)|que (deberia|debo) (aprender|estudiar)|que (dois|devrais)-je (apprendre|etudier)|was soll(te)? ich lernen|cosa dovrei (imparare|studiare)|o que devo (aprender|estudar)/,
+  /how (long|often) should i|cuanto tiempo (deberia|debo)|combien de temps (dois|devrais)-je|wie (lange|oft) soll(te)? ich|quanto tempo (dovrei|devo)/,
+  /\b(exam|examen|prufung|esame|exame)\b/,
+  /\b(deadline|fecha limite|date limite|frist|scadenza|prazo)\b/,
+  /next (week|month)|proxim[ao] (semana|mes)|(semaine|mois) prochain|nachste[nr]? (woche|monat)|prossim[ao] (settimana|mese)/
+];
+
+const PRACTICE_SIGNALS = [
+  /\b(practi[cs]e|practi(ca|car|quemos)|pratiqu(er|ons)|uben|praticare|praticar|pratiquemos)\b/,
+  /\b(exercises?|ejercicios?|exercices?|ubung(en)?|esercizi[oi]?|exercicios?)\b/,
+  /\bdrill\b/,
+  /role[- ]?play|juego de rol|jeu de role|rollenspiel|gioco di ruolo|jogo de papeis/,
+  /repeat after me|repite (conmigo|despues de mi)|repete apres moi|sprich mir nach|ripeti dopo di me|repita comigo/,
+  /\b(translate|traduc(e|ir)|tradu(is|ire)|ubersetze(n)?|tradu(ci|rre)|tradu(za|zir))\b/,
+  /conjugat|conjuga|conjugu|konjugier/,
+  /fill in the blank|rellena (el|los) (hueco|espacio)s?|complete[rz]? (la|les) phrases?|luckentext|completa gli spazi|complete os espacos/,
+  /\b(correct(ion)?|correccion|corrige|corriger|korrektur|korrigiere|correzione|correggi|correcao|corrija)\b/,
+  /\b(quiz|cuestionario|questionnaire)\b/,
+  /try again|intentalo (de nuevo|otra vez)|essaie encore|versuch es noch( ?mal| einmal)|riprova|tente (de )?novo/,
+  /let'?s pretend|imaginemos|imaginons|stell dir vor|immaginiamo|vamos fingir/,
+  /\b(scenario|escenario|mise en situation|szenario|cenario)\b/
+];
+
+// Minimum number of signals before a conversation stops being 'general'
+const CONVERSATION_TYPE_THRESHOLD = 2;
+
+// Weight a study topic adds to the practice score, short of the threshold on its own
+const STUDY_TOPIC_PRACTICE_WEIGHT = 1;
+
+// System prompts for the analysis requests
+const CONVERSATION_SYSTEM_PROMPT = 'You are an expert language learning analyst. Analyze conversations and provide structured insights for personalized learning. Always respond with valid JSON.';
+const VOCABULARY_SYSTEM_PROMPT = 'You are an expert language learning analyst. Analyze vocabulary practice conversations and provide structured insights. Always respond with valid JSON.';
+
+// System prompt for merging chunk analyses in map-reduce mode
+const MERGE_SYSTEM_PROMPT = 'You are an expert language learning analyst. You merge analyses of consecutive segments of one conversation into a single analysis. Always respond with valid JSON.';
+
+const CORRECTION_SYSTEM_PROMPT = 'You are an expert language teacher. Correct learner messages precisely and explain each mistake briefly. Always respond with valid JSON.';
+
+const WORD_OUTCOME_SYSTEM_PROMPT = 'You are an expert language teacher. You judge whether a learner used target vocabulary correctly. Always respond with valid JSON.';
+
+const STUDY_PLAN_SYSTEM_PROMPT = 'You are an expert language curriculum designer. You build progressive, achievable study plans around conversation practice. Always respond with valid JSON.';
+
+const EXERCISE_SYSTEM_PROMPT = 'You are an expert language teacher. You write short, unambiguous exercises that each have one clearly correct answer. Always respond with valid JSON.';
+
+// Model defaults, overridable with environment variables and per prompt
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 2000;
+
+// Token budget defaults, overridable with environment variables and per request
+const DEFAULT_MAX_INPUT_TOKENS = 12000;
+const DEFAULT_CHUNK_TOKENS = 6000;
+const DEFAULT_MAX_CHUNKS = 8;
+
+// Repair requests sent when the model output fails schema validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Schema for analysis output returned by the model
+ * conversationType is optional because the service sets the resolved type itself
+ */
+export const ConversationAnalysisSchema = z.object({
+  summary: z.string().min(1),
+  keyTopics: z.array(z.string()),
+  userInsights: z.object({
+    languageLevel: z.string(),
+    commonMistakes: z.array(z.string()),
+    interests: z.array(z.string()),
+    learningStyle: z.string(),
+    strengths: z.array(z.string()),
+    areasForImprovement: z.array(z.string())
+  }),
+  conversationType: z.enum(['study_plan', 'general', 'practice', 'vocabulary_practice']).optional(),
+  learningProgress: z.object({
+    vocabularyProgress: z.string(),
+    grammarProgress: z.string(),
+    fluencyProgress: z.string()
+  }),
+  proficiency: z.object({
+    cefrLevel: z.enum(['A1', 'A2', 'B1', 'B2', 'C1', 'C2']),
+    vocabulary: z.number().min(0).max(100),
+    grammar: z.number().min(0).max(100),
+    fluency: z.number().min(0).max(100),
+    confidence: z.number().min(0).max(1)
+  })
+});
+
+type AnalysisOutput = z.infer<typeof ConversationAnalysisSchema>;
+
+const MessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  created_at: z.string().optional()
+});
+
+export const UserProfileSchema = z.object({
+  native_language: z.string().optional(),
+  practice_languages: z.array(z.string()).optional(),
+  level: z.string().optional(),
+  learning_goals: z.string().optional(),
+  first_name: z.string().optional(),
+  interface_language: z.string().optional()
+});
+
+const StudyTopicSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional()
+});
+
+const VocabularyContextSchema = z.object({
+  word_list_title: z.string(),
+  word_list_topic: z.string(),
+  word_list_words: z.array(z.object({
+    word: z.string(),
+    translation: z.string().optional()
+  }))
+});
+
+/**
+ * Schema for grammar corrections returned by the model
+ * Mistakes are quoted rather than located, spans are computed from the original text
+ */
+export const CorrectionOutputSchema = z.object({
+  corrections: z.array(z.object({
+    index: z.number().int().min(0),
+    corrected: z.string(),
+    errors: z.array(z.object({
+      text: z.string().min(1),
+      correction: z.string(),
+      category: z.enum(['tense', 'agreement', 'word_order', 'lexical']),
+      explanation: z.string().min(1)
+    }))
+  }))
+});
+
+type CorrectionOutput = z.infer<typeof CorrectionOutputSchema>;
+
+/**
+ * Schema for per-word vocabulary outcomes returned by the model
+ */
+const WordOutcomeOutputSchema = z.object({
+  outcomes: z.array(z.object({
+    word: z.string().min(1),
+    outcome: z.enum(['correct', 'incorrect', 'not_used']),
+    note: z.string().optional()
+  }))
+});
+
+/**
+ * Schema for study plans returned by the model
+ */
+const StudyPlanOutputSchema = z.object({
+  title: z.string().min(1),
+  weeks: z.array(z.object({
+    focus: z.string().min(1),
+    topics: z.array(z.object({
+      title: z.string().min(1),
+      description: z.string().min(1),
+      objectives: z.array(z.string().min(1)).min(1)
+    })).min(1)
+  })).min(1)
+});
+
+/**
+ * Schema for exercises returned by the model
+ * Multiple choice answers must be one of the options so that grading can compare strings
+ */
+const ExerciseOutputSchema = z.object({
+  exercises: z.array(z.object({
+    type: z.enum(['fill_in_blank', 'multiple_choice', 'sentence_transformation']),
+    instructions: z.string().min(1),
+    prompt: z.string().min(1),
+    options: z.array(z.string().min(1)).optional(),
+    answer: z.string().min(1),
+    acceptableAnswers: z.array(z.string().min(1)).optional(),
+    explanation: z.string().min(1),
+    focus: z.string().min(1)
+  }).superRefine((exercise, ctx) => {
+    if (exercise.type === 'multiple_choice' && !((exercise.options?.length ?? 0) >= 2 && exercise.options!.includes(exercise.answer))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Multiple choice exercises need at least two options, one of them the answer', path: ['options'] });
+    }
+    if (exercise.type === 'fill_in_blank' && !exercise.prompt.includes('___')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Fill-in-the-blank prompts must mark the gap with ___', path: ['prompt'] });
+    }
+  })).min(1)
+});
+
+/**
+ * Request schema for the corrections endpoint
+ */
+export const CorrectionRequestSchema = z.object({
+  messages: z.array(MessageSchema).min(1).refine(
+    messages => messages.some(message => message.role === 'user'),
+    'At least one user message is required'
+  ),
+  userProfile: UserProfileSchema
+});
+
+/**
+ * Request schema for the analysis endpoints
+ */
+export const ConversationAnalysisRequestSchema = z.object({
+  messages: z.array(MessageSchema).min(1),
+  userProfile: UserProfileSchema,
+  studyTopic: StudyTopicSchema.optional(),
+  vocabularyContext: VocabularyContextSchema.optional(),
+  conversationType: z.enum(['study_plan', 'general', 'practice', 'vocabulary_practice']).optional(),
+  conversationId: z.string().min(1).max(200).optional(),
+  tokenBudget: z.object({
+    maxInputTokens: z.number().int().min(500).max(100000).optional(),
+    chunkTokens: z.number().int().min(500).max(100000).optional(),
+    maxChunks: z.number().int().min(1).max(20).optional(),
+    mode: z.enum(['auto', 'single', 'map_reduce']).optional()
+  }).optional()
+}).refine(
+  request => request.conversationType !== 'vocabulary_practice' || !!request.vocabularyContext,
+  { message: 'vocabularyContext is required for vocabulary_practice', path: ['vocabularyContext'] }
+);
+
+// Shape reminder included in repair requests
+const ANALYSIS_JSON_SHAPE = `{
+  "summary": string,
+  "keyTopics": string[],
+  "userInsights": {
+    "languageLevel": string,
+    "commonMistakes": string[],
+    "interests": string[],
+    "learningStyle": string,
+    "strengths": string[],
+    "areasForImprovement": string[]
+  },
+  "learningProgress": {
+    "vocabularyProgress": string,
+    "grammarProgress": string,
+    "fluencyProgress": string
+  },
+  "proficiency": {
+    "cefrLevel": "A1" | "A2" | "B1" | "B2" | "C1" | "C2",
+    "vocabulary": number,
+    "grammar": number,
+    "fluency": number,
+    "confidence": number
+  }
+}`;
+
+// Appended to analysis prompts, so stored templates don't each have to ask for the estimate
+const PROFICIENCY_INSTRUCTIONS = `
+
+Also include a "proficiency" object estimating the learner's level from their own messages:
+- "cefrLevel": the CEFR band (A1, A2, B1, B2, C1 or C2)
+- "vocabulary", "grammar" and "fluency": scores from 0 to 100
+- "confidence": from 0 to 1, lower when the learner wrote little`;
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Shape reminder included in correction prompts and repair requests
+const CORRECTION_JSON_SHAPE = `{
+  "corrections": [
+    {
+      "index": number,
+      "corrected": string,
+      "errors": [
+        {
+          "text": string,
+          "correction": string,
+          "category": "tense" | "agreement" | "word_order" | "lexical",
+          "explanation": string
+        }
+      ]
+    }
+  ]
+}`;
+
+// Shape reminder included in word outcome prompts and repair requests
+const WORD_OUTCOME_JSON_SHAPE = `{
+  "outcomes": [
+    {
+      "word": string,
+      "outcome": "correct" | "incorrect" | "not_used",
+      "note": string
+    }
+  ]
+}`;
+
+// Shape reminder included in study plan prompts and repair requests
+const STUDY_PLAN_JSON_SHAPE = `{
+  "title": string,
+  "weeks": [
+    {
+      "focus": string,
+      "topics": [
+        {
+          "title": string,
+          "description": string,
+          "objectives": string[]
+        }
+      ]
+    }
+  ]
+}`;
+
+// Shape reminder included in exercise prompts and repair requests
+const EXERCISE_JSON_SHAPE = `{
+  "exercises": [
+    {
+      "type": "fill_in_blank" | "multiple_choice" | "sentence_transformation",
+      "instructions": string,
+      "prompt": string,
+      "options": string[] (multiple_choice only),
+      "answer": string,
+      "acceptableAnswers": string[] (optional),
+      "explanation": string,
+      "focus": string
+    }
+  ]
+}`;
+
+/**
+ * Built-in exercise prompt, used until an 'exercises' prompt is stored in analysis_prompts
+ */
+const DEFAULT_EXERCISE_PROMPT: AnalysisPrompt = {
+  id: 'default-exercises',
+  prompt_name: 'Default exercises',
+  prompt_version: '0',
+  conversation_type: 'exercises',
+  language_code: 'en',
+  prompt_template: `Create practice exercises in {{practice_languages}} for a language learner.
+
+LEARNER PROFILE:
+- Native language: {{native_language}}
+- Level: {{level}}
+- Learning goals: {{learning_goals}}
+
+RECURRING MISTAKES:
+{{#if common_mistakes}}{{#each common_mistakes}}- {{this}}
+{{/each}}{{else}}None recorded
+{{/if}}
+AREAS FOR IMPROVEMENT:
+{{#if areas_for_improvement}}{{#each areas_for_improvement}}- {{this}}
+{{/each}}{{else}}None recorded
+{{/if}}
+Write {{exercise_count}} exercises of these types: {{exercise_types}}. Give each exercise one recurring mistake or area for improvement as its focus, covering as many of them as possible; when none are recorded, target typical difficulties at the learner's level. Write instructions and explanations in the language with code "{{interface_language}}".`,
+  variables: [
+    'practice_languages', 'native_language', 'level', 'learning_goals', 'interface_language',
+    'common_mistakes', 'areas_for_improvement', 'exercise_count', 'exercise_types'
+  ],
+  description: 'Exercises targeting the learner\'s recurring mistakes',
+  is_active: true
+};
+
+const STUB_CONVERSATION_TEMPLATE = `Analyze this conversation of a learner practicing {{practice_languages}}.
+
+LEARNER PROFILE:
+- Native language: {{native_language}}
+- Level: {{level}}
+- Learning goals: {{learning_goals}}
+{{#if study_topic}}
+STUDY TOPIC: {{study_topic.title}}
+{{/if}}
+CONVERSATION:
+{{conversation_text}}`;
+
+const STUB_CONVERSATION_VARIABLES = ['practice_languages', 'native_language', 'level', 'learning_goals', 'study_topic', 'conversation_text'];
+
+/**
+ * Built-in analysis prompts for the stub provider, used when no prompt is stored so that the
+ * offline pipeline runs without a seeded analysis_prompts table
+ */
+const STUB_ANALYSIS_PROMPTS: Record<ConversationType, AnalysisPrompt> = {
+  study_plan: stubPrompt('study_plan', STUB_CONVERSATION_TEMPLATE, STUB_CONVERSATION_VARIABLES),
+  general: stubPrompt('general', STUB_CONVERSATION_TEMPLATE, STUB_CONVERSATION_VARIABLES),
+  practice: stubPrompt('practice', STUB_CONVERSATION_TEMPLATE, STUB_CONVERSATION_VARIABLES),
+  vocabulary_practice: stubPrompt(
+    'vocabulary_practice',
+    `Analyze how a learner of {{practice_languages}} used the words of the list "{{word_list_title}}" ({{word_list_topic}}): {{vocabulary_words}}
+
+CONVERSATION:
+{{conversation_text}}`,
+    ['practice_languages', 'word_list_title', 'word_list_topic', 'vocabulary_words', 'conversation_text']
+  )
+};
+
+function stubPrompt(conversationType: ConversationType, template: string, variables: string[]): AnalysisPrompt {
+  return {
+    id: `stub-${conversationType}`,
+    prompt_name: `Stub ${conversationType} analysis`,
+    prompt_version: '0',
+    conversation_type: conversationType,
+    language_code: 'en',
+    prompt_template: template,
+    variables,
+    is_active: true
+  };
+}
+
+/**
+ * Add a completion's token usage to the running usage of an operation
+ */
+function addUsage(usage: UsageMetrics, model: string, completionUsage?: LLMUsage): void {
+  usage.model = model;
+  usage.promptTokens = (usage.promptTokens || 0) + (completionUsage?.promptTokens || 0);
+  usage.completionTokens = (usage.completionTokens || 0) + (completionUsage?.completionTokens || 0);
+}
+
+/**
+ * Map a string to a stable number in [0, 1) using 32-bit FNV-1a
+ */
+function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Extract the (possibly incomplete) summary string from partial JSON output
+ */
+function extractPartialSummary(partialJson: string): string {
+  const match = /"summary"\s*:\s*"/.exec(partialJson);
+  if (!match) {
+    return '';
+  }
+
+  let summary = '';
+  let index = match.index + match[0].length;
+
+  while (index < partialJson.length) {
+    const char = partialJson[index];
+
+    if (char === '"') {
+      break;
+    }
+
+    if (char !== '\\') {
+      summary += char;
+      index++;
+      continue;
+    }
+
+    // Wait for the rest of an escape sequence before decoding it
+    const next = partialJson[index + 1];
+    if (next === undefined) {
+      break;
+    }
+
+    if (next === 'u') {
+      const code = partialJson.slice(index + 2, index + 6);
+      if (code.length < 4) {
+        break;
+      }
+      summary += String.fromCharCode(parseInt(code, 16));
+      index += 6;
+    } else {
+      summary += JSON_ESCAPES[next] ?? next;
+      index += 2;
+    }
+  }
+
+  return summary;
+}
 
 /**
  * OpenAI Service for conversation analysis
  * Ported from supabase/functions/analyze-conversation-v2/index.ts
  */
 export class OpenAIService {
-  private openai: OpenAI;
+  private provider: LLMProvider | null = null;
   private supabase: any;
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Analyze conversation using OpenAI
+   */
+  async analyzeConversation(
+    messages: Message[],
+    userProfile: UserProfile,
+    studyTopic?: StudyTopic,
+    options: AnalysisOptions = {}
+  ): Promise<ConversationAnalysis> {
+    const startTime = Date.now();
+
+    // Determine conversation type, unless the caller chose one
+    let conversationType = options.conversationType || this.detectConversationType(messages, studyTopic);
+    const usage: UsageMetrics = {};
+    
+    await quotaService.assertWithinQuota(options.userId, 'tokens');
+
+    try {
+      console.log('🔍 OpenAI Service: Analyzing conversation', { conversationType });
+
+      // Pick the prompt and learner history first, variants and users must not share cached analyses
+      const prompt = await this.getAnalysisPrompt(conversationType, !options.conversationType, userProfile, options.userId);
+      conversationType = prompt.conversation_type as ConversationType;
+      const learnerHistory = await this.getLearnerHistory(prompt, options.userId);
+
+      // Generate cache key
+      const cacheKey = cacheService.generateOpenAIKey(messages, userProfile, studyTopic, undefined, {
+        conversationType,
+        tokenBudget: options.tokenBudget,
+        promptId: prompt.id,
+        learnerHistory
+      }, cacheService.generateAnalysisScope(prompt.conversation_type, prompt.language_code));
+      
+      // Check cache first
+      const cached = cacheService.get<ConversationAnalysis>(cacheKey);
+      if (cached) {
+        console.log('✅ OpenAI Service: Using cached analysis');
+        await loggingService.logCacheOperation('hit', cacheKey, 'openai');
+        return { ...cached, cached: true };
+      }
+
+      await loggingService.logCacheOperation('miss', cacheKey, 'openai');
+
+      const modelConfig = this.resolveModelConfig(prompt, CONVERSATION_SYSTEM_PROMPT);
+      const redacted = this.redactConversation(messages, userProfile, learnerHistory);
+
+      // Call OpenAI API within the token budget, with schema validation and a bounded repair request
+      const { analysis: output, repairAttempts, chunkCount, estimatedTokens } = await this.analyzeWithinBudget(
+        modelConfig,
+        redacted.messages,
+        redacted.userProfile,
+        (subset, segment) => this.buildConversationPrompt(prompt, subset, redacted.userProfile, studyTopic, redacted.learnerHistory, segment),
+        usage,
+        options.tokenBudget
+      );
+
+      const duration = Date.now() - startTime;
+
+      // Keep the conversation type that selected the prompt
+      const analysis: ConversationAnalysis = {
+        ...restorePlaceholders(output, redacted.placeholders),
+        conversationType,
+        promptId: prompt.id,
+        promptVersion: prompt.prompt_version,
+        promptLocale: prompt.language_code,
+        degraded: false
+      };
+
+      // Cache the successful response
+      cacheService.set(cacheKey, analysis, 'openai');
+
+      // Log the API call
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId: options.userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 200,
+        duration,
+        requestBody: {
+          provider: this.getProvider().name,
+          model: modelConfig.model,
+          messageCount: messages.length,
+          hasStudyTopic: !!studyTopic,
+          conversationType,
+          promptId: prompt.id,
+          promptVersion: prompt.prompt_version,
+          promptLocale: prompt.language_code,
+          repairAttempts,
+          estimatedTokens,
+          chunkCount
+        },
+        responseBody: { analysis: 'success' }
+      });
+
+      console.log('✅ OpenAI Service: Analysis completed successfully');
+      return analysis;
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId: options.userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 500,
+        duration,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      console.error('❌ OpenAI Service: Analysis failed:', error);
+      
+      // Return fallback analysis
+      return this.getFallbackAnalysis(conversationType);
+    }
+  }
+
+  /**
+   * Stream conversation analysis
+   * Yields summary deltas while the model writes, then the validated analysis as the terminal event
+   */
+  async *streamConversationAnalysis(
+    messages: Message[],
+    userProfile: UserProfile,
+    studyTopic?: StudyTopic,
+    options: AnalysisOptions = {}
+  ): AsyncGenerator<AnalysisStreamEvent> {
+    const startTime = Date.now();
+
+    // Determine conversation type, unless the caller chose one
+    let conversationType = options.conversationType || this.detectConversationType(messages, studyTopic);
+    const usage: UsageMetrics = {};
+
+    await quotaService.assertWithinQuota(options.userId, 'tokens');
+
+    try {
+      console.log('🔍 OpenAI Service: Streaming conversation analysis', { conversationType });
+
+      const prompt = await this.getAnalysisPrompt(conversationType, !options.conversationType, userProfile, options.userId);
+      conversationType = prompt.conversation_type as ConversationType;
+      const learnerHistory = await this.getLearnerHistory(prompt, options.userId);
+
+      // Cached analyses are replayed as a single summary delta
+      const cacheKey = cacheService.generateOpenAIKey(messages, userProfile, studyTopic, undefined, {
+        conversationType,
+        tokenBudget: options.tokenBudget,
+        promptId: prompt.id,
+        learnerHistory
+      }, cacheService.generateAnalysisScope(prompt.conversation_type, prompt.language_code));
+      const cached = cacheService.get<ConversationAnalysis>(cacheKey);
+      if (cached) {
+        console.log('✅ OpenAI Service: Using cached analysis');
+        await loggingService.logCacheOperation('hit', cacheKey, 'openai');
+        yield { type: 'summary', delta: cached.summary };
+        yield { type: 'analysis', analysis: { ...cached, cached: true } };
+        return;
+      }
+
+      await loggingService.logCacheOperation('miss', cacheKey, 'openai');
+
+      const modelConfig = this.resolveModelConfig(prompt, CONVERSATION_SYSTEM_PROMPT);
+      const redacted = this.redactConversation(messages, userProfile, learnerHistory);
+      const plan = this.planTokenBudget(redacted.messages, options.tokenBudget);
+
+      // Map-reduce analyses can't be streamed, the merged summary is emitted in one piece
+      if (plan.strategy === 'map_reduce') {
+        const { analysis: output, chunkCount } = await this.analyzeWithinBudget(
+          modelConfig,
+          redacted.messages,
+          redacted.userProfile,
+          (subset, segment) => this.buildConversationPrompt(prompt, subset, redacted.userProfile, studyTopic, redacted.learnerHistory, segment),
+          usage,
+          options.tokenBudget
+        );
+
+        const analysis: ConversationAnalysis = {
+          ...restorePlaceholders(output, redacted.placeholders),
+          conversationType,
+          promptId: prompt.id,
+          promptVersion: prompt.prompt_version,
+          promptLocale: prompt.language_code,
+          degraded: false
+        };
+        cacheService.set(cacheKey, analysis, 'openai');
+
+        await loggingService.logApiCall({
+          sessionId: loggingService.getSessionId(),
+          serviceName: this.getServiceName(),
+          userId: options.userId,
+          usage,
+          endpoint: this.getEndpoint(),
+          method: 'POST',
+          responseStatus: 200,
+          duration: Date.now() - startTime,
+          requestBody: {
+            provider: this.getProvider().name,
+            model: modelConfig.model,
+            messageCount: messages.length,
+            hasStudyTopic: !!studyTopic,
+            conversationType,
+            promptId: prompt.id,
+            promptVersion: prompt.prompt_version,
+            promptLocale: prompt.language_code,
+            estimatedTokens: plan.estimatedTokens,
+            chunkCount,
+            stream: true
+          },
+          responseBody: { analysis: 'success' }
+        });
+
+        yield { type: 'summary', delta: analysis.summary };
+        yield { type: 'analysis', analysis };
+        return;
+      }
+
+      const generatedPrompt = this.buildConversationPrompt(prompt, plan.messages, redacted.userProfile, studyTopic, redacted.learnerHistory);
+
+      const stream = this.getProvider().stream({
+        task: 'analysis',
+        model: modelConfig.model,
+        messages: [
+          { role: 'system', content: modelConfig.systemPrompt },
+          { role: 'user', content: generatedPrompt }
+        ],
+        temperature: modelConfig.temperature,
+        maxTokens: modelConfig.maxTokens,
+        jsonMode: true
+      }, streamUsage => addUsage(usage, modelConfig.model, streamUsage));
+
+      let analysisText = '';
+      let streamedSummary = '';
+
+      for await (const delta of stream) {
+        analysisText += delta;
+
+        // Deltas carry restored text, a placeholder cut off by the chunk waits for the next one
+        const summary = restorePartialText(extractPartialSummary(analysisText), redacted.placeholders);
+        if (summary.length > streamedSummary.length) {
+          yield { type: 'summary', delta: summary.slice(streamedSummary.length) };
+          streamedSummary = summary;
+        }
+      }
+
+      // Validate the streamed output, repairing it with a regular request if needed
+      const result = this.parseStructuredResponse(ConversationAnalysisSchema, analysisText);
+      const { analysis: output, repairAttempts } = result.success
+        ? { analysis: result.output, repairAttempts: 0 }
+        : await this.requestAnalysis(modelConfig, generatedPrompt, usage, {
+          text: analysisText,
+          errors: result.errors
+        });
+
+      const duration = Date.now() - startTime;
+
+      const analysis: ConversationAnalysis = {
+        ...restorePlaceholders(output, redacted.placeholders),
+        conversationType,
+        promptId: prompt.id,
+        promptVersion: prompt.prompt_version,
+        promptLocale: prompt.language_code,
+        degraded: false
+      };
+
+      // Cache the successful response
+      cacheService.set(cacheKey, analysis, 'openai');
+
+      // Log the API call
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId: options.userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 200,
+        duration,
+        requestBody: {
+          provider: this.getProvider().name,
+          model: modelConfig.model,
+          messageCount: messages.length,
+          hasStudyTopic: !!studyTopic,
+          conversationType,
+          promptId: prompt.id,
+          promptVersion: prompt.prompt_version,
+          promptLocale: prompt.language_code,
+          repairAttempts,
+          estimatedTokens: plan.estimatedTokens,
+          chunkCount: 1,
+          stream: true
+        },
+        responseBody: { analysis: 'success' }
+      });
+
+      console.log('✅ OpenAI Service: Streaming analysis completed successfully');
+      yield { type: 'analysis', analysis };
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId: options.userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 500,
+        duration,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      console.error('❌ OpenAI Service: Streaming analysis failed:', error);
+
+      // Terminate the stream with the fallback analysis
+      yield { type: 'analysis', analysis: this.getFallbackAnalysis(conversationType) };
+    }
+  }
+
+  /**
+   * Build the analysis prompt for a conversation from the active prompt template
+   */
+  private buildConversationPrompt(
+    prompt: AnalysisPrompt,
+    messages: Message[],
+    userProfile: UserProfile,
+    studyTopic?: StudyTopic,
+    learnerHistory?: string,
+    segment?: { index: number; total: number }
+  ): string {
+    // Format conversation for analysis
+    const conversationText = this.formatConversationText(messages, segment);
+
+    // Build study topic context if available
+    const studyTopicContext = studyTopic 
+      ? `\n\nSTUDY TOPIC CONTEXT:\nThe conversation was focused on: "${studyTopic.title}"\n${studyTopic.description ? `Description: ${studyTopic.description}` : ''}`
+      : '';
+
+    // Prepare prompt context
+    const promptContext: PromptContext = {
+      native_language: userProfile?.native_language || 'Not specified',
+      practice_languages: userProfile?.practice_languages || ['Not specified'],
+      level: userProfile?.level || 'Not specified',
+      learning_goals: userProfile?.learning_goals || 'Not specified',
+      interface_language: userProfile?.interface_language || 'en',
+      first_name: userProfile?.first_name || 'User',
+      study_topic: studyTopic,
+      study_topic_context: studyTopicContext,
+      conversation_text: conversationText,
+      learner_history: learnerHistory
+    };
+
+    // Generate the final prompt from the template
+    return renderTemplate(prompt.prompt_template, { ...promptContext })
+      + this.buildResponseLanguageInstruction(prompt, userProfile)
+      + PROFICIENCY_INSTRUCTIONS;
+  }
+
+  /**
+   * Build the analysis prompt for a vocabulary practice conversation
+   */
+  private buildVocabularyPrompt(
+    prompt: AnalysisPrompt,
+    messages: Message[],
+    userProfile: UserProfile,
+    vocabularyContext: VocabularyContext,
+    learnerHistory?: string,
+    segment?: { index: number; total: number }
+  ): string {
+    // Prepare prompt context
+    const promptContext: PromptContext = {
+      native_language: userProfile?.native_language || 'Not specified',
+      practice_languages: userProfile?.practice_languages || ['Not specified'],
+      level: userProfile?.level || 'Not specified',
+      learning_goals: userProfile?.learning_goals || 'Not specified',
+      interface_language: userProfile?.interface_language || 'en',
+      first_name: userProfile?.first_name || 'User',
+      conversation_text: this.formatConversationText(messages, segment),
+      word_list_title: vocabularyContext.word_list_title,
+      word_list_topic: vocabularyContext.word_list_topic,
+      word_list_words: vocabularyContext.word_list_words,
+      vocabulary_words: vocabularyContext.word_list_words.map(w => w.word).join(', '),
+      learner_history: learnerHistory
+    };
+
+    // Generate the final prompt from the template
+    return renderTemplate(prompt.prompt_template, { ...promptContext })
+      + this.buildResponseLanguageInstruction(prompt, userProfile)
+      + PROFICIENCY_INSTRUCTIONS;
+  }
+
+  /**
+   * Get the condensed learner history, only for prompts that declare learner_history
+   * A failed lookup falls back to an empty history rather than failing the analysis
+   */
+  private async getLearnerHistory(prompt: AnalysisPrompt, userId?: string): Promise<string | undefined> {
+    if (!getDeclaredVariables(prompt).includes('learner_history')) {
+      return undefined;
+    }
+
+    if (!userId) {
+      return NO_LEARNER_HISTORY;
+    }
+
+    try {
+      return await learnerProfileService.getPromptHistory(userId);
+    } catch (error) {
+      console.warn('⚠️ OpenAI Service: Failed to load learner history:', error);
+      return NO_LEARNER_HISTORY;
+    }
+  }
+
+  /**
+   * Mask PII in a conversation before it is sent, following the openai redaction policy
+   * The profile's first name and the learner history are masked too; the placeholders restore the model's output
+   */
+  private redactConversation(
+    messages: Message[],
+    userProfile: UserProfile,
+    learnerHistory?: string
+  ): RedactedMessages & { userProfile: UserProfile; learnerHistory?: string } {
+    const categories = getRedactionPolicy().openai;
+    const firstName = userProfile?.first_name;
+    const redacted = redactMessages(messages, categories, firstName ? [firstName] : []);
+
+    return {
+      ...redacted,
+      userProfile: this.redactFirstName(userProfile, categories, redacted.placeholders),
+      learnerHistory: learnerHistory && redactText(learnerHistory, categories, redacted.placeholders, firstName ? [firstName] : [])
+    };
+  }
+
+  /**
+   * Mask PII in stored learner text sent without a conversation, such as history and recurring mistakes
+   * Analyses are stored with the original text restored, so they are masked again like conversations
+   */
+  private redactLearnerText(
+    texts: string[],
+    userProfile: UserProfile
+  ): { texts: string[]; userProfile: UserProfile; placeholders: PlaceholderMap } {
+    const categories = getRedactionPolicy().openai;
+    const firstName = userProfile?.first_name;
+    const placeholders: PlaceholderMap = {};
+
+    return {
+      texts: texts.map(text => redactText(text, categories, placeholders, firstName ? [firstName] : [])),
+      userProfile: this.redactFirstName(userProfile, categories, placeholders),
+      placeholders
+    };
+  }
+
+  /**
+   * Replace the profile's first name with its placeholder when names are redacted
+   */
+  private redactFirstName(userProfile: UserProfile, categories: PiiCategory[], placeholders: PlaceholderMap): UserProfile {
+    const firstName = userProfile?.first_name;
+    return firstName && categories.includes('name')
+      ? { ...userProfile, first_name: redactText(firstName, ['name'], placeholders, [firstName]) }
+      : userProfile;
+  }
+
+  /**
+   * Format conversation text, labelling segments in map-reduce mode
+   */
+  private formatConversationText(messages: Message[], segment?: { index: number; total: number }): string {
+    const conversationText = formatConversation(messages);
+    return segment
+      ? `[Segment ${segment.index + 1} of ${segment.total} of a longer conversation]\n\n${conversationText}`
+      : conversationText;
+  }
+
+  /**
+   * Get the prompt for a conversation analysis
+   * A detected type without a prompt in the user's locale chain is analyzed as general
+   * conversation instead of failing; a type the caller chose must have its own prompt
+   */
+  private async getAnalysisPrompt(
+    conversationType: ConversationType,
+    detected: boolean,
+    userProfile: UserProfile,
+    userId?: string
+  ): Promise<AnalysisPrompt> {
+    try {
+      return await this.getRequiredPrompt(conversationType, userProfile, userId);
+    } catch (error) {
+      if (!detected || conversationType === 'general' || !(error instanceof NotFoundError)) {
+        throw error;
+      }
+
+      console.log(`📝 No ${conversationType} prompt, analyzing as general conversation`);
+      return this.getRequiredPrompt('general', userProfile, userId);
+    }
+  }
+
+  /**
+   * Get the active prompt for a conversation type, failing when none is configured
+   * unless a built-in default is given
+   * The interface language falls back through its locale chain (pt-BR → pt → en), and with
+   * several active versions, the user is assigned one by traffic weight
+   */
+  private async getRequiredPrompt(
+    conversationType: PromptType,
+    userProfile: UserProfile,
+    userId?: string,
+    defaultPrompt?: AnalysisPrompt
+  ): Promise<AnalysisPrompt> {
+    const interfaceLanguage = userProfile?.interface_language || 'en';
+    const locales = getLocaleFallbacks(interfaceLanguage);
+
+    // Get active prompts from database, for the most specific locale that has any
+    const activePrompts = await this.getActivePrompts(conversationType, locales);
+    const languageCode = locales.find(locale => activePrompts.some(prompt => prompt.language_code === locale));
+    if (!languageCode) {
+      const builtInPrompt = defaultPrompt ?? this.getOfflinePrompt(conversationType);
+      if (builtInPrompt) {
+        console.log(`📝 Using built-in prompt: ${builtInPrompt.prompt_name}`);
+        return builtInPrompt;
+      }
+      throw new NotFoundError(`No active prompt found for conversation type: ${conversationType}, languages: ${locales.join(', ')}`);
+    }
+
+    if (languageCode !== locales[0]) {
+      console.log(`🌐 No ${conversationType} prompt for ${locales[0]}, falling back to ${languageCode}`);
+    }
+
+    const prompts = activePrompts.filter(prompt => prompt.language_code === languageCode);
+    const prompt = this.selectPromptVariant(prompts, `${userId}:${conversationType}:${languageCode}`, userId);
+
+    // Reject templates that use undeclared variables or ones this prompt type is not rendered with
+    const issues = validatePromptTemplate(prompt.prompt_template, getDeclaredVariables(prompt), conversationType);
+    if (issues.length > 0) {
+      throw new TemplateError(`Invalid template for prompt ${prompt.prompt_name} v${prompt.prompt_version}`, issues);
+    }
+
+    console.log(`📝 Using prompt: ${prompt.prompt_name} v${prompt.prompt_version}`);
+    return prompt;
+  }
+
+  /**
+   * Get the built-in prompt of a conversation type while the stub provider is in use
+   * Looks at the configured provider without creating one, so an unconfigured provider still
+   * reports the missing prompt
+   */
+  private getOfflinePrompt(conversationType: PromptType): AnalysisPrompt | undefined {
+    const providerName = this.provider?.name ?? process.env.LLM_PROVIDER;
+    return providerName === 'stub' ? STUB_ANALYSIS_PROMPTS[conversationType as ConversationType] : undefined;
+  }
+
+  /**
+   * Tell the model to answer in the interface language when the prompt was written for a
+   * fallback locale, so a pt-BR learner served the pt or en prompt still reads Portuguese
+   */
+  private buildResponseLanguageInstruction(prompt: AnalysisPrompt, userProfile: UserProfile): string {
+    const interfaceLanguage = normalizeLocale(userProfile?.interface_language || 'en');
+    if (!prompt.language_code || normalizeLocale(prompt.language_code) === interfaceLanguage) {
+      return '';
+    }
+
+    return `\n\nRESPONSE LANGUAGE:\nThese instructions are written for "${prompt.language_code}". Write all text in your response in the language with code "${interfaceLanguage}".`;
+  }
+
+  /**
+   * Get the LLM provider, created on first use so that importing the service needs no credentials
+   */
+  private getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createLLMProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Endpoint of the provider for API call logs
+   */
+  private getEndpoint(): string {
+    return this.provider?.endpoint || 'unknown';
+  }
+
+  /**
+   * Service name for API call logs, the provider's so that its usage is priced with its own rates
+   */
+  private getServiceName(): string {
+    return this.provider?.name || 'openai';
+  }
+
+  /**
+   * Resolve model settings from the prompt row, falling back to environment defaults
+   */
+  private resolveModelConfig(
+    prompt: Pick<AnalysisPrompt, 'model' | 'temperature' | 'max_tokens' | 'system_prompt'>,
+    defaultSystemPrompt: string
+  ): ModelConfig {
+    const temperature = parseFloat(process.env.OPENAI_TEMPERATURE || '');
+    const maxTokens = parseInt(process.env.OPENAI_MAX_TOKENS || '', 10);
+
+    return {
+      model: prompt.model || process.env.OPENAI_MODEL || DEFAULT_MODEL,
+      temperature: prompt.temperature ?? (Number.isFinite(temperature) ? temperature : DEFAULT_TEMPERATURE),
+      maxTokens: prompt.max_tokens ?? (Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : DEFAULT_MAX_TOKENS),
+      systemPrompt: prompt.system_prompt || defaultSystemPrompt
+    };
+  }
+
+  /**
+   * Resolve the token budget from request overrides and environment defaults
+   */
+  private resolveTokenBudget(overrides: Partial<TokenBudget> = {}): TokenBudget {
+    const fromEnv = (name: string, fallback: number) => {
+      const value = parseInt(process.env[name] || '', 10);
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+
+    return {
+      maxInputTokens: overrides.maxInputTokens ?? fromEnv('OPENAI_MAX_INPUT_TOKENS', DEFAULT_MAX_INPUT_TOKENS),
+      chunkTokens: overrides.chunkTokens ?? fromEnv('OPENAI_CHUNK_TOKENS', DEFAULT_CHUNK_TOKENS),
+      maxChunks: overrides.maxChunks ?? fromEnv('OPENAI_MAX_CHUNKS', DEFAULT_MAX_CHUNKS),
+      mode: overrides.mode ?? 'auto'
+    };
+  }
+
+  /**
+   * Decide how a conversation fits the token budget
+   * Single requests get the most recent messages that fit; map-reduce gets the most recent chunks
+   */
+  private planTokenBudget(
+    messages: Message[],
+    overrides?: Partial<TokenBudget>
+  ): { strategy: 'single' | 'map_reduce'; messages: Message[]; chunks: Message[][]; estimatedTokens: number } {
+    const budget = this.resolveTokenBudget(overrides);
+    const estimatedTokens = estimateConversationTokens(messages);
+    const overBudget = estimatedTokens > budget.maxInputTokens;
+
+    if (budget.mode === 'single' || (budget.mode === 'auto' && !overBudget)) {
+      const fitted = overBudget ? truncateMessages(messages, budget.maxInputTokens) : messages;
+      if (fitted.length < messages.length) {
+        console.warn(`⚠️ OpenAI Service: Conversation truncated to ${fitted.length} of ${messages.length} messages`);
+      }
+      return { strategy: 'single', messages: fitted, chunks: [fitted], estimatedTokens };
+    }
+
+    const chunkTokens = Math.min(budget.chunkTokens, budget.maxInputTokens);
+    const allChunks = chunkMessages(messages, chunkTokens);
+    const chunks = allChunks.slice(-budget.maxChunks);
+    if (chunks.length < allChunks.length) {
+      console.warn(`⚠️ OpenAI Service: Analyzing the last ${chunks.length} of ${allChunks.length} chunks`);
+    }
+
+    return {
+      strategy: chunks.length > 1 ? 'map_reduce' : 'single',
+      messages: chunks.flat(),
+      chunks,
+      estimatedTokens
+    };
+  }
+
+  /**
+   * Analyze messages within the token budget
+   * Conversations over budget are analyzed per chunk (map) and the chunk results merged (reduce)
+   */
+  private async analyzeWithinBudget(
+    modelConfig: ModelConfig,
+    messages: Message[],
+    userProfile: UserProfile,
+    buildPrompt: (messages: Message[], segment?: { index: number; total: number }) => string,
+    usage: UsageMetrics,
+    tokenBudget?: Partial<TokenBudget>
+  ): Promise<{ analysis: AnalysisOutput; repairAttempts: number; chunkCount: number; estimatedTokens: number }> {
+    const plan = this.planTokenBudget(messages, tokenBudget);
+
+    if (plan.strategy === 'single') {
+      const result = await this.requestAnalysis(modelConfig, buildPrompt(plan.messages), usage);
+      return { ...result, chunkCount: 1, estimatedTokens: plan.estimatedTokens };
+    }
+
+    console.log(`🧩 OpenAI Service: Map-reduce analysis over ${plan.chunks.length} chunks`);
+
+    // Map: analyze each chunk with the regular prompt
+    const partials = await Promise.all(
+      plan.chunks.map((chunk, index) =>
+        this.requestAnalysis(modelConfig, buildPrompt(chunk, { index, total: plan.chunks.length }), usage)
+      )
+    );
+
+    // Reduce: merge the chunk analyses into one
+    const merged = await this.requestAnalysis(
+      { ...modelConfig, systemPrompt: MERGE_SYSTEM_PROMPT },
+      this.buildMergePrompt(partials.map(partial => partial.analysis), userProfile),
+      usage
+    );
+
+    return {
+      analysis: merged.analysis,
+      repairAttempts: partials.reduce((total, partial) => total + partial.repairAttempts, merged.repairAttempts),
+      chunkCount: plan.chunks.length,
+      estimatedTokens: plan.estimatedTokens
+    };
+  }
 
-    this.openai = new OpenAI({ apiKey });
+  /**
+   * Build the prompt that merges chunk analyses in map-reduce mode
+   */
+  private buildMergePrompt(partials: AnalysisOutput[], userProfile: UserProfile): string {
+    return `The following are analyses of ${partials.length} consecutive segments of one language learning conversation, in order.
 
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+LEARNER PROFILE:
+- Native language: ${userProfile?.native_language || 'Not specified'}
+- Practice languages: ${userProfile?.practice_languages?.join(', ') || 'Not specified'}
+- Level: ${userProfile?.level || 'Not specified'}
 
-    if (!supabaseUrl || !supabaseServiceKey) {
-      throw new Error('Supabase configuration missing');
-    }
+Merge them into a single analysis of the whole conversation:
+- Write one summary covering the full conversation
+- Combine and deduplicate list entries, keeping the most important ones
+- Describe language level and learning progress across the whole conversation, weighting later segments more
+- Estimate proficiency across the whole conversation, with a confidence no higher than the segments support
+- Write all text in the language with code "${userProfile?.interface_language || 'en'}"
 
-    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+SEGMENT ANALYSES:
+${JSON.stringify(partials, null, 2)}
+
+Respond with only a JSON object of this shape:
+${ANALYSIS_JSON_SHAPE}`;
   }
 
   /**
-   * Analyze conversation using OpenAI
+   * Analyze vocabulary practice conversation
    */
-  async analyzeConversation(
+  async analyzeVocabularyPractice(
     messages: Message[],
     userProfile: UserProfile,
-    studyTopic?: StudyTopic
+    vocabularyContext: VocabularyContext,
+    options: AnalysisOptions = {}
   ): Promise<ConversationAnalysis> {
     const startTime = Date.now();
+    const usage: UsageMetrics = {};
     
+    await quotaService.assertWithinQuota(options.userId, 'tokens');
+
     try {
-      console.log('🔍 OpenAI Service: Analyzing conversation');
+      console.log('🔍 OpenAI Service: Analyzing vocabulary practice conversation');
+
+      // Determine conversation type
+      const conversationType = 'vocabulary_practice';
+
+      // Pick the prompt and learner history first, variants and users must not share cached analyses
+      const prompt = await this.getRequiredPrompt(conversationType, userProfile, options.userId);
+      const learnerHistory = await this.getLearnerHistory(prompt, options.userId);
 
       // Generate cache key
-      const cacheKey = cacheService.generateOpenAIKey(messages, userProfile, studyTopic);
+      const cacheKey = cacheService.generateOpenAIKey(messages, userProfile, undefined, vocabularyContext, {
+        tokenBudget: options.tokenBudget,
+        promptId: prompt.id,
+        learnerHistory
+      }, cacheService.generateAnalysisScope(prompt.conversation_type, prompt.language_code));
       
       // Check cache first
       const cached = cacheService.get<ConversationAnalysis>(cacheKey);
       if (cached) {
-        console.log('✅ OpenAI Service: Using cached analysis');
+        console.log('✅ OpenAI Service: Using cached vocabulary analysis');
         await loggingService.logCacheOperation('hit', cacheKey, 'openai');
-        return cached;
+        return { ...cached, cached: true };
       }
 
       await loggingService.logCacheOperation('miss', cacheKey, 'openai');
 
-      // Determine conversation type
-      const conversationType = 'general';
-      const languageCode = userProfile?.interface_language || 'en';
-
-      // Get active prompt from database
-      const prompt = await this.getActivePrompt(conversationType, languageCode);
-      if (!prompt) {
-        throw new Error(`No active prompt found for conversation type: ${conversationType}, language: ${languageCode}`);
-      }
-
-      console.log(`📝 Using prompt: ${prompt.prompt_name} v${prompt.prompt_version}`);
-
-      // Format conversation for analysis
-      const conversationText = messages
-        .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
-        .join('\n\n');
-
-      // Build study topic context if available
-      const studyTopicContext = studyTopic 
-        ? `\n\nSTUDY TOPIC CONTEXT:\nThe conversation was focused on: "${studyTopic.title}"\n${studyTopic.description ? `Description: ${studyTopic.description}` : ''}`
-        : '';
-
-      // Prepare prompt context
-      const promptContext: PromptContext = {
-        native_language: userProfile?.native_language || 'Not specified',
-        practice_languages: userProfile?.practice_languages || ['Not specified'],
-        level: userProfile?.level || 'Not specified',
-        learning_goals: userProfile?.learning_goals || 'Not specified',
-        interface_language: userProfile?.interface_language || 'en',
-        first_name: userProfile?.first_name || 'User',
-        study_topic_context: studyTopicContext,
-        conversation_text: conversationText
-      };
-
-      // Generate the final prompt using variable substitution
-      const generatedPrompt = this.generatePrompt(prompt.prompt_template, promptContext);
+      const modelConfig = this.resolveModelConfig(prompt, VOCABULARY_SYSTEM_PROMPT);
+      const redacted = this.redactConversation(messages, userProfile, learnerHistory);
 
-      // Call OpenAI API
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert language learning analyst. Analyze conversations and provide structured insights for personalized learning. Always respond with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: generatedPrompt
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000
-      });
+      // Call OpenAI API within the token budget, with schema validation and a bounded repair request
+      // Word outcomes are extracted alongside; the analysis doesn't depend on them
+      const [{ analysis: output, repairAttempts, chunkCount, estimatedTokens }, wordOutcomes] = await Promise.all([
+        this.analyzeWithinBudget(
+          modelConfig,
+          redacted.messages,
+          redacted.userProfile,
+          (subset, segment) => this.buildVocabularyPrompt(prompt, subset, redacted.userProfile, vocabularyContext, redacted.learnerHistory, segment),
+          usage,
+          options.tokenBudget
+        ),
+        this.extractWordOutcomes(redacted.messages, vocabularyContext, modelConfig.model, usage, options.tokenBudget)
+      ]);
 
       const duration = Date.now() - startTime;
-      const analysisText = response.choices[0]?.message?.content;
-
-      if (!analysisText) {
-        throw new Error('No analysis received from OpenAI');
-      }
 
-      // Parse the analysis response
-      const analysis = this.parseAnalysisResponse(analysisText);
+      // Keep the conversation type that selected the prompt
+      const analysis: ConversationAnalysis = {
+        ...restorePlaceholders(output, redacted.placeholders),
+        conversationType,
+        wordOutcomes,
+        promptId: prompt.id,
+        promptVersion: prompt.prompt_version,
+        promptLocale: prompt.language_code,
+        degraded: false
+      };
 
       // Cache the successful response
       cacheService.set(cacheKey, analysis, 'openai');
@@ -136,20 +1343,30 @@ export class OpenAIService {
       // Log the API call
       await loggingService.logApiCall({
         sessionId: loggingService.getSessionId(),
-        serviceName: 'openai',
-        endpoint: 'https://api.openai.com/v1/chat/completions',
+        serviceName: this.getServiceName(),
+        userId: options.userId,
+        usage,
+        endpoint: this.getEndpoint(),
         method: 'POST',
         responseStatus: 200,
         duration,
         requestBody: {
-          model: 'gpt-4o-mini',
+          provider: this.getProvider().name,
+          model: modelConfig.model,
           messageCount: messages.length,
-          hasStudyTopic: !!studyTopic
+          hasVocabularyContext: true,
+          wordOutcomeCount: wordOutcomes?.length,
+          promptId: prompt.id,
+          promptVersion: prompt.prompt_version,
+          promptLocale: prompt.language_code,
+          repairAttempts,
+          estimatedTokens,
+          chunkCount
         },
         responseBody: { analysis: 'success' }
       });
 
-      console.log('✅ OpenAI Service: Analysis completed successfully');
+      console.log('✅ OpenAI Service: Vocabulary analysis completed successfully');
       return analysis;
 
     } catch (error) {
@@ -157,280 +1374,737 @@ export class OpenAIService {
       
       await loggingService.logApiCall({
         sessionId: loggingService.getSessionId(),
-        serviceName: 'openai',
-        endpoint: 'https://api.openai.com/v1/chat/completions',
+        serviceName: this.getServiceName(),
+        userId: options.userId,
+        usage,
+        endpoint: this.getEndpoint(),
         method: 'POST',
         responseStatus: 500,
         duration,
         errorMessage: error instanceof Error ? error.message : 'Unknown error'
       });
 
-      console.error('❌ OpenAI Service: Analysis failed:', error);
+      console.error('❌ OpenAI Service: Vocabulary analysis failed:', error);
       
       // Return fallback analysis
-      return this.getFallbackAnalysis();
+      return this.getFallbackAnalysis('vocabulary_practice');
     }
   }
 
   /**
-   * Analyze vocabulary practice conversation
+   * Judge how the learner used each word of the list
+   * Returns one outcome per listed word, or undefined when extraction failed
    */
-  async analyzeVocabularyPractice(
+  private async extractWordOutcomes(
     messages: Message[],
-    userProfile: UserProfile,
-    vocabularyContext: VocabularyContext
-  ): Promise<ConversationAnalysis> {
+    vocabularyContext: VocabularyContext,
+    model: string,
+    usage: UsageMetrics,
+    tokenBudget?: Partial<TokenBudget>
+  ): Promise<WordOutcome[] | undefined> {
+    const learnerMessages = truncateMessages(
+      messages.filter(message => message.role === 'user'),
+      this.resolveTokenBudget(tokenBudget).maxInputTokens
+    );
+    if (learnerMessages.length === 0) {
+      return vocabularyContext.word_list_words.map(({ word }) => ({ word, outcome: 'not_used' as const }));
+    }
+
+    try {
+      const { output } = await this.requestStructured(
+        'vocabulary_outcomes',
+        { ...this.resolveModelConfig({}, WORD_OUTCOME_SYSTEM_PROMPT), model },
+        this.buildWordOutcomePrompt(learnerMessages, vocabularyContext),
+        WordOutcomeOutputSchema,
+        WORD_OUTCOME_JSON_SHAPE,
+        usage
+      );
+
+      // Keep the list's spelling and order; words the model skipped count as not used
+      return vocabularyContext.word_list_words.map(({ word }) => {
+        const match = output.outcomes.find(outcome => outcome.word.trim().toLowerCase() === word.toLowerCase());
+        return match
+          ? { word, outcome: match.outcome, ...(match.note && { note: match.note }) }
+          : { word, outcome: 'not_used' as const };
+      });
+    } catch (error) {
+      console.warn('⚠️ OpenAI Service: Word outcome extraction failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Build the word outcome prompt from the learner's messages
+   */
+  private buildWordOutcomePrompt(learnerMessages: Message[], vocabularyContext: VocabularyContext): string {
+    const words = JSON.stringify(vocabularyContext.word_list_words.map(({ word }) => word));
+
+    return `A learner practiced the vocabulary of the word list "${vocabularyContext.word_list_title}". For each word, judge how the learner used it in their messages:
+- "correct": used with the right meaning and form
+- "incorrect": used with the wrong meaning or form, explain the mistake briefly in "note"
+- "not_used": not used by the learner
+
+Respond with a JSON object of this shape, with one entry per word:
+${WORD_OUTCOME_JSON_SHAPE}
+
+WORDS:
+${words}
+
+LEARNER MESSAGES:
+${formatConversation(learnerMessages)}`;
+  }
+
+  /**
+   * Correct the user messages of a conversation
+   * Each mistake is returned as a character span of the original text with a category
+   * and an explanation in the user's interface language
+   */
+  async correctMessages(messages: Message[], userProfile: UserProfile, userId?: string): Promise<ConversationCorrections> {
     const startTime = Date.now();
-    
+    const usage: UsageMetrics = {};
+    const userMessages = messages
+      .map((message, index) => ({ index, message }))
+      .filter(({ message }) => message.role === 'user');
+
+    await quotaService.assertWithinQuota(userId, 'tokens');
+
     try {
-      console.log('🔍 OpenAI Service: Analyzing vocabulary practice conversation');
+      console.log('🔍 OpenAI Service: Correcting messages', { messageCount: userMessages.length });
 
       // Generate cache key
-      const cacheKey = cacheService.generateOpenAIKey(messages, userProfile, undefined, vocabularyContext);
-      
+      const cacheKey = cacheService.generateOpenAIKey(messages, userProfile, undefined, undefined, undefined, 'openai:corrections');
+
       // Check cache first
-      const cached = cacheService.get<ConversationAnalysis>(cacheKey);
+      const cached = cacheService.get<ConversationCorrections>(cacheKey);
       if (cached) {
-        console.log('✅ OpenAI Service: Using cached vocabulary analysis');
+        console.log('✅ OpenAI Service: Using cached corrections');
         await loggingService.logCacheOperation('hit', cacheKey, 'openai');
         return cached;
       }
 
       await loggingService.logCacheOperation('miss', cacheKey, 'openai');
 
-      // Determine conversation type
-      const conversationType = 'vocabulary_practice';
-      const languageCode = userProfile?.interface_language || 'en';
+      const modelConfig = this.resolveModelConfig({}, CORRECTION_SYSTEM_PROMPT);
+      const batches = this.batchCorrectionMessages(userMessages, this.resolveTokenBudget());
 
-      // Get active prompt from database
-      const prompt = await this.getActivePrompt(conversationType, languageCode);
-      if (!prompt) {
-        throw new Error(`No active prompt found for conversation type: ${conversationType}, language: ${languageCode}`);
-      }
+      // The model corrects redacted messages; its quotes are restored before they are located in the originals
+      const redacted = this.redactConversation(messages, userProfile);
+      const results = await Promise.all(batches.map(batch =>
+        this.requestStructured(
+          'corrections',
+          modelConfig,
+          this.buildCorrectionPrompt(batch.map(({ index }) => ({ index, message: redacted.messages[index] })), redacted.userProfile),
+          CorrectionOutputSchema,
+          CORRECTION_JSON_SHAPE,
+          usage
+        )
+      ));
 
-      // Format conversation for analysis
-      const conversationText = messages
-        .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
-        .join('\n\n');
-
-      // Build vocabulary context
-      const vocabularyContextText = `\n\nVOCABULARY CONTEXT:\n- Word List: ${vocabularyContext.word_list_title}\n- Topic: ${vocabularyContext.word_list_topic}\n- Words: ${vocabularyContext.word_list_words.map(w => w.word).join(', ')}`;
-
-      // Prepare prompt context
-      const promptContext: PromptContext = {
-        native_language: userProfile?.native_language || 'Not specified',
-        practice_languages: userProfile?.practice_languages || ['Not specified'],
-        level: userProfile?.level || 'Not specified',
-        learning_goals: userProfile?.learning_goals || 'Not specified',
-        interface_language: userProfile?.interface_language || 'en',
-        first_name: userProfile?.first_name || 'User',
-        conversation_text: conversationText,
-        word_list_title: vocabularyContext.word_list_title,
-        word_list_topic: vocabularyContext.word_list_topic,
-        vocabulary_words: vocabularyContext.word_list_words.map(w => w.word).join(', ')
+      const corrections: ConversationCorrections = {
+        corrections: batches.flatMap((batch, index) =>
+          this.locateCorrections(batch, restorePlaceholders(results[index].output, redacted.placeholders))
+        ),
+        degraded: false
       };
 
-      // Generate the final prompt
-      const generatedPrompt = this.generatePrompt(prompt.prompt_template, promptContext);
+      // Cache the successful response
+      cacheService.set(cacheKey, corrections, 'openai');
 
-      // Call OpenAI API
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert language learning analyst. Analyze vocabulary practice conversations and provide structured insights. Always respond with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: generatedPrompt
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000
+      // Log the API call
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 200,
+        duration: Date.now() - startTime,
+        requestBody: {
+          provider: this.getProvider().name,
+          model: modelConfig.model,
+          task: 'corrections',
+          messageCount: userMessages.length,
+          batchCount: batches.length,
+          repairAttempts: results.reduce((total, result) => total + result.repairAttempts, 0)
+        },
+        responseBody: {
+          corrections: 'success',
+          errorCount: corrections.corrections.reduce((total, correction) => total + correction.errors.length, 0)
+        }
       });
 
-      const duration = Date.now() - startTime;
-      const analysisText = response.choices[0]?.message?.content;
+      console.log('✅ OpenAI Service: Corrections completed successfully');
+      return corrections;
+
+    } catch (error) {
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 500,
+        duration: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      console.error('❌ OpenAI Service: Corrections failed:', error);
+
+      // Messages are returned unchanged, flagged so clients don't show them as error-free
+      return {
+        corrections: userMessages.map(({ index, message }) => ({
+          messageIndex: index,
+          original: message.content,
+          corrected: message.content,
+          errors: []
+        })),
+        degraded: true
+      };
+    }
+  }
+
+  /**
+   * Group user messages into batches that fit the chunk budget, keeping the most recent batches
+   */
+  private batchCorrectionMessages(
+    userMessages: Array<{ index: number; message: Message }>,
+    tokenBudget: TokenBudget
+  ): Array<Array<{ index: number; message: Message }>> {
+    const batches: Array<Array<{ index: number; message: Message }>> = [];
+    let current: Array<{ index: number; message: Message }> = [];
+    let currentTokens = 0;
 
-      if (!analysisText) {
-        throw new Error('No analysis received from OpenAI');
+    for (const entry of userMessages) {
+      const tokens = estimateMessageTokens(entry.message);
+      if (current.length > 0 && currentTokens + tokens > tokenBudget.chunkTokens) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
       }
+      current.push(entry);
+      currentTokens += tokens;
+    }
 
-      // Parse the analysis response
-      const analysis = this.parseAnalysisResponse(analysisText);
+    if (current.length > 0) {
+      batches.push(current);
+    }
 
-      // Cache the successful response
-      cacheService.set(cacheKey, analysis, 'openai');
+    return batches.slice(-tokenBudget.maxChunks);
+  }
+
+  /**
+   * Build the correction prompt for a batch of user messages
+   */
+  private buildCorrectionPrompt(batch: Array<{ index: number; message: Message }>, userProfile: UserProfile): string {
+    const practiceLanguages = userProfile?.practice_languages?.join(', ') || 'the target language';
+    const nativeLanguage = userProfile?.native_language ? ` and their native language is ${userProfile.native_language}` : '';
+    const interfaceLanguage = userProfile?.interface_language || 'en';
+    const messagesJson = JSON.stringify(batch.map(({ index, message }) => ({ index, text: message.content })), null, 2);
+
+    return `Correct the grammar and word choice of each learner message below. The learner is practicing ${practiceLanguages}${nativeLanguage}.
+
+For every message return:
+- "index": the index of the message
+- "corrected": the full corrected message, identical to the original when there are no mistakes
+- "errors": one entry per mistake, with "text" copied exactly from the original message, its "correction", a "category" (tense, agreement, word_order or lexical) and a one-sentence "explanation" written in the language with code "${interfaceLanguage}"
+
+Ignore punctuation, capitalization and style preferences.
+
+Respond with a JSON object of this shape:
+${CORRECTION_JSON_SHAPE}
+
+MESSAGES:
+${messagesJson}`;
+  }
+
+  /**
+   * Turn the quoted mistakes of the model output into character spans of the original messages
+   * Quotes that can't be found in the original, or overlap an earlier span, are dropped
+   */
+  private locateCorrections(
+    batch: Array<{ index: number; message: Message }>,
+    output: CorrectionOutput
+  ): MessageCorrection[] {
+    return batch.map(({ index, message }) => {
+      const original = message.content;
+      const correction = output.corrections.find(candidate => candidate.index === index);
+      const errors: CorrectionSpan[] = [];
+      let searchFrom = 0;
+
+      for (const error of correction?.errors || []) {
+        // Mistakes are usually listed in order, fall back to the first occurrence
+        let start = original.indexOf(error.text, searchFrom);
+        if (start === -1) {
+          start = original.indexOf(error.text);
+        }
+
+        const end = start + error.text.length;
+        if (start === -1 || errors.some(span => start < span.end && end > span.start)) {
+          console.warn(`⚠️ OpenAI Service: Dropped correction that does not match message ${index}:`, error.text);
+          continue;
+        }
+
+        errors.push({ start, end, ...error });
+        searchFrom = end;
+      }
+
+      return {
+        messageIndex: index,
+        original,
+        corrected: correction?.corrected ?? original,
+        errors: errors.sort((a, b) => a.start - b.start)
+      };
+    });
+  }
+
+  /**
+   * Generate a multi-week study plan of conversation topics
+   * Unlike analyses there is no fallback plan, failures are reported to the caller
+   */
+  async generateStudyPlan(
+    userProfile: UserProfile,
+    options: { practiceLanguage: string; weeks: number; sessionsPerWeek: number; learnerHistory: string },
+    userId?: string
+  ): Promise<{ title: string; weeks: StudyPlanWeek[] }> {
+    const startTime = Date.now();
+    const usage: UsageMetrics = {};
+    const modelConfig = this.resolveModelConfig({}, STUDY_PLAN_SYSTEM_PROMPT);
+
+    await quotaService.assertWithinQuota(userId, 'tokens');
+
+    try {
+      console.log('🔍 OpenAI Service: Generating study plan', { weeks: options.weeks });
+
+      const redacted = this.redactLearnerText([options.learnerHistory], userProfile);
+      const { output: redactedOutput, repairAttempts } = await this.requestStructured(
+        'study_plan',
+        modelConfig,
+        this.buildStudyPlanPrompt(redacted.userProfile, { ...options, learnerHistory: redacted.texts[0] }),
+        StudyPlanOutputSchema,
+        STUDY_PLAN_JSON_SHAPE,
+        usage
+      );
+      const output = restorePlaceholders(redactedOutput, redacted.placeholders);
+
+      // Number weeks ourselves and drop any the model added beyond the request
+      const weeks = output.weeks.slice(0, options.weeks).map((week, index) => ({
+        week: index + 1,
+        focus: week.focus,
+        topics: week.topics.slice(0, options.sessionsPerWeek)
+      }));
 
-      // Log the API call
       await loggingService.logApiCall({
         sessionId: loggingService.getSessionId(),
-        serviceName: 'openai',
-        endpoint: 'https://api.openai.com/v1/chat/completions',
+        serviceName: this.getServiceName(),
+        userId,
+        usage,
+        endpoint: this.getEndpoint(),
         method: 'POST',
         responseStatus: 200,
-        duration,
+        duration: Date.now() - startTime,
         requestBody: {
-          model: 'gpt-4o-mini',
-          messageCount: messages.length,
-          hasVocabularyContext: true
+          provider: this.getProvider().name,
+          model: modelConfig.model,
+          task: 'study_plan',
+          weeks: options.weeks,
+          sessionsPerWeek: options.sessionsPerWeek,
+          repairAttempts
         },
-        responseBody: { analysis: 'success' }
+        responseBody: { studyPlan: 'success', weekCount: weeks.length }
       });
 
-      console.log('✅ OpenAI Service: Vocabulary analysis completed successfully');
-      return analysis;
+      console.log('✅ OpenAI Service: Study plan generated successfully');
+      return { title: output.title, weeks };
 
     } catch (error) {
-      const duration = Date.now() - startTime;
-      
       await loggingService.logApiCall({
         sessionId: loggingService.getSessionId(),
-        serviceName: 'openai',
-        endpoint: 'https://api.openai.com/v1/chat/completions',
+        serviceName: this.getServiceName(),
+        userId,
+        usage,
+        endpoint: this.getEndpoint(),
         method: 'POST',
         responseStatus: 500,
-        duration,
+        duration: Date.now() - startTime,
         errorMessage: error instanceof Error ? error.message : 'Unknown error'
       });
 
-      console.error('❌ OpenAI Service: Vocabulary analysis failed:', error);
-      
-      // Return fallback analysis
-      return this.getFallbackAnalysis();
+      console.error('❌ OpenAI Service: Study plan generation failed:', error);
+      throw new ExternalAPIError('Failed to generate study plan', 'openai', error);
+    }
+  }
+
+  /**
+   * Build the study plan prompt from the learner's profile and history
+   */
+  private buildStudyPlanPrompt(
+    userProfile: UserProfile,
+    options: { practiceLanguage: string; weeks: number; sessionsPerWeek: number; learnerHistory: string }
+  ): string {
+    return `Create a study plan of conversation practice topics for a language learner.
+
+LEARNER PROFILE:
+- Practice language: ${options.practiceLanguage}
+- Native language: ${userProfile?.native_language || 'Not specified'}
+- Level: ${userProfile?.level || 'Not specified'}
+- Learning goals: ${userProfile?.learning_goals || 'Not specified'}
+
+LEARNER HISTORY:
+${options.learnerHistory}
+
+PLAN:
+- Number of weeks: ${options.weeks}
+- Topics per week: ${options.sessionsPerWeek}
+
+Each topic is one conversation session. Build on the learner's interests, work on their recurring mistakes and increase difficulty gradually from their current level. Give each week a focus and each topic a title, a description of the conversation scenario and 2 to 4 concrete objectives. Write titles, descriptions and objectives in the language with code "${userProfile?.interface_language || 'en'}".
+
+Respond with a JSON object of this shape:
+${STUDY_PLAN_JSON_SHAPE}`;
+  }
+
+  /**
+   * Generate exercises targeting a learner's recurring mistakes and areas for improvement
+   * The template comes from the 'exercises' prompt in analysis_prompts, or the built-in one;
+   * like study plans, failures are reported to the caller
+   */
+  async generateExercises(
+    userProfile: UserProfile,
+    options: {
+      practiceLanguage: string;
+      count: number;
+      types: ExerciseType[];
+      commonMistakes: string[];
+      areasForImprovement: string[];
+    },
+    userId?: string
+  ): Promise<ExerciseWithAnswer[]> {
+    const startTime = Date.now();
+    const usage: UsageMetrics = {};
+    const prompt = await this.getRequiredPrompt('exercises', userProfile, userId, DEFAULT_EXERCISE_PROMPT);
+    const modelConfig = this.resolveModelConfig(prompt, EXERCISE_SYSTEM_PROMPT);
+
+    await quotaService.assertWithinQuota(userId, 'tokens');
+
+    try {
+      console.log('🔍 OpenAI Service: Generating exercises', { count: options.count, types: options.types });
+
+      const redacted = this.redactLearnerText([...options.commonMistakes, ...options.areasForImprovement], userProfile);
+      const { output: redactedOutput, repairAttempts } = await this.requestStructured(
+        'exercises',
+        modelConfig,
+        this.buildExercisePrompt(prompt, redacted.userProfile, {
+          ...options,
+          commonMistakes: redacted.texts.slice(0, options.commonMistakes.length),
+          areasForImprovement: redacted.texts.slice(options.commonMistakes.length)
+        }),
+        ExerciseOutputSchema,
+        EXERCISE_JSON_SHAPE,
+        usage
+      );
+      const output = restorePlaceholders(redactedOutput, redacted.placeholders);
+
+      // Drop types that weren't asked for and any exercises beyond the request, then number them
+      const exercises = output.exercises
+        .filter(exercise => options.types.includes(exercise.type))
+        .slice(0, options.count)
+        .map((exercise, index) => ({ id: `ex-${index + 1}`, ...exercise }));
+
+      if (exercises.length === 0) {
+        throw new Error('No exercises of the requested types');
+      }
+
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 200,
+        duration: Date.now() - startTime,
+        requestBody: {
+          provider: this.getProvider().name,
+          model: modelConfig.model,
+          task: 'exercises',
+          promptId: prompt.id,
+          promptVersion: prompt.prompt_version,
+          promptLocale: prompt.language_code,
+          count: options.count,
+          repairAttempts
+        },
+        responseBody: { exercises: 'success', exerciseCount: exercises.length }
+      });
+
+      console.log('✅ OpenAI Service: Exercises generated successfully');
+      return exercises;
+
+    } catch (error) {
+      await loggingService.logApiCall({
+        sessionId: loggingService.getSessionId(),
+        serviceName: this.getServiceName(),
+        userId,
+        usage,
+        endpoint: this.getEndpoint(),
+        method: 'POST',
+        responseStatus: 500,
+        duration: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      console.error('❌ OpenAI Service: Exercise generation failed:', error);
+      throw new ExternalAPIError('Failed to generate exercises', 'openai', error);
+    }
+  }
+
+  /**
+   * Build the exercise prompt from the prompt template
+   * The format rules are appended so that stored templates only describe the content
+   */
+  private buildExercisePrompt(
+    prompt: AnalysisPrompt,
+    userProfile: UserProfile,
+    options: {
+      practiceLanguage: string;
+      count: number;
+      types: ExerciseType[];
+      commonMistakes: string[];
+      areasForImprovement: string[];
+    }
+  ): string {
+    const promptContext: PromptContext = {
+      native_language: userProfile?.native_language || 'Not specified',
+      practice_languages: [options.practiceLanguage],
+      level: userProfile?.level || 'Not specified',
+      learning_goals: userProfile?.learning_goals || 'Not specified',
+      interface_language: userProfile?.interface_language || 'en',
+      first_name: userProfile?.first_name || 'User',
+      common_mistakes: options.commonMistakes,
+      areas_for_improvement: options.areasForImprovement,
+      exercise_count: options.count,
+      exercise_types: options.types
+    };
+
+    return `${renderTemplate(prompt.prompt_template, { ...promptContext })}${this.buildResponseLanguageInstruction(prompt, userProfile)}
+
+EXERCISE FORMAT:
+- Number of exercises: ${options.count}
+- Exercise types: ${options.types.join(', ')}
+- fill_in_blank: the prompt is a sentence with the gap marked ___, the answer is the text for the gap
+- multiple_choice: the prompt is a question with 3 or 4 options, exactly one of them the answer
+- sentence_transformation: the prompt is a sentence to rewrite as the instructions say, the answer is the rewritten sentence; list other correct rewrites in acceptableAnswers
+- focus: the mistake or area for improvement the exercise targets
+
+Respond with a JSON object of this shape:
+${EXERCISE_JSON_SHAPE}`;
+  }
+
+  /**
+   * Detect conversation type from messages, study topic and vocabulary context
+   * Falls back to 'general' when no type has enough signals
+   */
+  detectConversationType(
+    messages: Message[],
+    studyTopic?: StudyTopic,
+    vocabularyContext?: VocabularyContext
+  ): ConversationType {
+    if (vocabularyContext && vocabularyContext.word_list_words.length > 0) {
+      return 'vocabulary_practice';
     }
+
+    const text = messages
+      .filter(msg => msg.role !== 'system')
+      .map(msg => msg.content.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase())
+      .join('\n');
+
+    const countSignals = (signals: RegExp[]) => signals.filter(signal => signal.test(text)).length;
+
+    const scores: Array<[ConversationType, number]> = [
+      ['study_plan', countSignals(STUDY_PLAN_SIGNALS)],
+      ['practice', countSignals(PRACTICE_SIGNALS) + (studyTopic ? STUDY_TOPIC_PRACTICE_WEIGHT : 0)]
+    ];
+
+    const [bestType, bestScore] = scores.reduce((best, current) => current[1] > best[1] ? current : best);
+
+    return bestScore >= CONVERSATION_TYPE_THRESHOLD ? bestType : 'general';
   }
 
   /**
-   * Get active prompt from database
+   * Get active prompts in any of the given languages from database, ordered by id for stable
+   * experiment assignment
    */
-  private async getActivePrompt(conversationType: string, languageCode: string): Promise<AnalysisPrompt | null> {
+  private async getActivePrompts(conversationType: string, languageCodes: string[]): Promise<AnalysisPrompt[]> {
     try {
-      const { data: prompt, error } = await this.supabase
+      const { data: prompts, error } = await this.supabase
         .from('analysis_prompts')
         .select('*')
         .eq('conversation_type', conversationType)
-        .eq('language_code', languageCode)
+        .in('language_code', languageCodes)
         .eq('is_active', true)
-        .single();
+        .order('id', { ascending: true });
 
       if (error) {
-        console.error('❌ Error fetching analysis prompt:', error);
-        return null;
+        console.error('❌ Error fetching analysis prompts:', error);
+        return [];
       }
 
-      return prompt;
+      return prompts || [];
     } catch (error) {
-      console.error('❌ Error in getActivePrompt:', error);
-      return null;
+      console.error('❌ Error in getActivePrompts:', error);
+      return [];
     }
   }
 
   /**
-   * Generate prompt with variable substitution
+   * Pick one of several active prompt versions by traffic weight
+   * Users are bucketed by a hash of the assignment key so they keep the same version;
+   * requests without a user get the highest-weighted version
    */
-  private generatePrompt(template: string, context: PromptContext): string {
-    let generatedPrompt = template;
+  private selectPromptVariant(prompts: AnalysisPrompt[], assignmentKey: string, userId?: string): AnalysisPrompt {
+    const weights = prompts.map(prompt => Math.max(0, prompt.traffic_weight ?? 1));
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const defaultPrompt = prompts[weights.indexOf(Math.max(...weights))];
 
-    // Replace all variables in the template
-    const variables = [
-      'native_language', 'practice_languages', 'level', 'learning_goals',
-      'interface_language', 'first_name', 'study_topic_context',
-      'conversation_text', 'word_list_title', 'word_list_topic', 'vocabulary_words'
-    ];
+    if (prompts.length === 1 || !userId || totalWeight === 0) {
+      return defaultPrompt;
+    }
 
-    for (const variable of variables) {
-      const placeholder = `{{${variable}}}`;
-      const value = this.getContextValue(context, variable);
-      generatedPrompt = generatedPrompt.replace(new RegExp(placeholder, 'g'), value || '');
+    const bucket = hashToUnitInterval(assignmentKey) * totalWeight;
+    let cumulativeWeight = 0;
+    for (let index = 0; index < prompts.length; index++) {
+      cumulativeWeight += weights[index];
+      if (bucket < cumulativeWeight) {
+        return prompts[index];
+      }
     }
 
-    // Clean up any remaining empty variables
-    generatedPrompt = generatedPrompt.replace(/\{\{[^}]+\}\}/g, '');
+    return defaultPrompt;
+  }
 
-    return generatedPrompt;
+  /**
+   * Request an analysis and validate it against ConversationAnalysisSchema
+   */
+  private async requestAnalysis(
+    modelConfig: ModelConfig,
+    userPrompt: string,
+    usage: UsageMetrics,
+    invalidResponse?: { text: string; errors: string[] }
+  ): Promise<{ analysis: AnalysisOutput; repairAttempts: number }> {
+    const { output, repairAttempts } = await this.requestStructured(
+      'analysis',
+      modelConfig,
+      userPrompt,
+      ConversationAnalysisSchema,
+      ANALYSIS_JSON_SHAPE,
+      usage,
+      invalidResponse
+    );
+    return { analysis: output, repairAttempts };
   }
 
   /**
-   * Get context value for variable substitution
+   * Request JSON output and validate it against a schema
+   * Invalid output gets a bounded number of repair requests that include the validation errors
+   * Token usage of every request, including failed ones, is added to usage
    */
-  private getContextValue(context: PromptContext, variable: string): string {
-    switch (variable) {
-      case 'native_language':
-        return context.native_language || 'Not specified';
-      case 'practice_languages':
-        return context.practice_languages?.join(', ') || 'Not specified';
-      case 'level':
-        return context.level || 'Not specified';
-      case 'learning_goals':
-        return context.learning_goals || 'Not specified';
-      case 'interface_language':
-        return context.interface_language || 'en';
-      case 'first_name':
-        return context.first_name || 'User';
-      case 'study_topic_context':
-        return context.study_topic_context || '';
-      case 'conversation_text':
-        return context.conversation_text || '';
-      case 'word_list_title':
-        return context.word_list_title || '';
-      case 'word_list_topic':
-        return context.word_list_topic || '';
-      case 'vocabulary_words':
-        return context.vocabulary_words || '';
-      default:
-        console.warn(`⚠️ Unknown variable: ${variable}`);
-        return '';
+  private async requestStructured<T>(
+    task: LLMTask,
+    modelConfig: ModelConfig,
+    userPrompt: string,
+    schema: ZodType<T, any, any>,
+    jsonShape: string,
+    usage: UsageMetrics,
+    invalidResponse?: { text: string; errors: string[] }
+  ): Promise<{ output: T; repairAttempts: number }> {
+    const chatMessages: LLMMessage[] = [
+      { role: 'system', content: modelConfig.systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    // A response that already failed validation (e.g. from a stream) counts as the first attempt
+    let attempt = 0;
+    if (invalidResponse) {
+      chatMessages.push(...this.buildRepairMessages(invalidResponse.text, invalidResponse.errors, jsonShape));
+      attempt = 1;
+    }
+
+    for (; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const { content: responseText, usage: completionUsage } = await this.getProvider().complete({
+        task,
+        model: modelConfig.model,
+        messages: [...chatMessages],
+        temperature: modelConfig.temperature,
+        maxTokens: modelConfig.maxTokens,
+        jsonMode: true
+      });
+      addUsage(usage, modelConfig.model, completionUsage);
+
+      if (!responseText) {
+        throw new Error(`No ${task} received from ${this.getProvider().name}`);
+      }
+
+      const result = this.parseStructuredResponse(schema, responseText);
+      if (result.success) {
+        return { output: result.output, repairAttempts: attempt };
+      }
+
+      console.warn(`⚠️ OpenAI Service: ${task} failed validation (attempt ${attempt + 1}):`, result.errors);
+
+      chatMessages.push(...this.buildRepairMessages(responseText, result.errors, jsonShape));
     }
+
+    throw new Error(`${task} response failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempt(s)`);
   }
 
   /**
-   * Parse analysis response from OpenAI
+   * Build the follow-up messages asking the model to fix an invalid response
    */
-  private parseAnalysisResponse(responseText: string): ConversationAnalysis {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
+  private buildRepairMessages(
+    invalidText: string,
+    errors: string[],
+    jsonShape: string
+  ): Array<{ role: 'assistant' | 'user'; content: string }> {
+    return [
+      { role: 'assistant', content: invalidText },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required JSON schema.\n\nValidation errors:\n${errors.map(e => `- ${e}`).join('\n')}\n\nRespond again with only a corrected JSON object of this shape:\n${jsonShape}`
       }
+    ];
+  }
 
-      const analysis = JSON.parse(jsonMatch[0]);
-      
-      // Validate and provide defaults
+  /**
+   * Parse and validate a JSON response from the model
+   */
+  private parseStructuredResponse<T>(
+    schema: ZodType<T, any, any>,
+    responseText: string
+  ): { success: true; output: T } | { success: false; errors: string[] } {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(responseText);
+    } catch (error) {
+      return { success: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
       return {
-        summary: analysis.summary || 'No summary available',
-        keyTopics: Array.isArray(analysis.keyTopics) ? analysis.keyTopics : [],
-        userInsights: {
-          languageLevel: analysis.userInsights?.languageLevel || 'Unknown',
-          commonMistakes: Array.isArray(analysis.userInsights?.commonMistakes) 
-            ? analysis.userInsights.commonMistakes : [],
-          interests: Array.isArray(analysis.userInsights?.interests) 
-            ? analysis.userInsights.interests : [],
-          learningStyle: analysis.userInsights?.learningStyle || 'practical',
-          strengths: Array.isArray(analysis.userInsights?.strengths) 
-            ? analysis.userInsights.strengths : [],
-          areasForImprovement: Array.isArray(analysis.userInsights?.areasForImprovement) 
-            ? analysis.userInsights.areasForImprovement : []
-        },
-        conversationType: analysis.conversationType || 'general',
-        learningProgress: {
-          vocabularyProgress: analysis.learningProgress?.vocabularyProgress || 'Not assessed',
-          grammarProgress: analysis.learningProgress?.grammarProgress || 'Not assessed',
-          fluencyProgress: analysis.learningProgress?.fluencyProgress || 'Not assessed'
-        }
+        success: false,
+        errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
       };
-    } catch (error) {
-      console.error('Error parsing OpenAI analysis response:', error);
-      return this.getFallbackAnalysis();
     }
+
+    return { success: true, output: result.data };
   }
 
   /**
    * Get fallback analysis when OpenAI fails
+   * Flagged as degraded so clients don't present it as a real analysis
    */
-  private getFallbackAnalysis(): ConversationAnalysis {
+  private getFallbackAnalysis(conversationType: ConversationType = 'general'): ConversationAnalysis {
     return {
       summary: 'Conversation analysis failed - using fallback summary',
       keyTopics: ['conversation', 'language practice'],
@@ -442,12 +2116,13 @@ export class OpenAIService {
         strengths: [],
         areasForImprovement: []
       },
-      conversationType: 'general',
+      conversationType,
       learningProgress: {
         vocabularyProgress: 'Not assessed',
         grammarProgress: 'Not assessed',
         fluencyProgress: 'Not assessed'
-      }
+      },
+      degraded: true
     };
   }
 }
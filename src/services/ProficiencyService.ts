@@ -0,0 +1,92 @@
+import { createClient } from '@supabase/supabase-js';
+import { ConversationAnalysis, ProficiencyRecord } from '../types/index.js';
+
+// Estimates returned by getHistory when no limit is given
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Proficiency estimates stored per analyzed conversation, for charting progress over time
+ */
+export class ProficiencyService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Store the proficiency estimate of an analysis
+   * A conversation has one estimate, analyzing it again replaces it. Degraded analyses carry
+   * no estimate and are skipped; failures are logged, not thrown, so they never fail the
+   * analysis request
+   */
+  async recordEstimate(userId: string, analysis: ConversationAnalysis, conversationId?: string): Promise<void> {
+    if (!analysis.proficiency || analysis.degraded) {
+      return;
+    }
+
+    try {
+      const row = {
+        user_id: userId,
+        conversation_id: conversationId ?? null,
+        conversation_type: analysis.conversationType,
+        prompt_id: analysis.promptId ?? null,
+        cefr_level: analysis.proficiency.cefrLevel,
+        vocabulary_score: analysis.proficiency.vocabulary,
+        grammar_score: analysis.proficiency.grammar,
+        fluency_score: analysis.proficiency.fluency,
+        confidence: analysis.proficiency.confidence
+      };
+      const { error } = conversationId
+        ? await this.supabase.from('proficiency_estimates').upsert(row, { onConflict: 'user_id,conversation_id' })
+        : await this.supabase.from('proficiency_estimates').insert(row);
+
+      if (error) {
+        console.error('❌ Failed to store proficiency estimate:', error);
+      }
+    } catch (error) {
+      console.error('❌ Proficiency storage error:', error);
+    }
+  }
+
+  /**
+   * Get a user's most recent estimates, oldest first
+   */
+  async getHistory(userId: string, limit: number = DEFAULT_HISTORY_LIMIT): Promise<ProficiencyRecord[]> {
+    const { data, error } = await this.supabase
+      .from('proficiency_estimates')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch proficiency estimates: ${error.message}`);
+    }
+
+    return (data || []).reverse().map((row: any) => ({
+      id: row.id,
+      userId: row.user_id,
+      conversationId: row.conversation_id ?? undefined,
+      conversationType: row.conversation_type,
+      promptId: row.prompt_id ?? undefined,
+      cefrLevel: row.cefr_level,
+      vocabulary: row.vocabulary_score,
+      grammar: row.grammar_score,
+      fluency: row.fluency_score,
+      confidence: row.confidence,
+      createdAt: row.created_at
+    }));
+  }
+}
+
+// Export singleton instance
+export const proficiencyService = new ProficiencyService();
+export default proficiencyService;
@@ -0,0 +1,387 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { cacheService } from '../utils/cache.js';
+import { NotFoundError, TemplateError, ValidationError } from '../utils/errors.js';
+import { getTemplateVariables, renderTemplate, validateTemplate } from '../utils/template.js';
+import { normalizeLocale } from '../utils/locale.js';
+import { AnalysisPrompt, PromptContext, PromptPreview, PromptType } from '../types/index.js';
+
+const PROFILE_VARIABLES = [
+  'native_language', 'practice_languages', 'level', 'learning_goals', 'interface_language', 'first_name'
+];
+
+const CONVERSATION_VARIABLES = [
+  ...PROFILE_VARIABLES, 'study_topic', 'study_topic_context', 'conversation_text', 'learner_history'
+];
+
+// Variables available to prompt templates, by the context each prompt type is rendered with
+export const PROMPT_VARIABLES_BY_TYPE: Record<PromptType, string[]> = {
+  study_plan: CONVERSATION_VARIABLES,
+  general: CONVERSATION_VARIABLES,
+  practice: CONVERSATION_VARIABLES,
+  vocabulary_practice: [
+    ...PROFILE_VARIABLES, 'conversation_text', 'word_list_title', 'word_list_topic', 'word_list_words',
+    'vocabulary_words', 'learner_history'
+  ],
+  exercises: [
+    ...PROFILE_VARIABLES, 'common_mistakes', 'areas_for_improvement', 'exercise_count', 'exercise_types'
+  ]
+};
+
+// Variables without a value for some conversations, e.g. no study topic
+export const OPTIONAL_PROMPT_VARIABLES = ['study_topic'];
+
+// Context used to preview templates, request values override it
+const SAMPLE_PROMPT_CONTEXT: PromptContext = {
+  native_language: 'English',
+  practice_languages: ['Spanish'],
+  level: 'Intermediate',
+  learning_goals: 'Travel conversation',
+  interface_language: 'en',
+  first_name: 'Alex',
+  study_topic: { title: 'Ordering food', description: 'Restaurant vocabulary and polite requests' },
+  study_topic_context: '\n\nSTUDY TOPIC CONTEXT:\nThe conversation was focused on: "Ordering food"\nDescription: Restaurant vocabulary and polite requests',
+  conversation_text: 'USER: Quisiera una mesa para dos, por favor.\n\nASSISTANT: ¡Claro! ¿Prefiere dentro o en la terraza?',
+  word_list_title: 'At the restaurant',
+  word_list_topic: 'Food',
+  word_list_words: [{ word: 'mesa', translation: 'table' }, { word: 'cuenta', translation: 'bill' }],
+  vocabulary_words: 'mesa, cuenta',
+  common_mistakes: ['ser vs estar', 'Gender agreement'],
+  areas_for_improvement: ['Past tense'],
+  exercise_count: 6,
+  exercise_types: ['fill_in_blank', 'multiple_choice', 'sentence_transformation'],
+  learner_history: 'Previous conversations analyzed: 3\nRecurring mistakes: ser vs estar (2x)\nStrengths: Polite requests (3x)\nInterests: Travel (2x)\nLatest proficiency estimate: A2'
+};
+
+const PromptTypeSchema = z.enum(['study_plan', 'general', 'practice', 'vocabulary_practice', 'exercises']);
+
+const PromptSettingsSchema = z.object({
+  promptTemplate: z.string().min(1, 'promptTemplate cannot be empty'),
+  variables: z.array(z.string().min(1)),
+  description: z.string().max(1000).optional(),
+  model: z.string().min(1).nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  maxTokens: z.number().int().positive().nullable().optional(),
+  systemPrompt: z.string().min(1).nullable().optional()
+});
+
+export const CreatePromptRequestSchema = PromptSettingsSchema.extend({
+  promptName: z.string().min(1, 'promptName cannot be empty').max(200),
+  conversationType: PromptTypeSchema,
+  // Stored as the prompt locale chain spells it, so "pt_br" is found for pt-BR learners
+  languageCode: z.string().min(2).max(10).transform(normalizeLocale)
+});
+
+export const CreatePromptVersionRequestSchema = PromptSettingsSchema.partial();
+
+export const PreviewPromptRequestSchema = z.object({
+  promptId: z.string().min(1).optional(),
+  promptTemplate: z.string().min(1).optional(),
+  variables: z.array(z.string().min(1)).optional(),
+  conversationType: PromptTypeSchema.optional(),
+  context: z.record(z.unknown()).optional()
+})
+  .refine(data => !!data.promptId !== !!data.promptTemplate, {
+    message: 'Provide either promptId or promptTemplate',
+    path: ['promptTemplate']
+  })
+  .refine(data => !data.promptTemplate || !!data.variables, {
+    message: 'variables are required with promptTemplate',
+    path: ['variables']
+  })
+  .refine(data => !data.promptTemplate || !!data.conversationType, {
+    message: 'conversationType is required with promptTemplate',
+    path: ['conversationType']
+  });
+
+export const ActivatePromptRequestSchema = z.object({
+  trafficWeight: z.number().positive().optional()
+});
+
+export const ListPromptsQuerySchema = z.object({
+  conversationType: PromptTypeSchema.optional(),
+  languageCode: z.string().optional(),
+  active: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true')
+});
+
+export type CreatePromptRequest = z.infer<typeof CreatePromptRequestSchema>;
+export type CreatePromptVersionRequest = z.infer<typeof CreatePromptVersionRequestSchema>;
+export type PreviewPromptRequest = z.infer<typeof PreviewPromptRequestSchema>;
+export type ListPromptsQuery = z.infer<typeof ListPromptsQuerySchema>;
+
+/**
+ * Analysis prompt management
+ * Versions are immutable rows of analysis_prompts; changes create a new version
+ */
+export class PromptService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * List prompts, newest first
+   */
+  async listPrompts(filters: ListPromptsQuery = {}): Promise<AnalysisPrompt[]> {
+    let query = this.supabase
+      .from('analysis_prompts')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (filters.conversationType) {
+      query = query.eq('conversation_type', filters.conversationType);
+    }
+
+    if (filters.languageCode) {
+      query = query.eq('language_code', filters.languageCode);
+    }
+
+    if (filters.active !== undefined) {
+      query = query.eq('is_active', filters.active);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list prompts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a prompt by id
+   */
+  async getPrompt(promptId: string): Promise<AnalysisPrompt> {
+    const { data, error } = await this.supabase
+      .from('analysis_prompts')
+      .select('*')
+      .eq('id', promptId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Prompt not found: ${promptId}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Create the first, inactive version of a new prompt
+   */
+  async createPrompt(request: CreatePromptRequest): Promise<AnalysisPrompt> {
+    this.assertValidTemplate(request.promptTemplate, request.variables, request.conversationType);
+
+    const { data: existing } = await this.supabase
+      .from('analysis_prompts')
+      .select('id')
+      .eq('prompt_name', request.promptName)
+      .eq('conversation_type', request.conversationType)
+      .eq('language_code', request.languageCode)
+      .limit(1);
+
+    if (existing?.length) {
+      throw new ValidationError(
+        `Prompt "${request.promptName}" already exists, create a new version instead`,
+        'promptName'
+      );
+    }
+
+    const prompt = await this.insertPrompt({
+      prompt_name: request.promptName,
+      prompt_version: '1',
+      conversation_type: request.conversationType,
+      language_code: request.languageCode,
+      prompt_template: request.promptTemplate,
+      variables: request.variables,
+      description: request.description,
+      model: request.model ?? null,
+      temperature: request.temperature ?? null,
+      max_tokens: request.maxTokens ?? null,
+      system_prompt: request.systemPrompt ?? null,
+      is_active: false
+    });
+
+    cacheService.invalidateAnalysisScope(prompt.conversation_type, prompt.language_code);
+    return prompt;
+  }
+
+  /**
+   * Create a new, inactive version of a prompt from an existing version and the given changes
+   */
+  async createVersion(promptId: string, changes: CreatePromptVersionRequest): Promise<AnalysisPrompt> {
+    const base = await this.getPrompt(promptId);
+
+    const promptTemplate = changes.promptTemplate ?? base.prompt_template;
+    const variables = changes.variables ?? getDeclaredVariables(base);
+    this.assertValidTemplate(promptTemplate, variables, base.conversation_type as PromptType);
+
+    const { data: versions, error } = await this.supabase
+      .from('analysis_prompts')
+      .select('prompt_version')
+      .eq('prompt_name', base.prompt_name)
+      .eq('conversation_type', base.conversation_type)
+      .eq('language_code', base.language_code);
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt versions: ${error.message}`);
+    }
+
+    const latestVersion = (versions || []).reduce(
+      (latest: number, row: { prompt_version: string }) => Math.max(latest, parseInt(row.prompt_version, 10) || 0),
+      0
+    );
+
+    const prompt = await this.insertPrompt({
+      prompt_name: base.prompt_name,
+      prompt_version: String(latestVersion + 1),
+      conversation_type: base.conversation_type,
+      language_code: base.language_code,
+      prompt_template: promptTemplate,
+      variables,
+      description: changes.description ?? base.description,
+      model: changes.model !== undefined ? changes.model : base.model ?? null,
+      temperature: changes.temperature !== undefined ? changes.temperature : base.temperature ?? null,
+      max_tokens: changes.maxTokens !== undefined ? changes.maxTokens : base.max_tokens ?? null,
+      system_prompt: changes.systemPrompt !== undefined ? changes.systemPrompt : base.system_prompt ?? null,
+      is_active: false
+    });
+
+    cacheService.invalidateAnalysisScope(prompt.conversation_type, prompt.language_code);
+    return prompt;
+  }
+
+  /**
+   * Render a stored or draft template against the sample context of its prompt type
+   */
+  async previewPrompt(request: PreviewPromptRequest): Promise<PromptPreview> {
+    const stored = request.promptId ? await this.getPrompt(request.promptId) : null;
+    const template = stored?.prompt_template ?? request.promptTemplate ?? '';
+    const variables = stored ? getDeclaredVariables(stored) : request.variables ?? [];
+    const conversationType = (stored?.conversation_type ?? request.conversationType) as PromptType;
+
+    this.assertValidTemplate(template, variables, conversationType);
+
+    // Only the variables the prompt type is rendered with, so the preview fails where production would
+    const sampleContext = Object.fromEntries(
+      Object.entries(SAMPLE_PROMPT_CONTEXT).filter(([name]) => PROMPT_VARIABLES_BY_TYPE[conversationType].includes(name))
+    );
+    const context = { ...sampleContext, ...request.context };
+
+    try {
+      return {
+        prompt: renderTemplate(template, context),
+        variables,
+        context
+      };
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new ValidationError(
+          'Prompt template could not be rendered',
+          'context',
+          error.issues.map(issue => ({ field: 'context', message: issue }))
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Activate a prompt version
+   *
+   * Without a traffic weight the version replaces every other active version of its
+   * conversation type and language. With a traffic weight the version joins a prompt
+   * experiment. Both happen in the activate_prompt_version database function, in one
+   * transaction that serializes activations of the same type and language.
+   */
+  async activatePrompt(promptId: string, trafficWeight?: number): Promise<AnalysisPrompt> {
+    const prompt = await this.getPrompt(promptId);
+    this.assertValidTemplate(prompt.prompt_template, getDeclaredVariables(prompt), prompt.conversation_type as PromptType);
+
+    const { data, error } = await this.supabase
+      .rpc('activate_prompt_version', { p_prompt_id: prompt.id, p_traffic_weight: trafficWeight ?? null })
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to activate prompt: ${error.message}`);
+    }
+
+    cacheService.invalidateAnalysisScope(prompt.conversation_type, prompt.language_code);
+    console.log(`📝 Activated prompt: ${prompt.prompt_name} v${prompt.prompt_version}`);
+    return data;
+  }
+
+  /**
+   * Validate a template against its declared variables, failing with the issues as details
+   */
+  private assertValidTemplate(template: string, variables: string[], conversationType: PromptType): void {
+    const issues = validatePromptTemplate(template, variables, conversationType);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        'Invalid prompt template',
+        'promptTemplate',
+        issues.map(issue => ({ field: 'promptTemplate', message: issue }))
+      );
+    }
+  }
+
+  private async insertPrompt(row: Omit<AnalysisPrompt, 'id'>): Promise<AnalysisPrompt> {
+    const { data, error } = await this.supabase
+      .from('analysis_prompts')
+      .insert(row)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save prompt: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Get the variables a prompt declares
+ * Rows stored before prompts declared variables have none, they are read from the template
+ */
+export function getDeclaredVariables(prompt: Pick<AnalysisPrompt, 'prompt_template' | 'variables'>): string[] {
+  if (prompt.variables) {
+    return prompt.variables;
+  }
+
+  try {
+    return getTemplateVariables(prompt.prompt_template);
+  } catch (error) {
+    // Syntax errors are reported when the template is validated
+    if (error instanceof TemplateError) return [];
+    throw error;
+  }
+}
+
+/**
+ * Validate a template against its declared variables and the context its prompt type is rendered with
+ */
+export function validatePromptTemplate(template: string, variables: string[], conversationType: PromptType): string[] {
+  const knownVariables = PROMPT_VARIABLES_BY_TYPE[conversationType];
+  if (!knownVariables) {
+    return [`Unknown prompt type "${conversationType}"`];
+  }
+
+  return validateTemplate(template, variables, knownVariables, OPTIONAL_PROMPT_VARIABLES);
+}
+
+// Export singleton instance
+export const promptService = new PromptService();
+export default promptService;
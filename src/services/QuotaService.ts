@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { parseJsonEnv } from '../utils/env.js';
+import { RateLimitError } from '../utils/errors.js';
+import { QuotaAllowance, QuotaLimits, QuotaMetric, QuotaPeriod, QuotaStatus } from '../types/index.js';
+
+/**
+ * Plan budgets; QUOTA_PLANS (JSON, same shape) overrides or adds plans
+ */
+export const DEFAULT_QUOTA_PLANS: Record<string, QuotaLimits> = {
+  free: {
+    daily: { tokens: 100000, characters: 10000, emails: 20 },
+    monthly: { tokens: 1000000, characters: 100000, emails: 200 }
+  },
+  pro: {
+    daily: { tokens: 1000000, characters: 100000, emails: 100 },
+    monthly: { tokens: 20000000, characters: 1000000, emails: 2000 }
+  }
+};
+
+// Plan of users without a user_quotas row
+const DEFAULT_PLAN = 'free';
+
+// API key requests run as the system user, which has no quota
+const SYSTEM_USER_ID = 'system';
+
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+const METRICS: QuotaMetric[] = ['tokens', 'characters', 'emails'];
+
+const QuotaLimitsSchema = z.object(Object.fromEntries(PERIODS.map(period => [
+  period,
+  z.object(Object.fromEntries(METRICS.map(metric => [metric, z.number().int().nonnegative().optional()]))).strict().optional()
+]))).strict();
+
+const QuotaPlansSchema = z.record(QuotaLimitsSchema)
+  .transform((overrides): Record<string, QuotaLimits> => ({ ...DEFAULT_QUOTA_PLANS, ...overrides }));
+
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  tokens: 'AI token',
+  characters: 'text-to-speech character',
+  emails: 'email'
+};
+
+/**
+ * Per-user budgets for external API usage, enforced before requests are made
+ * Usage is read from api_usage; a user's plan and individual limits come from user_quotas
+ */
+export class QuotaService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Get a user's remaining allowance for every budgeted period and metric
+   */
+  async getStatus(userId: string, now: Date = new Date()): Promise<QuotaStatus> {
+    const { plan, limits } = await this.getLimits(userId);
+    const periodStarts: Record<QuotaPeriod, Date> = {
+      daily: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+      monthly: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+    };
+    const periodEnds: Record<QuotaPeriod, Date> = {
+      daily: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+      monthly: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+    };
+
+    const used = await Promise.all(PERIODS.map(period => this.getUsage(userId, periodStarts[period])));
+
+    const allowances: QuotaAllowance[] = [];
+    PERIODS.forEach((period, index) => {
+      for (const metric of METRICS) {
+        const limit = limits[period]?.[metric];
+        if (limit === undefined) continue;
+
+        allowances.push({
+          period,
+          metric,
+          limit,
+          used: used[index][metric],
+          remaining: Math.max(0, limit - used[index][metric]),
+          resetsAt: periodEnds[period].toISOString()
+        });
+      }
+    });
+
+    return { userId, plan, allowances };
+  }
+
+  /**
+   * Fail with RateLimitError when a budget of the metric is exhausted, or too small for the
+   * requested amount when it is known up front (e.g. text-to-speech characters)
+   * Requests without a user and system requests are not limited
+   */
+  async assertWithinQuota(
+    userId: string | undefined,
+    metric: QuotaMetric,
+    requested: number = 0,
+    now: Date = new Date()
+  ): Promise<void> {
+    if (!userId || userId === SYSTEM_USER_ID) {
+      return;
+    }
+
+    const status = await this.getStatus(userId, now);
+    const exceeded = status.allowances.find(allowance =>
+      allowance.metric === metric && (allowance.remaining <= 0 || requested > allowance.remaining)
+    );
+
+    if (exceeded) {
+      const period = exceeded.period === 'daily' ? 'Daily' : 'Monthly';
+      console.warn(`🚫 ${period} ${metric} quota exceeded for user ${userId}`);
+      throw new RateLimitError(
+        `${period} ${METRIC_LABELS[metric]} quota exceeded: ${exceeded.used} of ${exceeded.limit} used` +
+        `${requested > 0 ? `, ${requested} requested` : ''}. Resets at ${exceeded.resetsAt}`
+      );
+    }
+  }
+
+  /**
+   * Sum a user's usage since a point in time
+   * Added up by the api_usage_totals database function, a user's raw rows can exceed the
+   * number of rows a query returns
+   */
+  private async getUsage(userId: string, since: Date): Promise<Record<QuotaMetric, number>> {
+    const { data, error } = await this.supabase
+      .rpc('api_usage_totals', { p_user_id: userId, p_since: since.toISOString() })
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch usage: ${error.message}`);
+    }
+
+    return {
+      tokens: Number(data?.tokens_used) || 0,
+      characters: Number(data?.characters_used) || 0,
+      emails: Number(data?.emails_used) || 0
+    };
+  }
+
+  /**
+   * Resolve a user's plan and limits, with individual limits applied over the plan's
+   */
+  private async getLimits(userId: string): Promise<{ plan: string; limits: QuotaLimits }> {
+    const { data, error } = await this.supabase
+      .from('user_quotas')
+      .select('plan, limits')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch user quota: ${error.message}`);
+    }
+
+    const plans = getQuotaPlans();
+    const plan = data?.plan && plans[data.plan] ? data.plan : DEFAULT_PLAN;
+    const overrides: QuotaLimits = data?.limits || {};
+
+    return {
+      plan,
+      limits: {
+        daily: { ...plans[plan]?.daily, ...overrides.daily },
+        monthly: { ...plans[plan]?.monthly, ...overrides.monthly }
+      }
+    };
+  }
+}
+
+/**
+ * Get the plan budgets, with QUOTA_PLANS applied over the defaults
+ */
+export function getQuotaPlans(): Record<string, QuotaLimits> {
+  return parseJsonEnv('QUOTA_PLANS', QuotaPlansSchema, DEFAULT_QUOTA_PLANS);
+}
+
+// Export singleton instance
+export const quotaService = new QuotaService();
+export default quotaService;
@@ -1,4 +1,5 @@
 import { Resend } from 'resend';
+import { z } from 'zod';
 import { createClient } from '@supabase/supabase-js';
 import { cacheService } from '../utils/cache.js';
 import { loggingService } from '../utils/logging.js';
@@ -7,9 +8,76 @@ import {
   StudentInvitationData,
   TeacherInvitationData,
   ContactData,
-  WelcomeData
+  WelcomeData,
+  ModerationAlertData
 } from '../types/index.js';
-import { ExternalAPIError, ValidationError } from '../utils/errors.js';
+import { ExternalAPIError, ValidationError, validateSchema } from '../utils/errors.js';
+import { quotaService } from './QuotaService.js';
+
+// Zod schemas for template data, one per email type
+const StudentInvitationDataSchema = z.object({
+  studentName: z.string().min(1),
+  teacherName: z.string().min(1),
+  invitationLink: z.string().url(),
+  language: z.string().min(1)
+});
+
+const TeacherInvitationDataSchema = z.object({
+  teacherName: z.string().min(1),
+  studentName: z.string().min(1),
+  invitationLink: z.string().url(),
+  language: z.string().min(1)
+});
+
+const ContactDataSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+  message: z.string().min(1),
+  subject: z.string().optional()
+});
+
+const WelcomeDataSchema = z.object({
+  userName: z.string().min(1),
+  language: z.string().min(1),
+  dashboardLink: z.string().url()
+});
+
+
+/**
+ * Email request schema discriminated by emailType
+ */
+export const EmailDataSchema = z.discriminatedUnion('emailType', [
+  z.object({
+    emailType: z.literal('student_invitation'),
+    to: z.string().email(),
+    data: StudentInvitationDataSchema
+  }),
+  z.object({
+    emailType: z.literal('teacher_invitation'),
+    to: z.string().email(),
+    data: TeacherInvitationDataSchema
+  }),
+  z.object({
+    emailType: z.literal('contact'),
+    to: z.string().email(),
+    data: ContactDataSchema
+  }),
+  z.object({
+    emailType: z.literal('welcome'),
+    to: z.string().email(),
+    data: WelcomeDataSchema
+  })
+]);
+
+// Internal template, kept out of EmailDataSchema so that /api/resend/send cannot send it
+const ModerationAlertEmailSchema = z.object({
+  to: z.string().email(),
+  data: z.object({
+    studentName: z.string().min(1),
+    categories: z.array(z.string().min(1)).min(1),
+    action: z.enum(['alert', 'block'])
+  })
+});
 
 /**
  * Resend Email Service for sending transactional emails
@@ -40,20 +108,41 @@ export class ResendService {
   /**
    * Send email using Resend
    */
-  async sendEmail(emailData: EmailData): Promise<{ id: string; status: string }> {
+  async sendEmail(emailData: EmailData, userId?: string): Promise<{ id: string; status: string }> {
+    // Validate email data and the sender's quota before any external call
+    validateSchema(EmailDataSchema, emailData, 'email data');
+    await quotaService.assertWithinQuota(userId, 'emails', 1);
+
+    return this.deliver(emailData, () => this.renderEmailTemplate(emailData.emailType, emailData.data), userId);
+  }
+
+  /**
+   * Email a learner's teacher about a moderation alert
+   */
+  async sendModerationAlert(to: string, data: ModerationAlertData): Promise<{ id: string; status: string }> {
+    validateSchema(ModerationAlertEmailSchema, { to, data }, 'moderation alert');
+
+    return this.deliver({ emailType: 'moderation_alert', to, data }, () => this.renderModerationAlert(data));
+  }
+
+  /**
+   * Render and send an email, logging the send and the API call
+   */
+  private async deliver(
+    emailData: { emailType: string; to: string; data: Record<string, any> },
+    render: () => { subject: string; text: string; html: string; tags: Array<{ name: string; value: string }> },
+    userId?: string
+  ): Promise<{ id: string; status: string }> {
     const startTime = Date.now();
-    
+
     try {
       console.log('📧 Resend Service: Sending email', { 
         type: emailData.emailType, 
         to: emailData.to 
       });
 
-      // Validate email data
-      this.validateEmailData(emailData.emailType, emailData.data);
-
       // Render email template
-      const renderedEmail = this.renderEmailTemplate(emailData.emailType, emailData.data);
+      const renderedEmail = render();
 
       // Send email via Resend
       const response = await this.resend.emails.send({
@@ -87,7 +176,9 @@ export class ResendService {
         },
         responseStatus: 200,
         responseBody: response.data,
-        duration
+        duration,
+        userId,
+        usage: { emails: 1 }
       });
 
       console.log('✅ Resend Service: Email sent successfully', response.data?.id);
@@ -104,6 +195,7 @@ export class ResendService {
         serviceName: 'resend',
         endpoint: 'https://api.resend.com/emails',
         method: 'POST',
+        userId,
         responseStatus: 500,
         duration,
         errorMessage: error instanceof Error ? error.message : 'Unknown error'
@@ -118,38 +210,6 @@ export class ResendService {
     }
   }
 
-  /**
-   * Validate email data for template
-   */
-  private validateEmailData(emailType: string, data: any): void {
-    const requiredFields = this.getRequiredFields(emailType);
-    const missingFields = requiredFields.filter(field => !data[field]);
-    
-    if (missingFields.length > 0) {
-      throw new ValidationError(
-        `Missing required fields for ${emailType}: ${missingFields.join(', ')}`
-      );
-    }
-  }
-
-  /**
-   * Get required fields for email type
-   */
-  private getRequiredFields(emailType: string): string[] {
-    switch (emailType) {
-      case 'student_invitation':
-        return ['studentName', 'teacherName', 'invitationLink', 'language'];
-      case 'teacher_invitation':
-        return ['teacherName', 'studentName', 'invitationLink', 'language'];
-      case 'contact':
-        return ['name', 'email', 'message'];
-      case 'welcome':
-        return ['userName', 'language', 'dashboardLink'];
-      default:
-        throw new ValidationError(`Unknown email type: ${emailType}`);
-    }
-  }
-
   /**
    * Render email template
    */
@@ -408,10 +468,68 @@ The iAlla Team
     };
   }
 
+  /**
+   * Render moderation alert email for a learner's teacher
+   */
+  private renderModerationAlert(data: ModerationAlertData): {
+    subject: string;
+    text: string;
+    html: string;
+    tags: Array<{ name: string; value: string }>;
+  } {
+    const subject = `A session of ${data.studentName} was flagged by moderation`;
+    const categories = data.categories.map(category => category.replace(/_/g, ' ')).join(', ');
+    const outcome = data.action === 'block' ? 'The request was blocked.' : 'The session was not interrupted.';
+
+    const text = `
+Hello,
+
+A recent session of ${data.studentName} on iAlla was flagged for: ${categories}. ${outcome}
+
+Please review the session with your student.
+
+Best regards,
+The iAlla Team
+    `.trim();
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${subject}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h2 style="color: #dc2626;">A session was flagged by moderation</h2>
+    
+    <p>Hello,</p>
+    
+    <p>A recent session of <strong>${data.studentName}</strong> on iAlla was flagged for: <strong>${categories}</strong>. ${outcome}</p>
+    
+    <p>Please review the session with your student.</p>
+    
+    <p>Best regards,<br>The iAlla Team</p>
+  </div>
+</body>
+</html>
+    `.trim();
+
+    return {
+      subject,
+      text,
+      html,
+      tags: [
+        { name: 'email_type', value: 'moderation_alert' },
+        { name: 'action', value: data.action }
+      ]
+    };
+  }
+
   /**
    * Log email send to Supabase
    */
-  private async logEmailSend(emailData: EmailData, resendId: string): Promise<void> {
+  private async logEmailSend(emailData: { emailType: string; to: string; data: Record<string, any> }, resendId: string): Promise<void> {
     try {
       await this.supabase.from('unified_logs').insert({
         event_category: 'system',
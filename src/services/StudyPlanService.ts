@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { openAIService, UserProfileSchema } from './OpenAIService.js';
+import { learnerProfileService, NO_LEARNER_HISTORY } from './LearnerProfileService.js';
+import { moderationService } from './ModerationService.js';
+import { NotFoundError } from '../utils/errors.js';
+import { StudyPlan } from '../types/index.js';
+
+export const CreateStudyPlanRequestSchema = z.object({
+  userProfile: UserProfileSchema,
+  practiceLanguage: z.string().min(1).optional(),
+  weeks: z.number().int().min(1).max(12).default(4),
+  sessionsPerWeek: z.number().int().min(1).max(7).default(3)
+}).refine(
+  request => !!request.practiceLanguage || !!request.userProfile.practice_languages?.length,
+  { message: 'practiceLanguage is required when the profile has no practice languages', path: ['practiceLanguage'] }
+);
+
+export const ListStudyPlansQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+export type CreateStudyPlanRequest = z.infer<typeof CreateStudyPlanRequestSchema>;
+export type ListStudyPlansQuery = z.infer<typeof ListStudyPlansQuerySchema>;
+
+/**
+ * Personalized study plans
+ * Plans are generated from the learner's profile and past analyses and stored in study_plans
+ */
+export class StudyPlanService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Generate and store a study plan for a user
+   */
+  async createPlan(userId: string, request: CreateStudyPlanRequest): Promise<StudyPlan> {
+    const practiceLanguage = request.practiceLanguage || request.userProfile.practice_languages![0];
+
+    // A plan without history is still useful, don't fail on the lookup
+    const learnerHistory = await learnerProfileService.getPromptHistory(userId).catch(error => {
+      console.warn('⚠️ Failed to load learner history for study plan:', error);
+      return NO_LEARNER_HISTORY;
+    });
+
+    const plan = await openAIService.generateStudyPlan(request.userProfile, {
+      practiceLanguage,
+      weeks: request.weeks,
+      sessionsPerWeek: request.sessionsPerWeek,
+      learnerHistory
+    }, userId);
+
+    // Generated plans are screened before they are stored and shown
+    await moderationService.moderateOutput(plan, { userId, path: 'study_plan' });
+
+    const { data, error } = await this.supabase
+      .from('study_plans')
+      .insert({
+        user_id: userId,
+        title: plan.title,
+        practice_language: practiceLanguage,
+        weeks: plan.weeks
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save study plan: ${error.message}`);
+    }
+
+    console.log(`🗓️ Created ${plan.weeks.length}-week study plan for user ${userId}`);
+    return toStudyPlan(data);
+  }
+
+  /**
+   * List a user's study plans, newest first
+   */
+  async listPlans(userId: string, query: ListStudyPlansQuery): Promise<StudyPlan[]> {
+    const { data, error } = await this.supabase
+      .from('study_plans')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(query.limit);
+
+    if (error) {
+      throw new Error(`Failed to list study plans: ${error.message}`);
+    }
+
+    return (data || []).map(toStudyPlan);
+  }
+
+  /**
+   * Get one of a user's study plans
+   */
+  async getPlan(userId: string, planId: string): Promise<StudyPlan> {
+    const { data, error } = await this.supabase
+      .from('study_plans')
+      .select('*')
+      .eq('id', planId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch study plan: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError(`Study plan not found: ${planId}`);
+    }
+
+    return toStudyPlan(data);
+  }
+}
+
+function toStudyPlan(row: any): StudyPlan {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    practiceLanguage: row.practice_language,
+    weeks: row.weeks,
+    createdAt: row.created_at
+  };
+}
+
+// Export singleton instance
+export const studyPlanService = new StudyPlanService();
+export default studyPlanService;
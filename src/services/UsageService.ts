@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { ValidationError } from '../utils/errors.js';
+import { UsageReport, UsageReportRow } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days covered by a report without a from date
+const DEFAULT_REPORT_DAYS = 30;
+
+const MAX_REPORT_DAYS = 366;
+
+// Report rows fetched per request, the most the API returns at once
+const REPORT_PAGE_SIZE = 1000;
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+export const UsageReportQuerySchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  userId: z.string().min(1).optional(),
+  service: z.enum(['openai', 'openai_compatible', 'stub', 'elevenlabs', 'resend']).optional()
+});
+
+export type UsageReportQuery = z.infer<typeof UsageReportQuerySchema>;
+
+/**
+ * Cost reports over the usage stored in api_usage by the logging service
+ */
+export class UsageService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Break down usage and cost by user, service and day (UTC), both dates included
+   * Defaults to the last 30 days
+   */
+  async getReport(query: UsageReportQuery, now: Date = new Date()): Promise<UsageReport> {
+    const to = query.to || now.toISOString().slice(0, 10);
+    const from = query.from || new Date(Date.parse(to) - (DEFAULT_REPORT_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+    const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+
+    if (!Number.isFinite(days) || days < 1) {
+      throw new ValidationError('from must be a date before to', 'from');
+    }
+    if (days > MAX_REPORT_DAYS) {
+      throw new ValidationError(`Reports cover at most ${MAX_REPORT_DAYS} days`, 'from');
+    }
+
+    const groups = await this.fetchReportRows(query, `${from}T00:00:00.000Z`, new Date(Date.parse(to) + DAY_MS).toISOString());
+
+    const rows: UsageReportRow[] = groups.map((group: any) => ({
+      userId: group.user_id ?? null,
+      service: group.service_name,
+      day: String(group.day).slice(0, 10),
+      calls: Number(group.calls) || 0,
+      promptTokens: Number(group.prompt_tokens) || 0,
+      completionTokens: Number(group.completion_tokens) || 0,
+      characters: Number(group.characters) || 0,
+      emails: Number(group.emails) || 0,
+      costUsd: Number(group.cost_usd) || 0
+    }));
+
+    // Round once per row so that sums of stored costs don't drift
+    const sorted = rows
+      .map(row => ({ ...row, costUsd: roundCost(row.costUsd) }))
+      .sort((a, b) =>
+        a.day.localeCompare(b.day) || (a.userId ?? '').localeCompare(b.userId ?? '') || a.service.localeCompare(b.service)
+      );
+
+    return {
+      from,
+      to,
+      totalCostUsd: roundCost(sorted.reduce((total, row) => total + row.costUsd, 0)),
+      rows: sorted
+    };
+  }
+
+  /**
+   * Fetch usage grouped by user, service and day with the api_usage_report database function
+   * Fetched page by page, since a long report can have more groups than one request returns
+   */
+  private async fetchReportRows(query: UsageReportQuery, from: string, to: string): Promise<any[]> {
+    const groups: any[] = [];
+
+    for (let offset = 0; ; offset += REPORT_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .rpc('api_usage_report', {
+          p_from: from,
+          p_to: to,
+          p_user_id: query.userId ?? null,
+          p_service: query.service ?? null
+        })
+        .range(offset, offset + REPORT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch usage: ${error.message}`);
+      }
+
+      groups.push(...(data || []));
+      if ((data || []).length < REPORT_PAGE_SIZE) {
+        return groups;
+      }
+    }
+  }
+}
+
+function roundCost(cost: number): number {
+  return Number(cost.toFixed(6));
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
+export default usageService;
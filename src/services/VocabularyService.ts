@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { getDueDate, INITIAL_SCHEDULE, scheduleReview } from '../utils/spacedRepetition.js';
+import { VocabularyContext, WordOutcome } from '../types/index.js';
+
+export const DueWordsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+export type DueWordsQuery = z.infer<typeof DueWordsQuerySchema>;
+
+/**
+ * Vocabulary mastery per user
+ * vocabulary_reviews holds one row per user and word with its SM-2 schedule
+ */
+export class VocabularyService {
+  private supabase: any;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey);
+  }
+
+  /**
+   * Reschedule the words a learner used in a practice session
+   * Outcomes of a conversation are applied once, analyzing it again leaves the schedule as it
+   * is. Unused words keep their schedule; failures are logged, not thrown, so they never fail
+   * the analysis request
+   */
+  async recordOutcomes(
+    userId: string,
+    vocabularyContext: VocabularyContext,
+    outcomes: WordOutcome[],
+    conversationId?: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const graded = outcomes.filter(
+      (outcome): outcome is WordOutcome & { outcome: 'correct' | 'incorrect' } => outcome.outcome !== 'not_used'
+    );
+    if (graded.length === 0) {
+      return;
+    }
+
+    try {
+      if (conversationId && !(await this.claimSession(userId, conversationId))) {
+        console.log(`📚 Outcomes of conversation ${conversationId} were already applied`);
+        return;
+      }
+
+      try {
+        await this.applyOutcomes(userId, vocabularyContext, graded, now);
+      } catch (error) {
+        // Release the session so that analyzing the conversation again can apply its outcomes
+        if (conversationId) {
+          await this.supabase
+            .from('vocabulary_review_sessions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('conversation_id', conversationId);
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('❌ Failed to store vocabulary outcomes:', error);
+    }
+  }
+
+  /**
+   * Get the words due for review, most overdue first, as a VocabularyContext for the next session
+   */
+  async getDueWords(userId: string, query: DueWordsQuery, now: Date = new Date()): Promise<VocabularyContext> {
+    const { data, error } = await this.supabase
+      .from('vocabulary_reviews')
+      .select('word, translation, due_at')
+      .eq('user_id', userId)
+      .lte('due_at', now.toISOString())
+      .order('due_at', { ascending: true })
+      .limit(query.limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch due words: ${error.message}`);
+    }
+
+    return {
+      word_list_title: 'Words due for review',
+      word_list_topic: 'Review',
+      word_list_words: (data || []).map((row: any) => ({
+        word: row.word,
+        ...(row.translation && { translation: row.translation })
+      }))
+    };
+  }
+  /**
+   * Record that a conversation's outcomes are being applied
+   * Returns false when they already were, the insert is skipped on the (user_id, conversation_id) key
+   */
+  private async claimSession(userId: string, conversationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('vocabulary_review_sessions')
+      .upsert({ user_id: userId, conversation_id: conversationId }, { onConflict: 'user_id,conversation_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  private async applyOutcomes(
+    userId: string,
+    vocabularyContext: VocabularyContext,
+    graded: Array<WordOutcome & { outcome: 'correct' | 'incorrect' }>,
+    now: Date
+  ): Promise<void> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('vocabulary_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .in('word', graded.map(outcome => outcome.word));
+
+    if (fetchError) {
+      throw new Error(fetchError.message);
+    }
+
+    const rows = graded.map(outcome => {
+      const current = (existing || []).find((row: any) => row.word === outcome.word);
+      const schedule = scheduleReview(current ? {
+        easeFactor: current.ease_factor,
+        intervalDays: current.interval_days,
+        repetitions: current.repetitions
+      } : INITIAL_SCHEDULE, outcome.outcome);
+      const listed = vocabularyContext.word_list_words.find(entry => entry.word === outcome.word);
+
+      return {
+        user_id: userId,
+        word: outcome.word,
+        translation: listed?.translation ?? current?.translation ?? null,
+        word_list_title: vocabularyContext.word_list_title,
+        ease_factor: schedule.easeFactor,
+        interval_days: schedule.intervalDays,
+        repetitions: schedule.repetitions,
+        correct_count: (current?.correct_count || 0) + (outcome.outcome === 'correct' ? 1 : 0),
+        incorrect_count: (current?.incorrect_count || 0) + (outcome.outcome === 'incorrect' ? 1 : 0),
+        last_outcome: outcome.outcome,
+        last_reviewed_at: now.toISOString(),
+        due_at: getDueDate(schedule.intervalDays, now).toISOString()
+      };
+    });
+
+    const { error } = await this.supabase
+      .from('vocabulary_reviews')
+      .upsert(rows, { onConflict: 'user_id,word' });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log(`📚 Rescheduled ${rows.length} word(s) for review`);
+  }
+}
+
+// Export singleton instance
+export const vocabularyService = new VocabularyService();
+export default vocabularyService;
@@ -18,6 +18,11 @@ export interface UserProfile {
   interface_language?: string;
 }
 
+export type ConversationType = 'study_plan' | 'general' | 'practice' | 'vocabulary_practice';
+
+// Prompt types stored in analysis_prompts: one per conversation type, plus exercise generation
+export type PromptType = ConversationType | 'exercises';
+
 export interface ConversationAnalysis {
   summary: string;
   keyTopics: string[];
@@ -29,14 +34,208 @@ export interface ConversationAnalysis {
     strengths: string[];
     areasForImprovement: string[];
   };
-  conversationType: 'study_plan' | 'general' | 'practice' | 'vocabulary_practice';
+  conversationType: ConversationType;
   learningProgress: {
     vocabularyProgress: string;
     grammarProgress: string;
     fluencyProgress: string;
   };
+  proficiency?: ProficiencyEstimate; // Missing on degraded analyses
+  wordOutcomes?: WordOutcome[]; // Vocabulary practice only, missing when extraction failed
+  promptId?: string; // Prompt that produced the analysis, for comparing experiment versions
+  promptVersion?: string;
+  promptLocale?: string; // Language of the prompt, a fallback when none exists for the interface language
+  degraded?: boolean; // True when the fallback analysis was returned
+  cached?: boolean; // True when an earlier analysis of the same conversation was returned
+}
+
+// Proficiency Types
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface ProficiencyEstimate {
+  cefrLevel: CefrLevel;
+  vocabulary: number; // 0-100
+  grammar: number; // 0-100
+  fluency: number; // 0-100
+  confidence: number; // 0-1, low for short or one-sided conversations
+}
+
+export interface ProficiencyRecord extends ProficiencyEstimate {
+  id: string;
+  userId: string;
+  conversationId?: string;
+  conversationType: ConversationType;
+  promptId?: string;
+  createdAt: string;
+}
+
+// Vocabulary Types
+export type WordOutcomeResult = 'correct' | 'incorrect' | 'not_used';
+
+export interface WordOutcome {
+  word: string;
+  outcome: WordOutcomeResult;
+  note?: string; // What went wrong, for incorrect uses
+}
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Consecutive correct reviews
+}
+
+// Study Plan Types
+export interface StudyPlanTopic extends StudyTopic {
+  objectives: string[];
+}
+
+export interface StudyPlanWeek {
+  week: number; // 1-based
+  focus: string;
+  topics: StudyPlanTopic[];
+}
+
+export interface StudyPlan {
+  id: string;
+  userId: string;
+  title: string;
+  practiceLanguage: string;
+  weeks: StudyPlanWeek[];
+  createdAt: string;
+}
+
+// Exercise Types
+export type ExerciseType = 'fill_in_blank' | 'multiple_choice' | 'sentence_transformation';
+
+// Exercise as shown to the learner, without the answer key
+export interface Exercise {
+  id: string;
+  type: ExerciseType;
+  instructions: string;
+  prompt: string; // Fill-in-the-blank prompts mark the gap with ___
+  options?: string[]; // Multiple choice only
+  focus: string; // Mistake or area the exercise targets
+}
+
+export interface ExerciseWithAnswer extends Exercise {
+  answer: string;
+  acceptableAnswers?: string[];
+  explanation: string;
+}
+
+export interface ExerciseSet {
+  id: string;
+  userId: string;
+  practiceLanguage: string;
+  exercises: Exercise[];
+  createdAt: string;
+}
+
+export interface ExerciseResult {
+  exerciseId: string;
+  correct: boolean;
+  answer: string; // As given, empty when unanswered
+  expected: string;
+  explanation: string;
 }
 
+export interface ExerciseGrade {
+  setId: string;
+  correctCount: number;
+  total: number;
+  results: ExerciseResult[];
+}
+
+// Batch Analysis Job Types
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed';
+export type AnalysisJobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  userId: string;
+  status: AnalysisJobStatus;
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface AnalysisJobItem {
+  index: number; // Position in the submitted batch
+  conversationId?: string;
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  analysis?: ConversationAnalysis;
+  error?: string; // Last failure, kept while an item waits for a retry
+}
+
+export interface AnalysisJobResults {
+  job: AnalysisJob;
+  items: AnalysisJobItem[];
+}
+
+// Learner Profile Types
+export interface LearnerInsight {
+  text: string;
+  occurrences: number; // Number of analyses that mentioned it
+  lastSeenAt: string;
+}
+
+export interface LearnerProfile {
+  userId: string;
+  analysisCount: number;
+  firstAnalyzedAt?: string;
+  lastAnalyzedAt?: string;
+  recurringMistakes: LearnerInsight[];
+  areasForImprovement: LearnerInsight[];
+  strengths: LearnerInsight[];
+  interests: LearnerInsight[];
+  proficiency: ProficiencyRecord[]; // Oldest first
+}
+
+// Grammar Correction Types
+export type CorrectionCategory = 'tense' | 'agreement' | 'word_order' | 'lexical';
+
+export interface CorrectionSpan {
+  start: number; // Character offset in the original text
+  end: number; // Exclusive
+  text: string;
+  correction: string;
+  category: CorrectionCategory;
+  explanation: string; // In the user's interface language
+}
+
+export interface MessageCorrection {
+  messageIndex: number; // Index of the message in the request
+  original: string;
+  corrected: string;
+  errors: CorrectionSpan[];
+}
+
+export interface ConversationCorrections {
+  corrections: MessageCorrection[];
+  degraded?: boolean; // True when corrections could not be produced
+}
+
+export interface AnalysisOptions {
+  conversationType?: ConversationType; // Skips automatic detection when set
+  tokenBudget?: Partial<TokenBudget>;
+  userId?: string; // Keeps prompt experiment assignment sticky per user
+}
+
+export interface TokenBudget {
+  maxInputTokens: number; // Conversation tokens sent in a single request
+  chunkTokens: number; // Conversation tokens per chunk in map-reduce mode
+  maxChunks: number; // Most recent chunks analyzed in map-reduce mode
+  mode: 'auto' | 'single' | 'map_reduce'; // auto switches to map-reduce over maxInputTokens, single truncates
+}
+
+export type AnalysisStreamEvent =
+  | { type: 'summary'; delta: string }
+  | { type: 'analysis'; analysis: ConversationAnalysis };
+
 export interface StudyTopic {
   title: string;
   description?: string;
@@ -55,9 +254,67 @@ export interface AnalysisPrompt {
   conversation_type: string;
   language_code: string;
   prompt_template: string;
-  variables: string[];
+  // Null on rows stored before prompts declared their variables
+  variables: string[] | null;
   description?: string;
   is_active: boolean;
+  // Relative share of traffic when several versions are active, defaults to 1
+  traffic_weight?: number | null;
+  // Model settings, environment defaults apply when empty
+  model?: string | null;
+  temperature?: number | null;
+  max_tokens?: number | null;
+  system_prompt?: string | null;
+}
+
+// LLM Provider Types
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What a request is for, so providers and logs can tell requests apart
+export type LLMTask = 'analysis' | 'corrections' | 'vocabulary_outcomes' | 'study_plan' | 'exercises';
+
+export interface LLMRequest {
+  task?: LLMTask;
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  jsonMode?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly endpoint: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  // onUsage is called once the stream has finished, when the provider reports usage
+  stream(request: LLMRequest, onUsage?: (usage: LLMUsage) => void): AsyncIterable<string>;
+}
+
+export interface PromptPreview {
+  prompt: string;
+  variables: string[];
+  context: Record<string, unknown>;
+}
+
+export interface ModelConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string;
 }
 
 export interface PromptContext {
@@ -67,11 +324,18 @@ export interface PromptContext {
   learning_goals?: string;
   interface_language?: string;
   first_name?: string;
+  study_topic?: StudyTopic;
   study_topic_context?: string;
   conversation_text?: string;
   word_list_title?: string;
   word_list_topic?: string;
+  word_list_words?: VocabularyContext['word_list_words'];
   vocabulary_words?: string;
+  learner_history?: string;
+  common_mistakes?: string[];
+  areas_for_improvement?: string[];
+  exercise_count?: number;
+  exercise_types?: ExerciseType[];
 }
 
 // ElevenLabs Types
@@ -80,6 +344,7 @@ export interface ElevenLabsConversationRequest {
   agentId?: string;
   message?: string;
   conversationId?: string;
+  config?: Record<string, any>;
 }
 
 export interface ElevenLabsVoiceRequest {
@@ -127,6 +392,13 @@ export interface WelcomeData {
   dashboardLink: string;
 }
 
+// Sent to a learner's teachers, names the flagged categories but never the flagged text
+export interface ModerationAlertData {
+  studentName: string;
+  categories: string[];
+  action: 'alert' | 'block';
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -140,9 +412,15 @@ export interface ErrorResponse {
   error: string;
   message: string;
   code?: string;
+  details?: ValidationIssue[];
   timestamp: string;
 }
 
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
 // Authentication Types
 export interface AuthContext {
   userId: string;
@@ -176,12 +454,162 @@ export interface LogEntry {
   duration?: number;
   errorMessage?: string;
   timestamp: string;
+  // User the call was made for, and what it consumed; calls with usage are priced and stored per user
+  userId?: string;
+  usage?: UsageMetrics;
+}
+
+// Redaction Types
+export type PiiCategory = 'email' | 'phone' | 'address' | 'name';
+
+// Where text goes: an external service, or our own API call logs
+export type RedactionTarget = 'openai' | 'elevenlabs' | 'logs';
+
+// Categories masked for each target, an empty list turns redaction off
+export type RedactionPolicy = Record<RedactionTarget, PiiCategory[]>;
+
+// Placeholder, e.g. [NAME_1], to the text it replaced
+export type PlaceholderMap = Record<string, string>;
+
+export interface RedactedMessages {
+  messages: Message[];
+  placeholders: PlaceholderMap;
+}
+
+// Moderation Types
+export type ModerationCategory = 'sexual' | 'self_harm' | 'violence' | 'harassment' | 'hate';
+
+// log records the flag, alert also notifies the learner's teachers, block also refuses the request
+export type ModerationAction = 'log' | 'alert' | 'block';
+
+export type ModerationPolicy = Record<ModerationCategory, ModerationAction>;
+
+// Learner text, or text written by a model (the tutor's turns, agent replies)
+export type ModerationSource = 'user_message' | 'model_output';
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: ModerationCategory[];
+}
+
+export interface ModerationClassifier {
+  readonly name: string;
+  // One result per text, in the same order
+  classify(texts: string[]): Promise<ModerationResult[]>;
+}
+
+export interface ModerationInput {
+  source: ModerationSource;
+  text: string;
+  // Position of the message in the conversation, when the text is one
+  messageIndex?: number;
+}
+
+export interface ModerationFlag {
+  source: ModerationSource;
+  messageIndex?: number;
+  categories: ModerationCategory[];
+}
+
+export interface ModerationContext {
+  userId: string;
+  conversationId?: string;
+  // Path the content came through, e.g. "analysis" or "conversation"
+  path: string;
+}
+
+export interface ModerationOutcome {
+  flagged: boolean;
+  // Most severe action among the flagged categories, absent when nothing was flagged
+  action?: ModerationAction;
+  classifier: string;
+  flags: ModerationFlag[];
+}
+
+export type ModerationAlertStatus = 'open' | 'resolved';
+
+// Flagged session needing a teacher's attention, stored in moderation_alerts
+export interface ModerationAlert {
+  id: string;
+  userId: string;
+  conversationId?: string;
+  path: string;
+  action: ModerationAction;
+  categories: ModerationCategory[];
+  flags: ModerationFlag[];
+  classifier: string;
+  status: ModerationAlertStatus;
+  createdAt: string;
+}
+
+// Usage Types
+export type UsageServiceName = 'openai' | 'openai_compatible' | 'stub' | 'elevenlabs' | 'resend';
+
+// Billable units consumed by one external call
+export interface UsageMetrics {
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  characters?: number; // Text-to-speech
+  emails?: number;
+}
+
+// Prices in USD per 1,000 units
+export interface UsageRate {
+  promptTokens?: number;
+  completionTokens?: number;
+  characters?: number;
+  emails?: number;
+}
+
+// Keyed by service, or by "service:model" for model-specific prices
+export type RateTable = Record<string, UsageRate>;
+
+export interface UsageReportRow {
+  userId: string | null;
+  service: string;
+  day: string; // YYYY-MM-DD, UTC
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  characters: number;
+  emails: number;
+  costUsd: number;
+}
+
+// Quota Types
+export type QuotaMetric = 'tokens' | 'characters' | 'emails';
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// Budgets per period and metric, missing entries are unlimited
+export type QuotaLimits = Partial<Record<QuotaPeriod, Partial<Record<QuotaMetric, number>>>>;
+
+export interface QuotaAllowance {
+  period: QuotaPeriod;
+  metric: QuotaMetric;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+export interface QuotaStatus {
+  userId: string;
+  plan: string;
+  allowances: QuotaAllowance[];
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totalCostUsd: number;
+  rows: UsageReportRow[];
 }
 
 export interface ConversationEvent {
   userId: string;
   conversationId?: string;
-  logType: 'session_start' | 'message_exchange' | 'session_end' | 'analysis';
+  logType: 'session_start' | 'message_exchange' | 'session_end' | 'analysis' | 'moderation';
   serviceName: string;
   eventData: Record<string, any>;
   metadata: Record<string, any>;
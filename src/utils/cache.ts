@@ -88,15 +88,38 @@ class CacheService {
 
   /**
    * Generate cache key for OpenAI analysis
+   * A scope (see generateAnalysisScope) lets prompt changes invalidate related analyses
    */
-  generateOpenAIKey(messages: any[], userProfile: any, studyTopic?: any, vocabularyContext?: any): string {
+  generateOpenAIKey(
+    messages: any[],
+    userProfile: any,
+    studyTopic?: any,
+    vocabularyContext?: any,
+    options?: any,
+    scope: string = 'openai'
+  ): string {
     const content = JSON.stringify({
       messages: messages.map(m => ({ role: m.role, content: m.content })),
       userProfile,
       studyTopic,
-      vocabularyContext
+      vocabularyContext,
+      options
     });
-    return `openai:${this.hashString(content)}`;
+    return `${scope}:${this.hashString(content)}`;
+  }
+
+  /**
+   * Generate the key scope for analyses made with a conversation type's prompts
+   */
+  generateAnalysisScope(conversationType: string, languageCode: string): string {
+    return `openai:analysis:${conversationType}:${languageCode}`;
+  }
+
+  /**
+   * Invalidate cached analyses made with a conversation type's prompts
+   */
+  invalidateAnalysisScope(conversationType: string, languageCode: string): number {
+    return this.invalidatePattern(`^${this.generateAnalysisScope(conversationType, languageCode)}:`);
   }
 
   /**
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+/**
+ * JSON settings from environment variables
+ * Overrides such as USAGE_RATES or QUOTA_PLANS are JSON objects merged over built-in defaults
+ */
+
+/**
+ * Parse a JSON environment variable with a schema, the fallback applies when it is unset
+ * An invalid value is ignored with a warning rather than failing requests
+ */
+export function parseJsonEnv<T>(name: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, fallback: T): T {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return schema.parse(JSON.parse(value));
+  } catch (error) {
+    console.warn(`⚠️ Invalid ${name}, using defaults:`, error instanceof z.ZodError ? error.issues : error);
+    return fallback;
+  }
+}
@@ -1,4 +1,5 @@
-import { ErrorResponse } from '../types/index.js';
+import { ZodType } from 'zod';
+import { ErrorResponse, ValidationIssue } from '../types/index.js';
 
 /**
  * Custom error classes for API middlelayer
@@ -7,7 +8,11 @@ export class ValidationError extends Error {
   public readonly statusCode = 400;
   public readonly code = 'VALIDATION_ERROR';
 
-  constructor(message: string, public readonly field?: string) {
+  constructor(
+    message: string,
+    public readonly field?: string,
+    public readonly details?: ValidationIssue[]
+  ) {
     super(message);
     this.name = 'ValidationError';
   }
@@ -67,6 +72,19 @@ export class RateLimitError extends Error {
   }
 }
 
+export class ContentBlockedError extends Error {
+  public readonly statusCode = 422;
+  public readonly code = 'CONTENT_BLOCKED';
+
+  constructor(
+    message: string = 'Content blocked by moderation',
+    public readonly categories: string[] = []
+  ) {
+    super(message);
+    this.name = 'ContentBlockedError';
+  }
+}
+
 export class InternalServerError extends Error {
   public readonly statusCode = 500;
   public readonly code = 'INTERNAL_SERVER_ERROR';
@@ -77,6 +95,19 @@ export class InternalServerError extends Error {
   }
 }
 
+export class TemplateError extends Error {
+  public readonly statusCode = 500;
+  public readonly code = 'TEMPLATE_ERROR';
+
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'TemplateError';
+  }
+}
+
 /**
  * Error handler utility
  */
@@ -93,6 +124,7 @@ export class ErrorHandler {
         error: 'Validation Error',
         message: error.message,
         code: error.code,
+        ...(error.details && { details: error.details }),
         timestamp
       };
     }
@@ -142,6 +174,15 @@ export class ErrorHandler {
       };
     }
 
+    if (error instanceof ContentBlockedError) {
+      return {
+        error: 'Content Blocked',
+        message: error.message,
+        code: error.code,
+        timestamp
+      };
+    }
+
     // Default internal server error
     return {
       error: 'Internal Server Error',
@@ -161,6 +202,7 @@ export class ErrorHandler {
     if (error instanceof AuthenticationError) return 401;
     if (error instanceof AuthorizationError) return 403;
     if (error instanceof NotFoundError) return 404;
+    if (error instanceof ContentBlockedError) return 422;
     if (error instanceof RateLimitError) return 429;
     if (error instanceof ExternalAPIError) return 502;
     return 500;
@@ -225,7 +267,10 @@ export function asyncHandler(fn: Function) {
         userAgent: req.headers['user-agent']
       });
 
-      res.status(statusCode).json(body);
+      // Middleware (e.g. authentication) may already have sent a response
+      if (!res.headersSent) {
+        res.status(statusCode).json(body);
+      }
     }
   };
 }
@@ -239,14 +284,41 @@ export function validateRequired(value: any, fieldName: string): void {
   }
 }
 
+/**
+ * Schema validation helper
+ * Parses a value with a zod schema and converts issues into a ValidationError
+ */
+export function validateSchema<T>(schema: ZodType<T, any, any>, value: unknown, label: string = 'request data'): T {
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    const details: ValidationIssue[] = result.error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message
+    }));
+    const summary = details
+      .map(detail => detail.field ? `${detail.field}: ${detail.message}` : detail.message)
+      .join(', ');
+
+    throw new ValidationError(
+      `Invalid ${label}: ${summary}`,
+      details[0]?.field || undefined,
+      details
+    );
+  }
+
+  return result.data;
+}
+
 /**
  * Type guard for error types
  */
-export function isAPIError(error: any): error is ValidationError | AuthenticationError | AuthorizationError | NotFoundError | ExternalAPIError | RateLimitError {
+export function isAPIError(error: any): error is ValidationError | AuthenticationError | AuthorizationError | NotFoundError | ExternalAPIError | RateLimitError | ContentBlockedError {
   return error instanceof ValidationError ||
          error instanceof AuthenticationError ||
          error instanceof AuthorizationError ||
          error instanceof NotFoundError ||
          error instanceof ExternalAPIError ||
-         error instanceof RateLimitError;
+         error instanceof RateLimitError ||
+         error instanceof ContentBlockedError;
 }
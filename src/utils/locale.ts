@@ -0,0 +1,34 @@
+/**
+ * Locale negotiation for prompts
+ * A language tag falls back by dropping its last subtag until only the language is left, then
+ * to the default locale: pt-BR → pt → en
+ */
+
+export const DEFAULT_PROMPT_LOCALE = 'en';
+
+/**
+ * Write a language tag in its usual case ("pt_br" → "pt-BR", "zh-hant-tw" → "zh-Hant-TW")
+ */
+export function normalizeLocale(locale: string): string {
+  return locale
+    .trim()
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((subtag, index) => {
+      if (index === 0) return subtag.toLowerCase();
+      if (/^[a-z]{4}$/i.test(subtag)) return subtag[0].toUpperCase() + subtag.slice(1).toLowerCase();
+      if (/^(?:[a-z]{2}|\d{3})$/i.test(subtag)) return subtag.toUpperCase();
+      return subtag.toLowerCase();
+    })
+    .join('-');
+}
+
+/**
+ * Get the locales to try for a language tag, most specific first, ending with the default locale
+ */
+export function getLocaleFallbacks(locale?: string, defaultLocale: string = DEFAULT_PROMPT_LOCALE): string[] {
+  const subtags = normalizeLocale(locale || '').split('-').filter(Boolean);
+  const chain = subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'));
+
+  return [...new Set([...chain, defaultLocale])];
+}
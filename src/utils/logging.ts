@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
-import { LogEntry, ConversationEvent } from '../types/index.js';
+import { LogEntry, ConversationEvent, UsageMetrics } from '../types/index.js';
+import { priceUsage } from './pricing.js';
+import { getRedactionPolicy, redactValue } from './redaction.js';
 
 /**
  * Logging utility for API middlelayer
@@ -38,6 +40,7 @@ class LoggingService {
 
   /**
    * Log API call to Supabase unified_logs table
+   * Calls with usage are also priced and stored in api_usage for cost reports
    */
   async logApiCall(logData: Partial<LogEntry>): Promise<void> {
     if (!this.supabase) {
@@ -61,25 +64,31 @@ class LoggingService {
         timestamp: new Date().toISOString(),
         ...logData
       };
+      const costUsd = logEntry.usage ? priceUsage(logEntry.serviceName, logEntry.usage) : undefined;
+
+      // Bodies and errors can quote user text, PII is masked following the logs redaction policy
+      const redactionCategories = getRedactionPolicy().logs;
 
       const { error } = await this.supabase
         .from('unified_logs')
         .insert({
           event_category: 'api_call',
           event_type: 'external_api',
-          user_id: null, // Will be set by client if available
+          user_id: logEntry.userId ?? null,
           event_data: {
             session_id: logEntry.sessionId,
             service_name: logEntry.serviceName,
             endpoint: logEntry.endpoint,
             method: logEntry.method,
             request_headers: logEntry.requestHeaders,
-            request_body: logEntry.requestBody,
+            request_body: redactValue(logEntry.requestBody, redactionCategories),
             response_status: logEntry.responseStatus,
             response_headers: logEntry.responseHeaders,
-            response_body: logEntry.responseBody,
+            response_body: redactValue(logEntry.responseBody, redactionCategories),
             duration: logEntry.duration,
-            error_message: logEntry.errorMessage
+            error_message: redactValue(logEntry.errorMessage, redactionCategories),
+            usage: logEntry.usage,
+            cost_usd: costUsd
           },
           metadata: {
             timestamp: logEntry.timestamp,
@@ -92,11 +101,43 @@ class LoggingService {
       } else {
         console.log('✅ API call logged successfully');
       }
+
+      if (logEntry.usage && costUsd !== undefined) {
+        await this.recordUsage(logEntry, logEntry.usage, costUsd);
+      }
     } catch (error) {
       console.error('❌ Logging service error:', error);
     }
   }
 
+  /**
+   * Store the usage of an API call, calls that consumed nothing are skipped
+   */
+  private async recordUsage(logEntry: LogEntry, usage: UsageMetrics, costUsd: number): Promise<void> {
+    const { model, promptTokens = 0, completionTokens = 0, characters = 0, emails = 0 } = usage;
+    if (promptTokens + completionTokens + characters + emails === 0) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('api_usage')
+      .insert({
+        user_id: logEntry.userId ?? null,
+        service_name: logEntry.serviceName,
+        endpoint: logEntry.endpoint,
+        model: model ?? null,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        characters,
+        emails,
+        cost_usd: costUsd
+      });
+
+    if (error) {
+      console.error('❌ Failed to record API usage:', error);
+    }
+  }
+
   /**
    * Log conversation event
    */
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { parseJsonEnv } from './env.js';
+import { RateTable, UsageMetrics, UsageRate } from '../types/index.js';
+
+/**
+ * Usage pricing
+ * Prices are USD per 1,000 units, looked up by "service:model" first and then by service.
+ * USAGE_RATES (JSON, same shape as DEFAULT_RATES) overrides or adds entries
+ */
+
+export const DEFAULT_RATES: RateTable = {
+  'openai': { promptTokens: 0.00015, completionTokens: 0.0006 },
+  'openai:gpt-4o-mini': { promptTokens: 0.00015, completionTokens: 0.0006 },
+  'openai:gpt-4o': { promptTokens: 0.0025, completionTokens: 0.01 },
+  'elevenlabs': { characters: 0.3 },
+  'resend': { emails: 0.4 }
+};
+
+const UNITS: Array<keyof UsageRate> = ['promptTokens', 'completionTokens', 'characters', 'emails'];
+
+const UsageRatesSchema = z.record(
+  z.object(Object.fromEntries(UNITS.map(unit => [unit, z.number().nonnegative().optional()]))).strict()
+).transform((overrides): RateTable => ({ ...DEFAULT_RATES, ...overrides }));
+
+// Costs are stored with this many decimals
+const COST_DECIMALS = 6;
+
+/**
+ * Get the rate table, with USAGE_RATES applied over the defaults
+ */
+export function getRateTable(): RateTable {
+  return parseJsonEnv('USAGE_RATES', UsageRatesSchema, DEFAULT_RATES);
+}
+
+/**
+ * Price the usage of one call in USD
+ * Services without a rate cost nothing
+ */
+export function priceUsage(serviceName: string, usage: UsageMetrics, rates: RateTable = getRateTable()): number {
+  const rate = (usage.model && rates[`${serviceName}:${usage.model}`]) || rates[serviceName] || {};
+  const cost = UNITS.reduce((total, unit) => total + ((usage[unit] || 0) * (rate[unit] || 0)) / 1000, 0);
+  return Number(cost.toFixed(COST_DECIMALS));
+}
@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { parseJsonEnv } from './env.js';
+import { Message, PiiCategory, PlaceholderMap, RedactedMessages, RedactionPolicy } from '../types/index.js';
+
+/**
+ * PII redaction
+ * Emails, phone numbers, street addresses and names are replaced with numbered placeholders
+ * ([EMAIL_1], [NAME_2], ...) before text leaves our infrastructure. Detection is pattern based:
+ * names are found from self-introductions ("my name is", "me llamo", ...) and from names the
+ * caller already knows, such as the profile's first name.
+ * REDACTION_POLICY (JSON, same shape as DEFAULT_REDACTION_POLICY) overrides targets
+ */
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'address', 'name'];
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  openai: PII_CATEGORIES,
+  // Conversational agents address the learner by name, so names are kept
+  elevenlabs: ['email', 'phone', 'address'],
+  logs: PII_CATEGORIES
+};
+
+const PiiCategoriesSchema = z.array(z.enum(PII_CATEGORIES as [PiiCategory, ...PiiCategory[]])).optional();
+
+const RedactionPolicySchema = z.object({
+  openai: PiiCategoriesSchema,
+  elevenlabs: PiiCategoriesSchema,
+  logs: PiiCategoriesSchema
+}).strict().transform((overrides): RedactionPolicy => ({ ...DEFAULT_REDACTION_POLICY, ...overrides }));
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Digit runs with separators, checked for length and date shapes before they count as phone numbers
+const PHONE_PATTERN = /(?<![\w+])(?:\+|00)?\d[\d ().-]{5,}\d(?![\w])/g;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+const DATE_PATTERN = /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})$/;
+
+const CAPITALIZED_WORD = "[A-ZÀ-ÝÄÖÜ][\\wÀ-ÿ'-]*";
+
+// Number first ("12 Baker Street", "5 rue de la Paix") and street type first ("Calle Mayor 3"), plus German compounds
+const ADDRESS_PATTERNS = [
+  new RegExp(`\\b\\d{1,5}\\s+(?:${CAPITALIZED_WORD}\\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\\b\\.?`, 'g'),
+  new RegExp(`\\b\\d{1,5},?\\s+(?:rue|avenue|boulevard|place|chemin|allée)\\s+(?:(?:de|du|des|la|l')\\s*)*${CAPITALIZED_WORD}`, 'g'),
+  new RegExp(`\\b(?:[Cc]alle|[Aa]venida|[Aa]v\\.|[Pp]laza|[Pp]aseo|[Rr]ua|[Vv]ia|[Cc]orso)\\s+(?:(?:de|del|la|las|los|da|do|dos)\\s+)*${CAPITALIZED_WORD}(?:\\s+${CAPITALIZED_WORD})*,?\\s+(?:n[º°o]\\.?\\s*)?\\d{1,5}\\b`, 'g'),
+  /\b[A-ZÄÖÜ][a-zäöüß]+(?:straße|strasse|weg|platz|gasse|allee)\s+\d{1,4}[a-z]?\b/g
+];
+
+// Self-introductions, the capitalized words that follow are the name
+const INTRODUCTION_PATTERN = new RegExp(
+  `(?:[Mm]y name is|[Cc]all me|[Mm]e llamo|[Mm]i nombre es|[Jj]e m'appelle|[Ii]ch heiße|[Ii]ch heisse|[Mm]i chiamo|[Mm]eu nome é|[Cc]hamo-me)\\s+(${CAPITALIZED_WORD}(?:\\s+[A-ZÀ-ÝÄÖÜ][\\wÀ-ÿ'-]+)?)`,
+  'g'
+);
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|ADDRESS|NAME)_\d+\]/g;
+
+/**
+ * Get the redaction policy, with REDACTION_POLICY applied over the defaults
+ */
+export function getRedactionPolicy(): RedactionPolicy {
+  return parseJsonEnv('REDACTION_POLICY', RedactionPolicySchema, DEFAULT_REDACTION_POLICY);
+}
+
+/**
+ * Redact the content of every message, with one placeholder map for the whole conversation
+ * Names introduced in one message are masked in all of them
+ */
+export function redactMessages(
+  messages: Message[],
+  categories: PiiCategory[],
+  knownNames: string[] = []
+): RedactedMessages {
+  const placeholders: PlaceholderMap = {};
+  const names = categories.includes('name')
+    ? [...knownNames, ...messages.flatMap(message => findIntroducedNames(message.content))]
+    : [];
+
+  return {
+    messages: messages.map(message => ({
+      ...message,
+      content: redactText(message.content, categories, placeholders, names)
+    })),
+    placeholders
+  };
+}
+
+/**
+ * Redact a text, adding new placeholders to the map
+ * Text already in the map gets its existing placeholder
+ */
+export function redactText(
+  text: string,
+  categories: PiiCategory[],
+  placeholders: PlaceholderMap = {},
+  knownNames: string[] = []
+): string {
+  if (!text || categories.length === 0) {
+    return text;
+  }
+
+  const mask = (category: PiiCategory) => (match: string) => placeholderFor(placeholders, category, match);
+  let redacted = text;
+
+  if (categories.includes('email')) {
+    redacted = redacted.replace(EMAIL_PATTERN, mask('email'));
+  }
+
+  if (categories.includes('address')) {
+    for (const pattern of ADDRESS_PATTERNS) {
+      redacted = redacted.replace(pattern, mask('address'));
+    }
+  }
+
+  if (categories.includes('phone')) {
+    redacted = redacted.replace(PHONE_PATTERN, match => isPhoneNumber(match) ? mask('phone')(match) : match);
+  }
+
+  if (categories.includes('name')) {
+    const names = [...knownNames, ...findIntroducedNames(redacted)]
+      .map(name => name.trim())
+      .filter(name => name.length > 1)
+      // Longest first, so "Maria Lopez" is masked before "Maria"
+      .sort((a, b) => b.length - a.length);
+
+    // Case sensitive, so a name that is also a word ("Will", "Rose") only matches as a name
+    for (const name of new Set(names)) {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'gu');
+      redacted = redacted.replace(pattern, mask('name'));
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Redact every string in a value, e.g. a logged request body, without keeping the placeholders
+ */
+export function redactValue<T>(value: T, categories: PiiCategory[]): T {
+  if (categories.length === 0) {
+    return value;
+  }
+
+  const placeholders: PlaceholderMap = {};
+  return mapStrings(value, text => redactText(text, categories, placeholders));
+}
+
+/**
+ * Put the original text back in place of placeholders, in every string of a value
+ * Placeholders the model made up are left as they are
+ */
+export function restorePlaceholders<T>(value: T, placeholders: PlaceholderMap): T {
+  if (Object.keys(placeholders).length === 0) {
+    return value;
+  }
+
+  return mapStrings(value, text => text.replace(PLACEHOLDER_PATTERN, placeholder => placeholders[placeholder] ?? placeholder));
+}
+
+/**
+ * Restore placeholders in text that is still being written, holding back a placeholder cut
+ * off at the end so that it is restored once complete
+ */
+export function restorePartialText(text: string, placeholders: PlaceholderMap): string {
+  const open = text.lastIndexOf('[');
+  const fragment = open === -1 ? '' : text.slice(open);
+  const incomplete = !!fragment && !fragment.includes(']')
+    && Object.keys(placeholders).some(placeholder => placeholder.startsWith(fragment));
+
+  return restorePlaceholders(incomplete ? text.slice(0, open) : text, placeholders);
+}
+
+function placeholderFor(placeholders: PlaceholderMap, category: PiiCategory, text: string): string {
+  const prefix = `[${category.toUpperCase()}_`;
+
+  const existing = Object.keys(placeholders).find(placeholder =>
+    placeholder.startsWith(prefix) && placeholders[placeholder] === text
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const count = Object.keys(placeholders).filter(placeholder => placeholder.startsWith(prefix)).length;
+  const placeholder = `${prefix}${count + 1}]`;
+  placeholders[placeholder] = text;
+  return placeholder;
+}
+
+function findIntroducedNames(text: string): string[] {
+  return [...(text || '').matchAll(INTRODUCTION_PATTERN)].map(match => match[1]);
+}
+
+function isPhoneNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '').length;
+  return digits >= MIN_PHONE_DIGITS && digits <= MAX_PHONE_DIGITS && !DATE_PATTERN.test(candidate.trim());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mapStrings<T>(value: T, transform: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return transform(value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, transform)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])
+    ) as T;
+  }
+
+  return value;
+}
@@ -0,0 +1,56 @@
+import { ReviewSchedule, WordOutcomeResult } from '../types/index.js';
+
+/**
+ * SM-2 spaced-repetition scheduling
+ * Each practice outcome is graded on the SM-2 0-5 quality scale; correct uses push the
+ * next review further out, incorrect uses start the word over
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MIN_EASE_FACTOR = 1.3;
+
+export const INITIAL_SCHEDULE: ReviewSchedule = {
+  easeFactor: 2.5,
+  intervalDays: 0,
+  repetitions: 0
+};
+
+// SM-2 quality per outcome; words the learner didn't use are not graded
+const OUTCOME_QUALITY: Record<Exclude<WordOutcomeResult, 'not_used'>, number> = {
+  correct: 4,
+  incorrect: 1
+};
+
+/**
+ * Compute the schedule after a graded outcome
+ */
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  outcome: Exclude<WordOutcomeResult, 'not_used'>
+): ReviewSchedule {
+  const quality = OUTCOME_QUALITY[outcome];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return { easeFactor, intervalDays: 1, repetitions: 0 };
+  }
+
+  const intervalDays = schedule.repetitions === 0
+    ? 1
+    : schedule.repetitions === 1
+      ? 6
+      : Math.round(schedule.intervalDays * schedule.easeFactor);
+
+  return { easeFactor, intervalDays, repetitions: schedule.repetitions + 1 };
+}
+
+/**
+ * Date a word is due for review after the given interval
+ */
+export function getDueDate(intervalDays: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + intervalDays * DAY_MS);
+}
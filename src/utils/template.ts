@@ -0,0 +1,306 @@
+import { TemplateError } from './errors.js';
+
+/**
+ * Prompt template engine
+ *
+ * Supported syntax:
+ *   {{name}}, {{name.field}}              variable substitution (arrays are joined with ", ")
+ *   {{#if name}} ... {{else}} ... {{/if}}  conditional on a truthy, non-empty value
+ *   {{#each name}} ... {{/each}}           loop; inside, {{this}}, {{this.field}},
+ *                                          {{@index}}, {{@number}}, {{@first}} and {{@last}}
+ */
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  target: TemplateNode[];
+}
+
+interface LoopScope {
+  item: unknown;
+  index: number;
+  length: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(?:this|@index|@number|@first|@last|[A-Za-z_]\w*)(?:\.[A-Za-z_]\w*)*$/;
+const LOOP_VARIABLES = ['this', '@index', '@number', '@first', '@last'];
+
+/**
+ * Parse a template into a node tree, throwing a TemplateError on syntax errors
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const issues: string[] = [];
+  let target = root;
+  let lastIndex = 0;
+
+  const checkPath = (path: string, tag: string): string => {
+    if (!PATH_PATTERN.test(path)) {
+      issues.push(`Invalid expression in ${tag}`);
+    }
+    return path;
+  };
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, expression] = match;
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      target.push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    const [keyword, ...args] = expression.split(/\s+/);
+    const path = args.join(' ');
+
+    if (keyword === '#if' || keyword === '#each') {
+      const node = keyword === '#if'
+        ? { type: 'if' as const, path: checkPath(path, tag), then: [], otherwise: [] }
+        : { type: 'each' as const, path: checkPath(path, tag), body: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.type === 'if' ? node.then : node.body;
+    } else if (keyword === 'else' && !path) {
+      const open = stack[stack.length - 1];
+      if (open?.node.type !== 'if' || target !== open.node.then) {
+        issues.push(`Unexpected ${tag} outside of an {{#if}} block`);
+      } else {
+        target = open.node.otherwise;
+      }
+    } else if (keyword === '/if' || keyword === '/each') {
+      const open = stack.pop();
+      if (!open || `/${open.node.type}` !== keyword) {
+        issues.push(`Unexpected ${tag}${open ? `, expected {{/${open.node.type}}}` : ''}`);
+        if (open) stack.push(open);
+      } else {
+        target = open.target;
+      }
+    } else if (keyword.startsWith('#') || keyword.startsWith('/')) {
+      issues.push(`Unknown block ${tag}`);
+    } else {
+      target.push({ type: 'variable', path: checkPath(expression, tag) });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    target.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  for (const open of stack) {
+    issues.push(`Unclosed {{#${open.node.type} ${open.node.path}}} block`);
+  }
+
+  if (issues.length > 0) {
+    throw new TemplateError('Invalid prompt template', issues);
+  }
+
+  return root;
+}
+
+interface TemplateReferences {
+  // Top-level variables the template references
+  names: Set<string>;
+  // Loop variables used outside loops
+  misplaced: Set<string>;
+  // Variables whose value is used outside an {{#if}} block on them
+  unguarded: Set<string>;
+}
+
+/**
+ * Collect the variables a template references
+ */
+function collectReferences(nodes: TemplateNode[], depth: number, guarded: Set<string>, references: TemplateReferences): void {
+  const reference = (path: string, isCondition = false) => {
+    const rootName = path.split('.')[0];
+    if (LOOP_VARIABLES.includes(rootName)) {
+      if (depth === 0) references.misplaced.add(rootName);
+    } else {
+      references.names.add(rootName);
+      if (!isCondition && !guarded.has(rootName)) references.unguarded.add(rootName);
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      reference(node.path);
+    } else if (node.type === 'if') {
+      reference(node.path, true);
+      collectReferences(node.then, depth, new Set([...guarded, node.path.split('.')[0]]), references);
+      collectReferences(node.otherwise, depth, guarded, references);
+    } else if (node.type === 'each') {
+      reference(node.path);
+      collectReferences(node.body, depth + 1, guarded, references);
+    }
+  }
+}
+
+function getReferences(nodes: TemplateNode[]): TemplateReferences {
+  const references = { names: new Set<string>(), misplaced: new Set<string>(), unguarded: new Set<string>() };
+  collectReferences(nodes, 0, new Set(), references);
+  return references;
+}
+
+/**
+ * List the top-level variables a template references
+ */
+export function getTemplateVariables(template: string): string[] {
+  return [...getReferences(parseTemplate(template)).names];
+}
+
+/**
+ * Validate a template against its declared variables
+ * Returns a list of issues; an empty list means the template is valid
+ *
+ * @param knownVariables - when given, declared variables must be among them
+ * @param optionalVariables - variables that may have no value, only usable inside {{#if}} blocks on them
+ */
+export function validateTemplate(
+  template: string,
+  declaredVariables: string[],
+  knownVariables?: string[],
+  optionalVariables: string[] = []
+): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    if (error instanceof TemplateError) return error.issues;
+    throw error;
+  }
+
+  const references = getReferences(nodes);
+  const declared = new Set(declaredVariables);
+  const issues: string[] = [];
+
+  for (const name of references.names) {
+    if (!declared.has(name)) {
+      issues.push(`Variable "${name}" is used but not declared`);
+    }
+  }
+  for (const name of references.misplaced) {
+    issues.push(`"${name}" can only be used inside an {{#each}} block`);
+  }
+  for (const name of optionalVariables) {
+    if (references.unguarded.has(name)) {
+      issues.push(`Variable "${name}" may be empty, use it inside an {{#if ${name}}} block`);
+    }
+  }
+  if (knownVariables) {
+    for (const name of declared) {
+      if (!knownVariables.includes(name)) {
+        issues.push(`Unknown variable "${name}"`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Render a template, throwing a TemplateError when referenced variables have no value
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  const missing = new Set<string>();
+  const output = renderNodes(parseTemplate(template), context, [], missing);
+
+  if (missing.size > 0) {
+    throw new TemplateError(
+      'Missing prompt template variables',
+      [...missing].map(name => `Missing value for variable "${name}"`)
+    );
+  }
+
+  return output;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  context: Record<string, unknown>,
+  loops: LoopScope[],
+  missing: Set<string>
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      const value = resolvePath(node.path, context, loops);
+      if (value === undefined || value === null) {
+        missing.add(node.path);
+      } else {
+        output += formatValue(value);
+      }
+    } else if (node.type === 'if') {
+      const branch = isTruthy(resolvePath(node.path, context, loops)) ? node.then : node.otherwise;
+      output += renderNodes(branch, context, loops, missing);
+    } else {
+      const items = resolvePath(node.path, context, loops);
+      if (items === undefined || items === null) {
+        missing.add(node.path);
+      } else if (!Array.isArray(items)) {
+        throw new TemplateError('Invalid prompt template variables', [`Variable "${node.path}" is not a list`]);
+      } else {
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, context, [...loops, { item, index, length: items.length }], missing);
+        });
+      }
+    }
+  }
+
+  return output;
+}
+
+function resolvePath(path: string, context: Record<string, unknown>, loops: LoopScope[]): unknown {
+  const [rootName, ...fields] = path.split('.');
+  const loop = loops[loops.length - 1];
+
+  let value: unknown;
+  switch (rootName) {
+    case 'this':
+      value = loop?.item;
+      break;
+    case '@index':
+      value = loop?.index;
+      break;
+    case '@number':
+      value = loop && loop.index + 1;
+      break;
+    case '@first':
+      value = loop && loop.index === 0;
+      break;
+    case '@last':
+      value = loop && loop.index === loop.length - 1;
+      break;
+    default:
+      value = context[rootName];
+  }
+
+  for (const field of fields) {
+    if (value === undefined || value === null) return undefined;
+    value = (value as Record<string, unknown>)[field];
+  }
+
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,120 @@
+import { Message } from '../types/index.js';
+
+/**
+ * Token estimation and conversation chunking utilities
+ * Estimates are approximate (no tokenizer dependency) and err on the high side
+ */
+
+// Roughly 4 characters per token for alphabetic scripts
+const CHARS_PER_TOKEN = 4;
+
+// Formatting overhead per message ("USER: " prefix and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// CJK, Hangul and Kana characters usually take a full token each
+const WIDE_CHAR_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  const wideChars = text.match(WIDE_CHAR_PATTERN)?.length || 0;
+  return Math.ceil((text.length - wideChars) / CHARS_PER_TOKEN) + wideChars;
+}
+
+/**
+ * Estimate the number of tokens a message takes in the formatted conversation
+ */
+export function estimateMessageTokens(message: Message): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimate the number of tokens of a formatted conversation
+ */
+export function estimateConversationTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Format messages as conversation text for analysis prompts
+ */
+export function formatConversation(messages: Message[]): string {
+  return messages
+    .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Split messages into consecutive chunks that fit the token budget
+ * A single message larger than the budget is truncated to fit its own chunk
+ */
+export function chunkMessages(messages: Message[], maxTokensPerChunk: number): Message[][] {
+  const chunks: Message[][] = [];
+  let current: Message[] = [];
+  let currentTokens = 0;
+
+  for (const message of messages) {
+    const fitted = fitMessage(message, maxTokensPerChunk);
+    const tokens = estimateMessageTokens(fitted);
+
+    if (current.length > 0 && currentTokens + tokens > maxTokensPerChunk) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    current.push(fitted);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Keep the most recent messages that fit the token budget
+ */
+export function truncateMessages(messages: Message[], maxTokens: number): Message[] {
+  const kept: Message[] = [];
+  let total = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const tokens = estimateMessageTokens(messages[index]);
+    if (total + tokens > maxTokens) {
+      // Always keep at least the latest message, shortened if needed
+      if (kept.length === 0) {
+        kept.unshift(fitMessage(messages[index], maxTokens));
+      }
+      break;
+    }
+    kept.unshift(messages[index]);
+    total += tokens;
+  }
+
+  return kept;
+}
+
+/**
+ * Shorten a single message so that it fits the token budget
+ */
+function fitMessage(message: Message, maxTokens: number): Message {
+  if (estimateMessageTokens(message) <= maxTokens) {
+    return message;
+  }
+
+  const maxChars = Math.max(0, (maxTokens - MESSAGE_OVERHEAD_TOKENS) * CHARS_PER_TOKEN);
+  let content = message.content.slice(0, maxChars);
+
+  // Wide characters count as a token each, keep trimming until the estimate fits
+  while (content.length > 0 && estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS > maxTokens) {
+    content = content.slice(0, Math.floor(content.length * 0.9));
+  }
+
+  return { ...message, content };
+}
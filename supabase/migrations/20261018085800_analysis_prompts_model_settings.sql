@@ -0,0 +1,8 @@
+-- Model settings per analysis prompt
+--
+-- Empty settings fall back to OPENAI_MODEL, OPENAI_TEMPERATURE, OPENAI_MAX_TOKENS and the built-in
+-- system prompt, so existing rows keep their behavior.
+alter table analysis_prompts add column if not exists model text;
+alter table analysis_prompts add column if not exists temperature real check (temperature between 0 and 2);
+alter table analysis_prompts add column if not exists max_tokens integer check (max_tokens > 0);
+alter table analysis_prompts add column if not exists system_prompt text;
@@ -0,0 +1,5 @@
+-- Traffic weight of active analysis prompt versions, for prompt experiments
+--
+-- When several versions of a conversation type and language are active, each user is assigned
+-- one with a probability proportional to its weight. Empty means 1.
+alter table analysis_prompts add column if not exists traffic_weight real check (traffic_weight > 0);
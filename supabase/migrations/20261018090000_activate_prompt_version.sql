@@ -0,0 +1,47 @@
+-- Activate an analysis prompt version in one transaction
+--
+-- Without a traffic weight the version replaces the other active versions of its conversation
+-- type and language; with one it joins a prompt experiment. Activations of the same type and
+-- language take a transaction lock, so concurrent ones run one after the other, and readers see
+-- either the old or the new active version, never none.
+create or replace function activate_prompt_version(
+  p_prompt_id analysis_prompts.id%type,
+  p_traffic_weight analysis_prompts.traffic_weight%type default null
+)
+returns analysis_prompts
+language plpgsql
+as $$
+declare
+  target analysis_prompts;
+begin
+  select * into target from analysis_prompts where id = p_prompt_id;
+  if not found then
+    raise exception 'Prompt not found: %', p_prompt_id using errcode = 'no_data_found';
+  end if;
+
+  perform pg_advisory_xact_lock(
+    hashtext('analysis_prompts:' || target.conversation_type || ':' || target.language_code)
+  );
+
+  if p_traffic_weight is null then
+    update analysis_prompts
+    set is_active = false
+    where conversation_type = target.conversation_type
+      and language_code = target.language_code
+      and is_active
+      and id <> target.id;
+
+    update analysis_prompts
+    set is_active = true
+    where id = target.id
+    returning * into target;
+  else
+    update analysis_prompts
+    set is_active = true, traffic_weight = p_traffic_weight
+    where id = target.id
+    returning * into target;
+  end if;
+
+  return target;
+end;
+$$;
@@ -0,0 +1,28 @@
+-- One stored analysis per user and conversation
+--
+-- A conversation analyzed again replaces its earlier analysis instead of adding a row, so
+-- resubmissions do not inflate the learner profile. Analyses without a conversation id are
+-- never merged. Duplicates stored so far are reduced to the most recent one. The table is created
+-- here for databases that do not have it yet, with the columns recordAnalysis writes.
+create table if not exists conversation_analyses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  conversation_id text,
+  conversation_type text not null,
+  prompt_id text,
+  analysis jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+delete from conversation_analyses older
+using conversation_analyses newer
+where older.user_id = newer.user_id
+  and older.conversation_id = newer.conversation_id
+  and (older.created_at, older.id) < (newer.created_at, newer.id);
+
+create unique index if not exists conversation_analyses_user_conversation_key
+  on conversation_analyses (user_id, conversation_id);
+
+-- Learner profiles read a user's analyses newest first
+create index if not exists conversation_analyses_user_created_at_idx
+  on conversation_analyses (user_id, created_at desc);
@@ -0,0 +1,32 @@
+-- One proficiency estimate per user and conversation
+--
+-- Analyzing a conversation again replaces its estimate, so resubmissions do not add points to
+-- the progress chart. Estimates without a conversation id are never merged. Duplicates stored so
+-- far are reduced to the most recent one. The table is created here for databases that do not
+-- have it yet, with the columns recordEstimate writes.
+create table if not exists proficiency_estimates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  conversation_id text,
+  conversation_type text not null,
+  prompt_id text,
+  cefr_level text not null check (cefr_level in ('A1', 'A2', 'B1', 'B2', 'C1', 'C2')),
+  vocabulary_score real not null,
+  grammar_score real not null,
+  fluency_score real not null,
+  confidence real not null,
+  created_at timestamptz not null default now()
+);
+
+delete from proficiency_estimates older
+using proficiency_estimates newer
+where older.user_id = newer.user_id
+  and older.conversation_id = newer.conversation_id
+  and (older.created_at, older.id) < (newer.created_at, newer.id);
+
+create unique index if not exists proficiency_estimates_user_conversation_key
+  on proficiency_estimates (user_id, conversation_id);
+
+-- Progress charts read a user's estimates newest first
+create index if not exists proficiency_estimates_user_created_at_idx
+  on proficiency_estimates (user_id, created_at desc);
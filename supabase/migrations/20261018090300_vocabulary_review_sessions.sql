@@ -0,0 +1,11 @@
+-- Conversations whose word outcomes were applied to vocabulary_reviews
+--
+-- A row is inserted before the outcomes of a conversation are applied, skipped when one exists,
+-- so analyzing the same conversation again does not reschedule its words twice.
+create table if not exists vocabulary_review_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  conversation_id text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, conversation_id)
+);
@@ -0,0 +1,21 @@
+-- Priced usage of every external call, written by the logging service and read by cost reports
+--
+-- user_id is text because calls authenticated with the API key are attributed to "system".
+-- cost_usd is fixed when the call is made, so changing USAGE_RATES does not reprice past usage.
+create table if not exists api_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id text,
+  service_name text not null,
+  endpoint text not null default '',
+  model text,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  characters integer not null default 0,
+  emails integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- Reports and quota checks filter by user and time range
+create index if not exists api_usage_user_created_at_idx on api_usage (user_id, created_at);
+create index if not exists api_usage_created_at_idx on api_usage (created_at);
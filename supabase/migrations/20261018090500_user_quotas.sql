@@ -0,0 +1,11 @@
+-- Per-user quota plans, read before external calls are made
+--
+-- Users without a row are on the free plan. limits overrides individual budgets with the same
+-- shape as QUOTA_PLANS, e.g. {"daily": {"tokens": 50000}}. Usage is counted from api_usage.
+create table if not exists user_quotas (
+  user_id text primary key,
+  plan text not null default 'free',
+  limits jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,36 @@
+-- Batch analysis jobs and their conversations, driven by POST /api/openai/jobs and its polls
+--
+-- user_id is text because jobs submitted with the API key belong to "system". A job is leased to
+-- one invocation at a time: lease_version is bumped by every claim and leased_until expires the
+-- lease of an invocation that timed out. Items use attempts the same way, as the version a claim
+-- and every later update of the item must match.
+create table if not exists analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed')),
+  total integer not null,
+  succeeded_count integer not null default 0,
+  failed_count integer not null default 0,
+  lease_version integer not null default 0,
+  leased_until timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create table if not exists analysis_job_items (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references analysis_jobs (id) on delete cascade,
+  position integer not null,
+  conversation_id text,
+  request jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'running', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  available_at timestamptz,
+  started_at timestamptz,
+  finished_at timestamptz,
+  analysis jsonb,
+  last_error text,
+  created_at timestamptz not null default now(),
+  unique (job_id, position)
+);
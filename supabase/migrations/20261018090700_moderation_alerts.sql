@@ -0,0 +1,32 @@
+-- Sessions flagged by moderation for the learner's teachers, and who those teachers are
+--
+-- Alerts record which messages were flagged and why, never their text. A learner's teachers are
+-- linked in teacher_students and emailed when an alert is raised; teacher_email and student_name
+-- are kept on the link so that the email needs no lookup in auth.users.
+create table if not exists moderation_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  conversation_id text,
+  path text not null,
+  action text not null check (action in ('alert', 'block')),
+  categories text[] not null,
+  flags jsonb not null default '[]'::jsonb,
+  classifier text not null,
+  status text not null default 'open' check (status in ('open', 'resolved')),
+  created_at timestamptz not null default now()
+);
+
+-- Alerts are listed newest first, by status and by learner
+create index if not exists moderation_alerts_status_created_at_idx on moderation_alerts (status, created_at desc);
+create index if not exists moderation_alerts_user_id_idx on moderation_alerts (user_id);
+
+create table if not exists teacher_students (
+  teacher_id text not null,
+  student_id text not null,
+  teacher_email text not null,
+  student_name text not null,
+  created_at timestamptz not null default now(),
+  primary key (teacher_id, student_id)
+);
+
+create index if not exists teacher_students_student_id_idx on teacher_students (student_id);
@@ -0,0 +1,24 @@
+-- Spaced-repetition schedule of every word a learner has practiced, one row per user and word
+--
+-- Outcomes from vocabulary practice analyses update the SM-2 schedule with an upsert on
+-- (user_id, word); due_at is when the word should come back in a review session.
+create table if not exists vocabulary_reviews (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  word text not null,
+  translation text,
+  word_list_title text,
+  ease_factor real not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  correct_count integer not null default 0,
+  incorrect_count integer not null default 0,
+  last_outcome text check (last_outcome in ('correct', 'incorrect', 'not_used')),
+  last_reviewed_at timestamptz,
+  due_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (user_id, word)
+);
+
+-- Review sessions list a user's due words, soonest first
+create index if not exists vocabulary_reviews_user_due_at_idx on vocabulary_reviews (user_id, due_at);
@@ -0,0 +1,14 @@
+-- Generated study plans, one row per plan
+--
+-- weeks holds the plan as returned by the API: week number, focus and topics with their
+-- objectives. Plans are listed per user, newest first.
+create table if not exists study_plans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  title text not null,
+  practice_language text not null,
+  weeks jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists study_plans_user_created_at_idx on study_plans (user_id, created_at desc);
@@ -0,0 +1,24 @@
+-- Generated exercise sets and graded attempts at them
+--
+-- exercises keeps the answer key (answer, acceptableAnswers, explanation) next to each
+-- exercise; it is stripped before a set is returned and only used for grading. Every graded
+-- submission adds a row to exercise_attempts.
+create table if not exists exercise_sets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  practice_language text not null,
+  exercises jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists exercise_attempts (
+  id uuid primary key default gen_random_uuid(),
+  set_id uuid not null references exercise_sets (id) on delete cascade,
+  user_id uuid not null,
+  answers jsonb not null,
+  correct_count integer not null,
+  total integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exercise_attempts_set_id_idx on exercise_attempts (set_id);
@@ -0,0 +1,17 @@
+-- A user's usage since a point in time, summed for quota checks
+--
+-- Summing in the database keeps quota checks exact however many api_usage rows a user has; a
+-- query for the raw rows would stop at the row limit of the API.
+create or replace function api_usage_totals(p_user_id text, p_since timestamptz)
+returns table (tokens_used bigint, characters_used bigint, emails_used bigint)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(u.prompt_tokens + u.completion_tokens), 0)::bigint,
+    coalesce(sum(u.characters), 0)::bigint,
+    coalesce(sum(u.emails), 0)::bigint
+  from api_usage u
+  where u.user_id = p_user_id
+    and u.created_at >= p_since;
+$$;
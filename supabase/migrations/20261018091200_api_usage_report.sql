@@ -0,0 +1,42 @@
+-- Usage and cost grouped by user, service and day (UTC), for admin cost reports
+--
+-- Grouping in the database keeps reports complete however many calls a period has. Groups are
+-- ordered by their key so that callers can page through them with a range.
+create or replace function api_usage_report(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_user_id text default null,
+  p_service text default null
+)
+returns table (
+  user_id text,
+  service_name text,
+  day date,
+  calls bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  characters bigint,
+  emails bigint,
+  cost_usd numeric
+)
+language sql
+stable
+as $$
+  select
+    u.user_id,
+    u.service_name,
+    (u.created_at at time zone 'utc')::date,
+    count(*),
+    coalesce(sum(u.prompt_tokens), 0)::bigint,
+    coalesce(sum(u.completion_tokens), 0)::bigint,
+    coalesce(sum(u.characters), 0)::bigint,
+    coalesce(sum(u.emails), 0)::bigint,
+    coalesce(sum(u.cost_usd), 0)
+  from api_usage u
+  where u.created_at >= p_from
+    and u.created_at < p_to
+    and (p_user_id is null or u.user_id = p_user_id)
+    and (p_service is null or u.service_name = p_service)
+  group by 1, 2, 3
+  order by 3, 1, 2;
+$$;
@@ -0,0 +1,865 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { pathToFileURL } from 'url';
+import { ContractValidator, listHandlerRoutes, listOperations, loadSpec } from '../helpers/openapi';
+import { createMockRequest, createMockResponse, invokeHandler, MockRequest } from '../helpers/http';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { openAIService } from '../../src/services/OpenAIService';
+import { elevenLabsService } from '../../src/services/ElevenLabsService';
+import { resendService } from '../../src/services/ResendService';
+import { learnerProfileService } from '../../src/services/LearnerProfileService';
+import { ExternalAPIError, RateLimitError } from '../../src/utils/errors';
+import { ConversationAnalysis } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const spec = loadSpec();
+const validator = new ContractValidator(spec);
+const handlerRoutes = listHandlerRoutes();
+const operations = listOperations(spec);
+
+const USER_AUTH = { authorization: 'Bearer user-token' };
+const ADMIN_AUTH = { authorization: 'Bearer admin-token' };
+
+// Path parameter values that exist in the seeded fake database
+const PATH_PARAMS: Record<string, string> = {
+  userId: 'user-1',
+  promptId: 'prompt-general-1',
+  planId: 'plan-1',
+  setId: 'set-1',
+  jobId: 'job-1'
+};
+
+const analysisFixture: ConversationAnalysis = {
+  summary: 'The learner practiced greetings in Spanish.',
+  keyTopics: ['greetings'],
+  userInsights: {
+    languageLevel: 'Beginner',
+    commonMistakes: [],
+    interests: ['travel'],
+    learningStyle: 'practical',
+    strengths: ['pronunciation'],
+    areasForImprovement: ['verb conjugation']
+  },
+  conversationType: 'general',
+  learningProgress: {
+    vocabularyProgress: 'Developing',
+    grammarProgress: 'Developing',
+    fluencyProgress: 'Developing'
+  },
+  proficiency: {
+    cefrLevel: 'A1',
+    vocabulary: 30,
+    grammar: 25,
+    fluency: 28,
+    confidence: 0.5
+  }
+};
+
+interface ContractCase {
+  name: string;
+  path: string;
+  method: string;
+  request: Partial<MockRequest>;
+  status: number;
+  setup?: () => void;
+}
+
+let clientIpCounter = 0;
+
+/**
+ * Build one success case per documented request body example
+ */
+function exampleCases(): ContractCase[] {
+  return operations.flatMap(({ path, method, operation }) => {
+    const examples = operation.requestBody?.content?.['application/json']?.examples || {};
+    const successStatus = Object.keys(operation.responses)
+      .map(Number)
+      .filter(status => status >= 200 && status < 300)
+      .sort()[0];
+    const isPublic = Array.isArray(operation.security) && operation.security.length === 0;
+    const pathParams = Object.fromEntries(
+      [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => [name, PATH_PARAMS[name]])
+    );
+
+    return Object.entries<any>(examples).map(([exampleName, example]) => ({
+      name: `${method.toUpperCase()} ${path} accepts example "${exampleName}"`,
+      path,
+      method,
+      status: successStatus,
+      request: {
+        headers: isPublic
+          ? { 'x-forwarded-for': `10.0.0.${++clientIpCounter}` }
+          : path.startsWith('/api/admin/') ? ADMIN_AUTH : USER_AUTH,
+        query: pathParams,
+        body: example.value
+      }
+    }));
+  });
+}
+
+const cases: ContractCase[] = [
+  ...exampleCases(),
+  {
+    name: 'GET /api/health reports status',
+    path: '/api/health',
+    method: 'get',
+    status: 200,
+    request: {}
+  },
+  {
+    name: 'GET /api/docs serves the spec',
+    path: '/api/docs',
+    method: 'get',
+    status: 200,
+    request: {}
+  },
+  {
+    name: 'POST /api/contact/send rejects missing fields',
+    path: '/api/contact/send',
+    method: 'post',
+    status: 400,
+    request: { headers: { 'x-forwarded-for': '10.1.0.1' }, body: { firstName: 'John' } }
+  },
+  {
+    name: 'POST /api/openai/analyze requires authentication',
+    path: '/api/openai/analyze',
+    method: 'post',
+    status: 401,
+    request: { body: { messages: [], userProfile: {} } }
+  },
+  {
+    name: 'POST /api/openai/analyze rejects empty conversations',
+    path: '/api/openai/analyze',
+    method: 'post',
+    status: 400,
+    request: { headers: USER_AUTH, body: { messages: [], userProfile: {} } }
+  },
+  {
+    name: 'POST /api/openai/analyze blocks conversations flagged by moderation',
+    path: '/api/openai/analyze',
+    method: 'post',
+    status: 422,
+    request: {
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Send nudes' }], userProfile: {} }
+    }
+  },
+  {
+    name: 'POST /api/openai/analyze blocks analyses flagged by moderation',
+    path: '/api/openai/analyze',
+    method: 'post',
+    status: 422,
+    setup: () => {
+      vi.mocked(openAIService.analyzeConversation).mockResolvedValue({
+        ...analysisFixture,
+        summary: 'The learner asked where to find porn.'
+      });
+    },
+    request: {
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} }
+    }
+  },
+  {
+    name: 'POST /api/openai/corrections blocks messages flagged by moderation',
+    path: '/api/openai/corrections',
+    method: 'post',
+    status: 422,
+    request: {
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Send nudes' }], userProfile: {} }
+    }
+  },
+  {
+    name: 'POST /api/openai/corrections blocks corrections flagged by moderation',
+    path: '/api/openai/corrections',
+    method: 'post',
+    status: 422,
+    setup: () => {
+      vi.mocked(openAIService.correctMessages).mockResolvedValue({
+        corrections: [{
+          messageIndex: 0,
+          original: 'Hola',
+          corrected: 'Hola, where can I find porn?',
+          errors: []
+        }],
+        degraded: false
+      });
+    },
+    request: {
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} }
+    }
+  },
+  {
+    name: 'POST /api/openai/corrections requires a user message',
+    path: '/api/openai/corrections',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'assistant', content: 'Hola' }], userProfile: {} }
+    }
+  },
+  {
+    name: 'POST /api/openai/jobs rejects empty batches',
+    path: '/api/openai/jobs',
+    method: 'post',
+    status: 400,
+    request: { headers: USER_AUTH, body: { items: [] } }
+  },
+  {
+    name: 'GET /api/openai/jobs/{jobId} continues the job and returns its progress',
+    path: '/api/openai/jobs/{jobId}',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { jobId: 'job-1' } }
+  },
+  {
+    name: 'GET /api/openai/jobs/{jobId} reports unknown jobs',
+    path: '/api/openai/jobs/{jobId}',
+    method: 'get',
+    status: 404,
+    request: { headers: USER_AUTH, query: { jobId: 'job-unknown' } }
+  },
+  {
+    name: 'GET /api/openai/jobs/{jobId} denies access to other users\' jobs',
+    path: '/api/openai/jobs/{jobId}',
+    method: 'get',
+    status: 403,
+    request: { headers: USER_AUTH, query: { jobId: 'job-2' } }
+  },
+  {
+    name: 'GET /api/openai/jobs/{jobId}/results returns a page of results',
+    path: '/api/openai/jobs/{jobId}/results',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { jobId: 'job-1', limit: '10' } }
+  },
+  {
+    name: 'GET /api/openai/jobs/{jobId}/results rejects invalid pages',
+    path: '/api/openai/jobs/{jobId}/results',
+    method: 'get',
+    status: 400,
+    request: { headers: USER_AUTH, query: { jobId: 'job-1', limit: '0' } }
+  },
+  {
+    name: 'POST /api/openai/analyze-stream rejects vocabulary practice',
+    path: '/api/openai/analyze-stream',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: USER_AUTH,
+      body: {
+        messages: [{ role: 'user', content: 'casa' }],
+        userProfile: {},
+        vocabularyContext: { word_list_title: 'Home', word_list_topic: 'Home', word_list_words: [{ word: 'casa' }] }
+      }
+    }
+  },
+  {
+    name: 'POST /api/elevenlabs/conversation requires a message for send_message',
+    path: '/api/elevenlabs/conversation',
+    method: 'post',
+    status: 400,
+    request: { headers: USER_AUTH, body: { action: 'send_message', conversationId: 'conv_456' } }
+  },
+  {
+    name: 'POST /api/elevenlabs/conversation maps service failures to 502',
+    path: '/api/elevenlabs/conversation',
+    method: 'post',
+    status: 502,
+    setup: () => {
+      vi.mocked(elevenLabsService.endConversation).mockRejectedValue(
+        new ExternalAPIError('Failed to end ElevenLabs conversation', 'elevenlabs')
+      );
+    },
+    request: { headers: USER_AUTH, body: { action: 'end_conversation', conversationId: 'conv_456' } }
+  },
+  {
+    name: 'POST /api/elevenlabs/voice rejects empty text',
+    path: '/api/elevenlabs/voice',
+    method: 'post',
+    status: 400,
+    request: { headers: USER_AUTH, body: { text: '', voiceId: 'voice_123' } }
+  },
+  {
+    name: 'POST /api/resend/send rejects incomplete template data',
+    path: '/api/resend/send',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: USER_AUTH,
+      body: { emailType: 'welcome', to: 'newuser@example.com', data: { userName: 'John Doe' } }
+    }
+  },
+  {
+    name: 'POST /api/resend/send does not send internal templates',
+    path: '/api/resend/send',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: USER_AUTH,
+      body: {
+        emailType: 'moderation_alert',
+        to: 'anyone@example.com',
+        data: { studentName: 'Ana', categories: ['self_harm'], action: 'alert' }
+      }
+    }
+  },
+  {
+    name: 'GET /api/users/{userId}/activity/logs lists own logs',
+    path: '/api/users/{userId}/activity/logs',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { userId: 'user-1' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/activity/logs denies access to other users',
+    path: '/api/users/{userId}/activity/logs',
+    method: 'get',
+    status: 400,
+    request: { headers: USER_AUTH, query: { userId: 'user-2' } }
+  },
+  {
+    name: 'POST /api/users/{userId}/activity/logs rejects unknown action types',
+    path: '/api/users/{userId}/activity/logs',
+    method: 'post',
+    status: 400,
+    request: { headers: USER_AUTH, query: { userId: 'user-1' }, body: { actionType: 'unknown' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/learning-profile returns the merged profile',
+    path: '/api/users/{userId}/learning-profile',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { userId: 'user-1' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/learning-profile lets admins read any profile',
+    path: '/api/users/{userId}/learning-profile',
+    method: 'get',
+    status: 200,
+    request: { headers: ADMIN_AUTH, query: { userId: 'user-1' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/learning-profile denies access to other users',
+    path: '/api/users/{userId}/learning-profile',
+    method: 'get',
+    status: 403,
+    request: { headers: USER_AUTH, query: { userId: 'user-2' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/quota returns the remaining allowance',
+    path: '/api/users/{userId}/quota',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { userId: 'user-1' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/quota denies access to other users',
+    path: '/api/users/{userId}/quota',
+    method: 'get',
+    status: 403,
+    request: { headers: USER_AUTH, query: { userId: 'user-2' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/vocabulary/due lists words due for review',
+    path: '/api/users/{userId}/vocabulary/due',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { userId: 'user-1', limit: '10' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/vocabulary/due rejects invalid limits',
+    path: '/api/users/{userId}/vocabulary/due',
+    method: 'get',
+    status: 400,
+    request: { headers: USER_AUTH, query: { userId: 'user-1', limit: '500' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/study-plans lists plans',
+    path: '/api/users/{userId}/study-plans',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { userId: 'user-1' } }
+  },
+  {
+    name: 'POST /api/users/{userId}/study-plans requires a practice language',
+    path: '/api/users/{userId}/study-plans',
+    method: 'post',
+    status: 400,
+    request: { headers: USER_AUTH, query: { userId: 'user-1' }, body: { userProfile: { level: 'Beginner' } } }
+  },
+  {
+    name: 'GET /api/users/{userId}/study-plans/{planId} returns a plan',
+    path: '/api/users/{userId}/study-plans/{planId}',
+    method: 'get',
+    status: 200,
+    request: { headers: USER_AUTH, query: { userId: 'user-1', planId: 'plan-1' } }
+  },
+  {
+    name: 'GET /api/users/{userId}/study-plans/{planId} reports unknown plans',
+    path: '/api/users/{userId}/study-plans/{planId}',
+    method: 'get',
+    status: 404,
+    request: { headers: USER_AUTH, query: { userId: 'user-1', planId: 'plan-unknown' } }
+  },
+  {
+    name: 'POST /api/users/{userId}/exercises rejects unknown exercise types',
+    path: '/api/users/{userId}/exercises',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: USER_AUTH,
+      query: { userId: 'user-1' },
+      body: { userProfile: { practice_languages: ['Spanish'] }, types: ['essay'] }
+    }
+  },
+  {
+    name: 'POST /api/users/{userId}/exercises/{setId}/grade reports unknown sets',
+    path: '/api/users/{userId}/exercises/{setId}/grade',
+    method: 'post',
+    status: 404,
+    request: {
+      headers: USER_AUTH,
+      query: { userId: 'user-1', setId: 'set-unknown' },
+      body: { answers: [{ exerciseId: 'ex-1', answer: 'fui' }] }
+    }
+  },
+  {
+    name: 'POST /api/users/{userId}/exercises/{setId}/grade rejects unknown exercises',
+    path: '/api/users/{userId}/exercises/{setId}/grade',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: USER_AUTH,
+      query: { userId: 'user-1', setId: 'set-1' },
+      body: { answers: [{ exerciseId: 'ex-9', answer: 'fui' }] }
+    }
+  },
+  {
+    name: 'GET /api/admin/activity/logs lists logs for admins',
+    path: '/api/admin/activity/logs',
+    method: 'get',
+    status: 200,
+    request: { headers: ADMIN_AUTH }
+  },
+  {
+    name: 'GET /api/admin/activity/logs rejects non-admins',
+    path: '/api/admin/activity/logs',
+    method: 'get',
+    status: 400,
+    request: { headers: USER_AUTH }
+  },
+  {
+    name: 'GET /api/admin/activity/logs requires authentication',
+    path: '/api/admin/activity/logs',
+    method: 'get',
+    status: 401,
+    request: {}
+  },
+  {
+    name: 'GET /api/admin/usage reports usage for admins',
+    path: '/api/admin/usage',
+    method: 'get',
+    status: 200,
+    request: { headers: ADMIN_AUTH, query: { from: '2024-01-01', to: '2024-01-31' } }
+  },
+  {
+    name: 'GET /api/admin/usage rejects reversed date ranges',
+    path: '/api/admin/usage',
+    method: 'get',
+    status: 400,
+    request: { headers: ADMIN_AUTH, query: { from: '2024-02-01', to: '2024-01-01' } }
+  },
+  {
+    name: 'GET /api/admin/usage rejects non-admins',
+    path: '/api/admin/usage',
+    method: 'get',
+    status: 403,
+    request: { headers: USER_AUTH }
+  },
+  {
+    name: 'GET /api/admin/moderation/alerts lists open alerts for admins',
+    path: '/api/admin/moderation/alerts',
+    method: 'get',
+    status: 200,
+    request: { headers: ADMIN_AUTH, query: { status: 'open' } }
+  },
+  {
+    name: 'GET /api/admin/moderation/alerts rejects non-admins',
+    path: '/api/admin/moderation/alerts',
+    method: 'get',
+    status: 403,
+    request: { headers: USER_AUTH }
+  },
+  {
+    name: 'GET /api/admin/prompts lists prompts for admins',
+    path: '/api/admin/prompts',
+    method: 'get',
+    status: 200,
+    request: { headers: ADMIN_AUTH, query: { conversationType: 'general', active: 'true' } }
+  },
+  {
+    name: 'GET /api/admin/prompts rejects non-admins',
+    path: '/api/admin/prompts',
+    method: 'get',
+    status: 403,
+    request: { headers: USER_AUTH }
+  },
+  {
+    name: 'POST /api/admin/prompts rejects undeclared template variables',
+    path: '/api/admin/prompts',
+    method: 'post',
+    status: 400,
+    request: {
+      headers: ADMIN_AUTH,
+      body: {
+        promptName: 'Broken',
+        conversationType: 'general',
+        languageCode: 'en',
+        promptTemplate: '{{conversation_text}} {{mood}}',
+        variables: ['conversation_text']
+      }
+    }
+  },
+  {
+    name: 'POST /api/admin/prompts/{promptId}/activate reports unknown prompts',
+    path: '/api/admin/prompts/{promptId}/activate',
+    method: 'post',
+    status: 404,
+    request: { headers: ADMIN_AUTH, query: { promptId: 'prompt-unknown' }, body: {} }
+  }
+];
+
+async function loadHandler(path: string): Promise<(req: any, res: any) => unknown> {
+  const route = handlerRoutes.find(candidate => candidate.path === path);
+  if (!route) {
+    throw new Error(`No handler found for ${path}`);
+  }
+  const module = await import(pathToFileURL(route.file).href);
+  return module.default;
+}
+
+describe('OpenAPI contract', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetFakeSupabaseState(supabaseState);
+
+    supabaseState.users = {
+      'user-token': { id: 'user-1', email: 'learner@example.com' },
+      'admin-token': { id: 'admin-1', email: 'admin@example.com' }
+    };
+    supabaseState.tables.profiles = [
+      { user_id: 'user-1', user_role: 'student' },
+      { user_id: 'admin-1', user_role: 'admin' }
+    ];
+    supabaseState.tables.user_action_logs = [
+      { id: 'log-1', user_id: 'user-1', action_type: 'login', action_data: null, created_at: '2024-01-15T10:30:00Z' }
+    ];
+    supabaseState.tables.analysis_prompts = [
+      {
+        id: 'prompt-general-1',
+        prompt_name: 'General analysis',
+        prompt_version: '1',
+        conversation_type: 'general',
+        language_code: 'en',
+        prompt_template: 'Analyze this conversation:\n{{conversation_text}}',
+        variables: ['conversation_text'],
+        description: null,
+        is_active: true,
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    ];
+    supabaseState.tables.conversation_analyses = [
+      { id: 'ca-1', user_id: 'user-1', conversation_id: 'conv-1', conversation_type: 'general', analysis: analysisFixture, created_at: '2024-01-15T10:30:00Z' }
+    ];
+    supabaseState.tables.proficiency_estimates = [
+      {
+        id: 'pe-1',
+        user_id: 'user-1',
+        conversation_id: 'conv-1',
+        conversation_type: 'general',
+        prompt_id: null,
+        cefr_level: 'A1',
+        vocabulary_score: 30,
+        grammar_score: 25,
+        fluency_score: 28,
+        confidence: 0.5,
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    ];
+    supabaseState.tables.vocabulary_reviews = [
+      { id: 'vr-1', user_id: 'user-1', word: 'perro', translation: 'dog', due_at: '2024-01-15T10:30:00Z' }
+    ];
+    supabaseState.tables.study_plans = [
+      {
+        id: 'plan-1',
+        user_id: 'user-1',
+        title: 'Spanish for travel',
+        practice_language: 'Spanish',
+        weeks: [{
+          week: 1,
+          focus: 'Eating out',
+          topics: [{ title: 'At the restaurant', description: 'Order a meal', objectives: ['Order politely'] }]
+        }],
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    ];
+    supabaseState.tables.exercise_sets = [
+      {
+        id: 'set-1',
+        user_id: 'user-1',
+        practice_language: 'Spanish',
+        exercises: [
+          {
+            id: 'ex-1',
+            type: 'fill_in_blank',
+            instructions: 'Fill in the blank with the past tense of ir.',
+            prompt: 'Ayer ___ al mercado.',
+            answer: 'fui',
+            explanation: 'Fui is the first person preterite of ir.',
+            focus: 'Past tense'
+          },
+          {
+            id: 'ex-2',
+            type: 'multiple_choice',
+            instructions: 'Choose the correct verb.',
+            prompt: 'El café ___ frío.',
+            options: ['es', 'está'],
+            answer: 'está',
+            explanation: 'Temporary states take estar.',
+            focus: 'ser vs estar'
+          }
+        ],
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    ];
+    supabaseState.tables.analysis_jobs = [
+      { id: 'job-1', user_id: 'user-1', status: 'running', total: 2, succeeded_count: 1, failed_count: 0, lease_version: 0, created_at: '2024-01-15T10:30:00Z', updated_at: '2024-01-15T10:30:00Z' },
+      { id: 'job-2', user_id: 'user-2', status: 'queued', total: 1, succeeded_count: 0, failed_count: 0, lease_version: 0, created_at: '2024-01-15T10:30:00Z', updated_at: '2024-01-15T10:30:00Z' }
+    ];
+    supabaseState.tables.analysis_job_items = [
+      {
+        id: 'ji-1',
+        job_id: 'job-1',
+        position: 0,
+        conversation_id: 'conv-1',
+        request: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} },
+        status: 'succeeded',
+        attempts: 1,
+        analysis: analysisFixture,
+        last_error: null
+      },
+      {
+        id: 'ji-2',
+        job_id: 'job-1',
+        position: 1,
+        conversation_id: null,
+        request: { messages: [{ role: 'user', content: 'Ayer fui al mercado.' }], userProfile: {} },
+        status: 'pending',
+        attempts: 0
+      },
+      {
+        id: 'ji-3',
+        job_id: 'job-2',
+        position: 0,
+        conversation_id: null,
+        request: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} },
+        status: 'pending',
+        attempts: 0
+      }
+    ];
+    supabaseState.tables.api_usage = [
+      {
+        id: 'au-1',
+        user_id: 'user-1',
+        service_name: 'openai',
+        endpoint: 'https://api.openai.com/v1/chat/completions',
+        model: 'gpt-4o-mini',
+        prompt_tokens: 1200,
+        completion_tokens: 300,
+        characters: 0,
+        emails: 0,
+        cost_usd: 0.00036,
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    ];
+    supabaseState.tables.moderation_alerts = [
+      {
+        id: 'alert-1',
+        user_id: 'user-1',
+        conversation_id: 'conv_456',
+        path: 'conversation',
+        action: 'alert',
+        categories: ['harassment'],
+        flags: [{ source: 'user_message', categories: ['harassment'] }],
+        classifier: 'rules',
+        status: 'open',
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    ];
+    supabaseState.tables.unified_logs = [
+      { id: 'ul-1', user_id: 'user-1', event_category: 'user_action', event_type: 'login', event_data: {}, metadata: {}, created_at: '2024-01-15T10:30:00Z' }
+    ];
+
+    vi.spyOn(openAIService, 'analyzeConversation').mockResolvedValue(analysisFixture);
+    vi.spyOn(openAIService, 'analyzeVocabularyPractice').mockResolvedValue({
+      ...analysisFixture,
+      conversationType: 'vocabulary_practice'
+    });
+    vi.spyOn(openAIService, 'correctMessages').mockResolvedValue({
+      corrections: [{
+        messageIndex: 0,
+        original: 'Ayer yo voy a la playa',
+        corrected: 'Ayer yo fui a la playa',
+        errors: [{ start: 8, end: 11, text: 'voy', correction: 'fui', category: 'tense', explanation: 'Use the preterite.' }]
+      }],
+      degraded: false
+    });
+    vi.spyOn(openAIService, 'streamConversationAnalysis').mockImplementation(async function* () {
+      yield { type: 'summary' as const, delta: analysisFixture.summary };
+      yield { type: 'analysis' as const, analysis: analysisFixture };
+    });
+    vi.spyOn(openAIService, 'generateStudyPlan').mockResolvedValue({
+      title: 'Spanish for travel',
+      weeks: [{
+        week: 1,
+        focus: 'Eating out',
+        topics: [{ title: 'At the restaurant', description: 'Order a meal', objectives: ['Order politely'] }]
+      }]
+    });
+    vi.spyOn(openAIService, 'generateExercises').mockResolvedValue([{
+      id: 'ex-1',
+      type: 'fill_in_blank',
+      instructions: 'Fill in the blank with the past tense of ir.',
+      prompt: 'Ayer ___ al mercado.',
+      answer: 'fui',
+      explanation: 'Fui is the first person preterite of ir.',
+      focus: 'Past tense'
+    }]);
+    vi.spyOn(elevenLabsService, 'startConversation').mockResolvedValue({ conversation_id: 'conv_456' });
+    vi.spyOn(elevenLabsService, 'sendMessage').mockResolvedValue({ status: 'ok' });
+    vi.spyOn(elevenLabsService, 'endConversation').mockResolvedValue({ status: 'ended' });
+    vi.spyOn(elevenLabsService, 'generateVoice').mockResolvedValue({
+      audioUrl: 'https://api.elevenlabs.io/v1/text-to-speech/voice_123/generated_1.mp3',
+      duration: 2
+    });
+    vi.spyOn(resendService, 'sendEmail').mockResolvedValue({ id: 'email_1', status: 'sent' });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ id: 'contact_1' }), { status: 200 })));
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('documents every handler under api/', () => {
+    const documented = new Set(Object.keys(spec.paths));
+    const undocumented = handlerRoutes.filter(route => !documented.has(route.path)).map(route => route.path);
+
+    expect(undocumented).toEqual([]);
+  });
+
+  it('has a handler for every documented path', () => {
+    const served = new Set(handlerRoutes.map(route => route.path));
+    const missing = Object.keys(spec.paths).filter(path => !served.has(path));
+
+    expect(missing).toEqual([]);
+  });
+
+  it('exercises every documented operation with a successful call', () => {
+    const exercised = new Set(
+      cases.filter(testCase => testCase.status < 300).map(testCase => `${testCase.method} ${testCase.path}`)
+    );
+    const unexercised = operations
+      .map(({ path, method }) => `${method} ${path}`)
+      .filter(key => !exercised.has(key));
+
+    expect(unexercised).toEqual([]);
+  });
+
+  it('ends the analysis stream with an error event when the analysis fails mid-stream', async () => {
+    vi.spyOn(openAIService, 'streamConversationAnalysis').mockImplementation(async function* () {
+      yield { type: 'summary' as const, delta: 'The learner' };
+      throw new RateLimitError('Daily AI token quota exceeded');
+    });
+
+    const handler = await loadHandler('/api/openai/analyze-stream');
+    const res = await invokeHandler(handler, {
+      method: 'POST',
+      url: '/api/openai/analyze-stream',
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).not.toContain('The learner');
+    expect(res.body).toMatch(/event: error\ndata: \{"status":429,"error":"Rate Limit Exceeded"/);
+  });
+
+  it('records the streamed analysis before ending the stream', async () => {
+    vi.spyOn(openAIService, 'streamConversationAnalysis').mockImplementation(async function* () {
+      yield { type: 'summary' as const, delta: analysisFixture.summary };
+      yield { type: 'analysis' as const, analysis: analysisFixture };
+    });
+    const recordAnalysis = vi.spyOn(learnerProfileService, 'recordAnalysis').mockResolvedValue(undefined);
+
+    const handler = await loadHandler('/api/openai/analyze-stream');
+    const res = createMockResponse();
+    const end = vi.spyOn(res, 'end');
+    await handler(createMockRequest({
+      method: 'POST',
+      url: '/api/openai/analyze-stream',
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} }
+    }), res);
+
+    expect(res.body).toContain('event: analysis');
+    expect(recordAnalysis).toHaveBeenCalledTimes(1);
+    expect(recordAnalysis.mock.invocationCallOrder[0]).toBeLessThan(end.mock.invocationCallOrder[0]);
+  });
+
+  it('holds back the streamed summary of an analysis that fails moderation', async () => {
+    vi.spyOn(openAIService, 'streamConversationAnalysis').mockImplementation(async function* () {
+      yield { type: 'summary' as const, delta: 'The learner asked where to find porn.' };
+      yield { type: 'analysis' as const, analysis: { ...analysisFixture, summary: 'The learner asked where to find porn.' } };
+    });
+
+    const handler = await loadHandler('/api/openai/analyze-stream');
+    const res = await invokeHandler(handler, {
+      method: 'POST',
+      url: '/api/openai/analyze-stream',
+      headers: USER_AUTH,
+      body: { messages: [{ role: 'user', content: 'Hola' }], userProfile: {} }
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).not.toContain('event: summary');
+    expect(res.body).not.toContain('porn');
+    expect(res.body).toMatch(/event: error\ndata: \{"status":422/);
+  });
+
+  it.each(cases)('$name', async testCase => {
+    testCase.setup?.();
+
+    const handler = await loadHandler(testCase.path);
+    const url = testCase.path.replace(/\{(\w+)\}/g, (_, name) => String(testCase.request.query?.[name] ?? name));
+    const res = await invokeHandler(handler, {
+      method: testCase.method.toUpperCase(),
+      url,
+      ...testCase.request
+    });
+
+    expect(res.statusCode).toBe(testCase.status);
+
+    const contentType = res.headers['content-type']?.split(';')[0] || 'application/json';
+    expect(validator.validateResponse(testCase.path, testCase.method, res.statusCode, contentType, res.body)).toEqual([]);
+  });
+});
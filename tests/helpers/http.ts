@@ -0,0 +1,93 @@
+/**
+ * Minimal Vercel request/response doubles for calling handlers in-process
+ */
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  query: Record<string, string | string[]>;
+  body?: any;
+  connection?: { remoteAddress?: string };
+}
+
+export interface MockResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: any;
+  headersSent: boolean;
+  status(code: number): MockResponse;
+  setHeader(name: string, value: string): MockResponse;
+  json(body: any): MockResponse;
+  send(body: any): MockResponse;
+  write(chunk: string): boolean;
+  flushHeaders(): void;
+  end(): MockResponse;
+}
+
+export function createMockRequest(options: Partial<MockRequest> = {}): MockRequest {
+  return {
+    method: 'GET',
+    url: '/',
+    headers: {},
+    query: {},
+    ...options
+  };
+}
+
+export function createMockResponse(): MockResponse {
+  const res: MockResponse = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    headersSent: false,
+    status(code: number) {
+      if (!res.headersSent) {
+        res.statusCode = code;
+      }
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(body: any) {
+      return res.send(body);
+    },
+    send(body: any) {
+      if (res.headersSent) {
+        throw new Error('Cannot send a response twice');
+      }
+      res.body = body;
+      res.headersSent = true;
+      return res;
+    },
+    write(chunk: string) {
+      res.body = (res.body ?? '') + chunk;
+      res.headersSent = true;
+      return true;
+    },
+    flushHeaders() {
+      res.headersSent = true;
+    },
+    end() {
+      res.headersSent = true;
+      return res;
+    }
+  };
+
+  return res;
+}
+
+/**
+ * Invoke a handler and wait for it to settle
+ */
+export async function invokeHandler(
+  handler: (req: any, res: any) => unknown,
+  request: Partial<MockRequest>
+): Promise<MockResponse> {
+  const req = createMockRequest(request);
+  const res = createMockResponse();
+  await handler(req, res);
+  return res;
+}
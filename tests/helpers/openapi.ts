@@ -0,0 +1,158 @@
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { parse } from 'yaml';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+
+/**
+ * OpenAPI helpers for contract tests
+ * Loads docs/openapi.yaml, maps handler files to spec paths and validates responses
+ */
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+export interface SpecOperation {
+  path: string;
+  method: string;
+  operation: any;
+}
+
+const rootDir = process.cwd();
+const specFile = join(rootDir, 'docs', 'openapi.yaml');
+
+export function loadSpec(): any {
+  return parse(readFileSync(specFile, 'utf8'));
+}
+
+/**
+ * List every operation declared in the spec
+ */
+export function listOperations(spec: any): SpecOperation[] {
+  return Object.entries<any>(spec.paths || {}).flatMap(([path, item]) =>
+    HTTP_METHODS
+      .filter(method => item[method])
+      .map(method => ({ path, method, operation: item[method] }))
+  );
+}
+
+/**
+ * Map every handler under api/ to the spec path it serves
+ * Vercel dynamic segments ([userId]) become OpenAPI path parameters ({userId})
+ */
+export function listHandlerRoutes(apiDir: string = join(rootDir, 'api')): Array<{ file: string; path: string }> {
+  const files: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir)) {
+      const fullPath = join(dir, entry);
+      if (statSync(fullPath).isDirectory()) {
+        walk(fullPath);
+      } else if (/\.(ts|js)$/.test(entry) && !entry.endsWith('.d.ts')) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  walk(apiDir);
+
+  return files.sort().map(file => {
+    const route = relative(rootDir, file)
+      .split(sep)
+      .join('/')
+      .replace(/\.(ts|js)$/, '')
+      .replace(/\/index$/, '')
+      .replace(/\[([^\]]+)\]/g, '{$1}');
+
+    return { file, path: `/${route}` };
+  });
+}
+
+/**
+ * Resolve a local JSON pointer ($ref) inside the spec
+ */
+export function resolveRef(spec: any, value: any): any {
+  if (!value || typeof value.$ref !== 'string') {
+    return value;
+  }
+
+  const target = value.$ref
+    .replace(/^#\//, '')
+    .split('/')
+    .reduce((node: any, key: string) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+
+  return resolveRef(spec, target);
+}
+
+export class ContractValidator {
+  private readonly ajv: Ajv;
+  private readonly compiled = new Map<string, ValidateFunction>();
+
+  constructor(private readonly spec: any) {
+    this.ajv = new Ajv({ strict: false, allErrors: true });
+    addFormats(this.ajv);
+    this.ajv.addSchema(spec, 'openapi');
+  }
+
+  /**
+   * Get the documented response for an operation and status code
+   */
+  getResponse(path: string, method: string, status: number): any | undefined {
+    const operation = this.spec.paths?.[path]?.[method];
+    const response = operation?.responses?.[String(status)];
+    return response ? resolveRef(this.spec, response) : undefined;
+  }
+
+  /**
+   * Validate a response body against the documented schema
+   * Returns a list of human-readable errors (empty when valid)
+   */
+  validateResponse(path: string, method: string, status: number, contentType: string, body: any): string[] {
+    const response = this.getResponse(path, method, status);
+    if (!response) {
+      return [`${method.toUpperCase()} ${path} does not document status ${status}`];
+    }
+
+    const content = response.content?.[contentType];
+    if (!content) {
+      return response.content
+        ? [`${method.toUpperCase()} ${path} ${status} does not document content type ${contentType}`]
+        : [];
+    }
+
+    const pointer = this.pointerFor(path, method, status, contentType, content.schema);
+    const validate = this.getValidator(pointer);
+
+    if (validate(body)) {
+      return [];
+    }
+
+    return (validate.errors || []).map((error: ErrorObject) => `${error.instancePath || '(root)'} ${error.message}`);
+  }
+
+  private pointerFor(path: string, method: string, status: number, contentType: string, schema: any): string {
+    if (schema?.$ref) {
+      return schema.$ref;
+    }
+
+    const response = this.spec.paths[path][method].responses[String(status)];
+    const escape = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+    if (response.$ref) {
+      return `${response.$ref}/content/${escape(contentType)}/schema`;
+    }
+
+    return `#/paths/${escape(path)}/${method}/responses/${status}/content/${escape(contentType)}/schema`;
+  }
+
+  private getValidator(pointer: string): ValidateFunction {
+    let validate = this.compiled.get(pointer);
+    if (!validate) {
+      validate = this.ajv.getSchema(`openapi${pointer}`);
+      if (!validate) {
+        throw new Error(`Unable to compile schema at ${pointer}`);
+      }
+      this.compiled.set(pointer, validate);
+    }
+    return validate;
+  }
+}
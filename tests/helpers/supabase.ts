@@ -0,0 +1,380 @@
+/**
+ * In-memory Supabase client for tests
+ * Implements the subset of the query builder and the database functions used by the API handlers and services
+ */
+
+export interface FakeUser {
+  id: string;
+  email: string;
+}
+
+export interface FakeSupabaseState {
+  tables: Record<string, any[]>;
+  users: Record<string, FakeUser>;
+  failures: Record<string, string>;
+}
+
+export function createFakeSupabaseState(): FakeSupabaseState {
+  return {
+    tables: {},
+    users: {},
+    failures: {}
+  };
+}
+
+/**
+ * Reset state in place so that hoisted references stay valid
+ */
+export function resetFakeSupabaseState(state: FakeSupabaseState): void {
+  state.tables = {};
+  state.users = {};
+  state.failures = {};
+}
+
+type Filter = (row: any) => boolean;
+
+// PostgREST returns at most this many rows per request (Supabase's default max-rows)
+const MAX_ROWS = 1000;
+
+class FakeQuery implements PromiseLike<{ data: any; error: any; count?: number | null }> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: any[] = [];
+  private filters: Filter[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private rangeBounds: { from: number; to: number } | null = null;
+  private rowLimit: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private countRequested = false;
+  private headOnly = false;
+  private upsertConflict: string[] = ['id'];
+  private ignoreDuplicates = false;
+
+  constructor(private readonly table: string, private readonly state: FakeSupabaseState) {}
+
+  select(_columns: string = '*', options: { count?: string; head?: boolean } = {}): this {
+    this.countRequested = !!options.count;
+    this.headOnly = !!options.head;
+    return this;
+  }
+
+  insert(values: any | any[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: any | any[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    if (options.onConflict) {
+      this.upsertConflict = options.onConflict.split(',').map(column => column.trim());
+    }
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: any): this {
+    this.operation = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: any): this {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: any[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: any): this {
+    this.filters.push(row => row[column] >= value);
+    return this;
+  }
+
+  lte(column: string, value: any): this {
+    this.filters.push(row => row[column] <= value);
+    return this;
+  }
+
+  lt(column: string, value: any): this {
+    this.filters.push(row => row[column] < value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering = { column, ascending: options.ascending !== false };
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.rangeBounds = { from, to };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = any, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: any; count?: number | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): { data: any; error: any; count?: number | null } {
+    const failure = this.state.failures[this.table];
+    if (failure) {
+      return { data: null, error: { message: failure }, count: null };
+    }
+
+    const rows = this.state.tables[this.table] || (this.state.tables[this.table] = []);
+    let result: any[];
+
+    switch (this.operation) {
+      case 'insert':
+        // One at a time, so rows inserted together get distinct ids
+        result = this.payload.map(values => {
+          const created = this.withDefaults(values);
+          rows.push(created);
+          return created;
+        });
+        break;
+
+      case 'upsert':
+        // Rows skipped as duplicates are not returned, like ON CONFLICT DO NOTHING
+        result = this.payload.flatMap(values => {
+          const existing = rows.find(row => this.upsertConflict.every(column => row[column] === values[column]));
+          if (existing && this.ignoreDuplicates) {
+            return [];
+          }
+          if (existing) {
+            Object.assign(existing, values, { updated_at: new Date().toISOString() });
+            return [existing];
+          }
+          const created = this.withDefaults(values);
+          rows.push(created);
+          return [created];
+        });
+        break;
+
+      case 'update':
+        result = rows.filter(row => this.matches(row));
+        result.forEach(row => Object.assign(row, this.payload[0]));
+        break;
+
+      case 'delete':
+        result = rows.filter(row => this.matches(row));
+        this.state.tables[this.table] = rows.filter(row => !result.includes(row));
+        break;
+
+      default:
+        result = rows.filter(row => this.matches(row));
+    }
+
+    const count = result.length;
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      result = [...result].sort((a, b) => {
+        if (a[column] === b[column]) return 0;
+        return (a[column] > b[column] ? 1 : -1) * (ascending ? 1 : -1);
+      });
+    }
+
+    if (this.rangeBounds) {
+      result = result.slice(this.rangeBounds.from, this.rangeBounds.to + 1);
+    }
+
+    if (this.rowLimit !== null) {
+      result = result.slice(0, this.rowLimit);
+    }
+
+    result = result.slice(0, MAX_ROWS);
+
+    if (this.singleMode) {
+      if (result.length !== 1 && (this.singleMode === 'single' || result.length > 1)) {
+        return { data: null, error: { message: `Expected a single row from ${this.table}, found ${result.length}` } };
+      }
+      return { data: result[0] ?? null, error: null };
+    }
+
+    return {
+      data: this.headOnly ? null : result,
+      error: null,
+      count: this.countRequested ? count : null
+    };
+  }
+
+  private matches(row: any): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private withDefaults(values: any): any {
+    return {
+      id: `${this.table}_${(this.state.tables[this.table]?.length || 0) + 1}`,
+      created_at: new Date().toISOString(),
+      ...values
+    };
+  }
+}
+
+/**
+ * Database functions from supabase/migrations, reimplemented over the in-memory tables
+ */
+const FAKE_FUNCTIONS: Record<string, (state: FakeSupabaseState, args: any) => any> = {
+  activate_prompt_version: (state, args) => {
+    const rows = state.tables.analysis_prompts || [];
+    const target = rows.find(row => row.id === args.p_prompt_id);
+    if (!target) {
+      throw new Error(`Prompt not found: ${args.p_prompt_id}`);
+    }
+
+    if (args.p_traffic_weight === null || args.p_traffic_weight === undefined) {
+      rows
+        .filter(row => row.conversation_type === target.conversation_type && row.language_code === target.language_code)
+        .forEach(row => { row.is_active = false; });
+      target.is_active = true;
+    } else {
+      Object.assign(target, { is_active: true, traffic_weight: args.p_traffic_weight });
+    }
+
+    return target;
+  },
+
+  api_usage_totals: (state, args) => {
+    const rows = (state.tables.api_usage || [])
+      .filter(row => row.user_id === args.p_user_id && row.created_at >= args.p_since);
+    const sum = (value: (row: any) => number) => rows.reduce((total, row) => total + value(row), 0);
+
+    return {
+      tokens_used: sum(row => (row.prompt_tokens || 0) + (row.completion_tokens || 0)),
+      characters_used: sum(row => row.characters || 0),
+      emails_used: sum(row => row.emails || 0)
+    };
+  },
+
+  api_usage_report: (state, args) => {
+    const groups = new Map<string, any>();
+    (state.tables.api_usage || [])
+      .filter(row => row.created_at >= args.p_from && row.created_at < args.p_to)
+      .filter(row => !args.p_user_id || row.user_id === args.p_user_id)
+      .filter(row => !args.p_service || row.service_name === args.p_service)
+      .forEach(row => {
+        const day = String(row.created_at).slice(0, 10);
+        const key = `${row.user_id}|${row.service_name}|${day}`;
+        const group = groups.get(key) || {
+          user_id: row.user_id ?? null,
+          service_name: row.service_name,
+          day,
+          calls: 0,
+          prompt_tokens: 0,
+          completion_tokens: 0,
+          characters: 0,
+          emails: 0,
+          cost_usd: 0
+        };
+        group.calls += 1;
+        group.prompt_tokens += row.prompt_tokens || 0;
+        group.completion_tokens += row.completion_tokens || 0;
+        group.characters += row.characters || 0;
+        group.emails += row.emails || 0;
+        group.cost_usd += Number(row.cost_usd) || 0;
+        groups.set(key, group);
+      });
+
+    return [...groups.values()].sort((a, b) =>
+      a.day.localeCompare(b.day) || String(a.user_id).localeCompare(String(b.user_id)) || a.service_name.localeCompare(b.service_name)
+    );
+  }
+};
+
+class FakeRpc implements PromiseLike<{ data: any; error: any }> {
+  private singleRow = false;
+  private rangeBounds: { from: number; to: number } | null = null;
+
+  constructor(private readonly fn: string, private readonly args: any, private readonly state: FakeSupabaseState) {}
+
+  single(): this {
+    this.singleRow = true;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.rangeBounds = { from, to };
+    return this;
+  }
+
+  then<TResult1 = any, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): { data: any; error: any } {
+    const failure = this.state.failures[this.fn];
+    const implementation = FAKE_FUNCTIONS[this.fn];
+    if (failure || !implementation) {
+      return { data: null, error: { message: failure || `Unknown function ${this.fn}` } };
+    }
+
+    try {
+      const result = implementation(this.state, this.args);
+      if (this.singleRow) {
+        return { data: Array.isArray(result) ? result[0] ?? null : result, error: null };
+      }
+
+      // Set-returning functions are paged and capped like tables
+      let rows = Array.isArray(result) ? result : [result];
+      if (this.rangeBounds) {
+        rows = rows.slice(this.rangeBounds.from, this.rangeBounds.to + 1);
+      }
+      return { data: rows.slice(0, MAX_ROWS), error: null };
+    } catch (error) {
+      return { data: null, error: { message: (error as Error).message } };
+    }
+  }
+}
+
+/**
+ * Create a fake client bound to the given state
+ */
+export function createFakeSupabaseClient(state: FakeSupabaseState) {
+  return {
+    auth: {
+      getUser: async (token: string) => {
+        const user = state.users[token];
+        return user
+          ? { data: { user }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid token' } };
+      }
+    },
+    from: (table: string) => new FakeQuery(table, state),
+    rpc: (fn: string, args: any = {}) => new FakeRpc(fn, args, state)
+  };
+}
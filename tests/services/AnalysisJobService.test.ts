@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { analysisJobService, getJobConcurrency } from '../../src/services/AnalysisJobService';
+import { openAIService } from '../../src/services/OpenAIService';
+import { ExternalAPIError, RateLimitError, ValidationError } from '../../src/utils/errors';
+import { ConversationAnalysis } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const userProfile = { native_language: 'English', practice_languages: ['Spanish'] };
+
+const analysis = {
+  summary: 'The learner practiced greetings.',
+  keyTopics: ['greetings'],
+  conversationType: 'general',
+  degraded: false
+} as ConversationAnalysis;
+
+function items(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    conversationId: `conv-${index}`,
+    messages: [{ role: 'user' as const, content: `Hola ${index}` }],
+    userProfile
+  }));
+}
+
+// Make items waiting for a retry available again
+function expireBackoff() {
+  supabaseState.tables.analysis_job_items.forEach((item: any) => {
+    item.available_at = new Date(Date.now() - 1000).toISOString();
+  });
+}
+
+describe('AnalysisJobService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetFakeSupabaseState(supabaseState);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('queues one pending item per conversation', async () => {
+    const job = await analysisJobService.submitJob('user-1', { items: items(3) });
+
+    expect(job).toMatchObject({ userId: 'user-1', status: 'queued', total: 3, succeeded: 0, failed: 0 });
+
+    const results = await analysisJobService.getResults(job, { offset: 1, limit: 5 });
+    expect(results.items).toEqual([
+      { index: 1, conversationId: 'conv-1', status: 'pending', attempts: 0 },
+      { index: 2, conversationId: 'conv-2', status: 'pending', attempts: 0 }
+    ]);
+  });
+
+  it('analyzes every item with bounded concurrency', async () => {
+    vi.stubEnv('ANALYSIS_JOB_CONCURRENCY', '2');
+    let running = 0;
+    let maxRunning = 0;
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation').mockImplementation(async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return analysis;
+    });
+
+    const job = await analysisJobService.submitJob('user-1', { items: items(5) });
+    const progress = await analysisJobService.advanceJob(job);
+
+    expect(progress).toMatchObject({ status: 'completed', succeeded: 5, failed: 0 });
+    expect(progress.completedAt).toBeDefined();
+    expect(analyze).toHaveBeenCalledTimes(5);
+    expect(analyze.mock.calls[0][3]).toMatchObject({ userId: 'user-1' });
+    expect(maxRunning).toBe(2);
+
+    const results = await analysisJobService.getResults(progress, { offset: 0, limit: 50 });
+    expect(results.items.every(item => item.status === 'succeeded' && item.analysis?.summary === analysis.summary)).toBe(true);
+  });
+
+  it('runs one worker pool per job however often it is polled', async () => {
+    vi.stubEnv('ANALYSIS_JOB_CONCURRENCY', '2');
+    let running = 0;
+    let maxRunning = 0;
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation').mockImplementation(async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return analysis;
+    });
+
+    const job = await analysisJobService.submitJob('user-1', { items: items(6) });
+    const polls = await Promise.all([1, 2, 3].map(() => analysisJobService.advanceJob(job)));
+
+    expect(maxRunning).toBe(2);
+    expect(analyze).toHaveBeenCalledTimes(6);
+    expect(polls.filter(progress => progress.status === 'completed')).toHaveLength(1);
+    // The lease is given up once the invocation is done, so the next poll can go on
+    expect(supabaseState.tables.analysis_jobs[0]).toMatchObject({ lease_version: 1, leased_until: null });
+  });
+
+  it('only reports progress while another invocation holds the lease', async () => {
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation').mockResolvedValue(analysis);
+
+    const job = await analysisJobService.submitJob('user-1', { items: items(1) });
+    const [row] = supabaseState.tables.analysis_jobs;
+
+    Object.assign(row, { lease_version: 1, leased_until: new Date(Date.now() + 60 * 1000).toISOString() });
+    expect(await analysisJobService.advanceJob(job)).toMatchObject({ status: 'queued', succeeded: 0 });
+    expect(analyze).not.toHaveBeenCalled();
+
+    // A lease left behind by an invocation that timed out expires
+    row.leased_until = new Date(Date.now() - 1000).toISOString();
+    expect(await analysisJobService.advanceJob(job)).toMatchObject({ status: 'completed', succeeded: 1 });
+    expect(row.lease_version).toBe(2);
+  });
+
+  it('retries retryable failures after a backoff and fails the others', async () => {
+    vi.stubEnv('ANALYSIS_JOB_CONCURRENCY', '1');
+    vi.spyOn(openAIService, 'analyzeConversation')
+      .mockRejectedValueOnce(new ExternalAPIError('OpenAI unavailable', 'openai'))
+      .mockRejectedValueOnce(new ValidationError('Invalid template'))
+      .mockResolvedValue(analysis);
+
+    const job = await analysisJobService.submitJob('user-1', { items: items(2) });
+
+    const first = await analysisJobService.advanceJob(job);
+    expect(first).toMatchObject({ status: 'running', succeeded: 0, failed: 1 });
+    expect((await analysisJobService.getResults(first, { offset: 0, limit: 50 })).items).toEqual([
+      { index: 0, conversationId: 'conv-0', status: 'pending', attempts: 1, error: 'OpenAI unavailable' },
+      { index: 1, conversationId: 'conv-1', status: 'failed', attempts: 1, error: 'Invalid template' }
+    ]);
+
+    expireBackoff();
+    const second = await analysisJobService.advanceJob(first);
+    expect(second).toMatchObject({ status: 'completed', succeeded: 1, failed: 1 });
+  });
+
+  it('treats degraded analyses as failures and gives up after three attempts', async () => {
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation').mockResolvedValue({ ...analysis, degraded: true });
+
+    let job = await analysisJobService.submitJob('user-1', { items: items(1) });
+    for (let attempt = 0; attempt < 3; attempt++) {
+      job = await analysisJobService.advanceJob(job);
+      expireBackoff();
+    }
+
+    expect(analyze).toHaveBeenCalledTimes(3);
+    expect(job).toMatchObject({ status: 'completed', succeeded: 0, failed: 1 });
+    expect(supabaseState.tables.analysis_job_items[0]).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('starts no analyses once the budget is spent and resumes abandoned items', async () => {
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation').mockResolvedValue(analysis);
+
+    const job = await analysisJobService.submitJob('user-1', { items: items(2) });
+    expect(await analysisJobService.advanceJob(job, 0)).toMatchObject({ status: 'running', succeeded: 0 });
+    expect(analyze).not.toHaveBeenCalled();
+
+    // One item was claimed by an invocation that timed out, the other by one still running
+    const [abandoned, inProgress] = supabaseState.tables.analysis_job_items;
+    Object.assign(abandoned, { status: 'running', attempts: 1, started_at: new Date(Date.now() - 10 * 60 * 1000).toISOString() });
+    Object.assign(inProgress, { status: 'running', attempts: 1, started_at: new Date().toISOString() });
+
+    const progress = await analysisJobService.advanceJob(job);
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(progress).toMatchObject({ status: 'running', succeeded: 1 });
+    expect(abandoned).toMatchObject({ status: 'succeeded', attempts: 2 });
+  });
+
+  it('fails items over quota without retrying them', async () => {
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation')
+      .mockRejectedValue(new RateLimitError('Monthly quota of 100 credits used up'));
+
+    const job = await analysisJobService.submitJob('user-1', { items: items(1) });
+    const progress = await analysisJobService.advanceJob(job);
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(progress).toMatchObject({ status: 'completed', succeeded: 0, failed: 1 });
+    expect(supabaseState.tables.analysis_job_items[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      last_error: 'Monthly quota of 100 credits used up'
+    });
+  });
+
+  it('fails items blocked by moderation without analyzing or retrying them', async () => {
+    const analyze = vi.spyOn(openAIService, 'analyzeConversation').mockResolvedValue(analysis);
+
+    const job = await analysisJobService.submitJob('user-1', {
+      items: [{ ...items(1)[0], messages: [{ role: 'user' as const, content: 'send nudes' }] }]
+    });
+    const progress = await analysisJobService.advanceJob(job);
+
+    expect(analyze).not.toHaveBeenCalled();
+    expect(progress).toMatchObject({ status: 'completed', succeeded: 0, failed: 1 });
+    expect(supabaseState.tables.moderation_alerts[0]).toMatchObject({ path: 'analysis_job', action: 'block' });
+  });
+
+  it('analyzes items with a word list as vocabulary practice', async () => {
+    const vocabulary = vi.spyOn(openAIService, 'analyzeVocabularyPractice').mockResolvedValue(analysis);
+    const vocabularyContext = { word_list_title: 'Home', word_list_topic: 'Home', word_list_words: [{ word: 'casa' }] };
+
+    const job = await analysisJobService.submitJob('user-1', { items: [{ ...items(1)[0], vocabularyContext }] });
+    await analysisJobService.advanceJob(job);
+
+    expect(vocabulary).toHaveBeenCalledWith(expect.any(Array), userProfile, vocabularyContext, expect.objectContaining({ userId: 'user-1' }));
+  });
+
+  it('reads the concurrency from ANALYSIS_JOB_CONCURRENCY within bounds', () => {
+    expect(getJobConcurrency()).toBe(3);
+    vi.stubEnv('ANALYSIS_JOB_CONCURRENCY', '50');
+    expect(getJobConcurrency()).toBe(10);
+    vi.stubEnv('ANALYSIS_JOB_CONCURRENCY', 'many');
+    expect(getJobConcurrency()).toBe(3);
+  });
+});
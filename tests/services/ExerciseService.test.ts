@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { exerciseService, normalizeAnswer } from '../../src/services/ExerciseService';
+import { openAIService } from '../../src/services/OpenAIService';
+import { StubLLMProvider } from '../../src/services/LLMProvider';
+import { ExternalAPIError, NotFoundError, ValidationError } from '../../src/utils/errors';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const userProfile = {
+  native_language: 'English',
+  practice_languages: ['Spanish'],
+  level: 'Beginner',
+  interface_language: 'en'
+};
+
+const allTypes = ['fill_in_blank', 'multiple_choice', 'sentence_transformation'] as const;
+
+describe('ExerciseService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetFakeSupabaseState(supabaseState);
+    (openAIService as any).provider = new StubLLMProvider();
+  });
+
+  it('generates the requested exercises and keeps the answer key out of the response', async () => {
+    const set = await exerciseService.createExerciseSet('user-1', { userProfile, count: 4, types: [...allTypes] });
+
+    expect(set).toMatchObject({ userId: 'user-1', practiceLanguage: 'Spanish' });
+    expect(set.exercises.map(exercise => [exercise.id, exercise.type])).toEqual([
+      ['ex-1', 'fill_in_blank'],
+      ['ex-2', 'multiple_choice'],
+      ['ex-3', 'sentence_transformation'],
+      ['ex-4', 'fill_in_blank']
+    ]);
+    expect(set.exercises[0]).not.toHaveProperty('answer');
+    expect(supabaseState.tables.exercise_sets[0].exercises[0]).toMatchObject({ answer: 'went' });
+  });
+
+  it('targets the learner\'s recurring mistakes and areas for improvement', async () => {
+    supabaseState.tables.conversation_analyses = [{
+      user_id: 'user-1',
+      analysis: { userInsights: { commonMistakes: ['ser vs estar'], areasForImprovement: ['Past tense'], strengths: [], interests: [] } },
+      created_at: '2024-01-01T10:00:00Z'
+    }];
+    const complete = vi.spyOn((openAIService as any).provider, 'complete');
+
+    await exerciseService.createExerciseSet('user-1', { userProfile, count: 2, types: ['multiple_choice'] });
+
+    const prompt = (complete.mock.calls[0][0] as any).messages[1].content;
+    expect(prompt).toContain('RECURRING MISTAKES:\n- ser vs estar\n');
+    expect(prompt).toContain('AREAS FOR IMPROVEMENT:\n- Past tense\n');
+    expect(prompt).toContain('- Number of exercises: 2');
+    expect(prompt).toContain('- Exercise types: multiple_choice');
+  });
+
+  it('uses the active exercises prompt when one is stored', async () => {
+    supabaseState.tables.analysis_prompts = [{
+      id: 'prompt-exercises-1',
+      prompt_name: 'Exercises',
+      prompt_version: '1',
+      conversation_type: 'exercises',
+      language_code: 'en',
+      prompt_template: 'Drill {{common_mistakes}} in {{practice_languages}}.',
+      variables: ['common_mistakes', 'practice_languages'],
+      is_active: true
+    }];
+    const complete = vi.spyOn((openAIService as any).provider, 'complete');
+
+    await exerciseService.createExerciseSet('user-1', { userProfile, count: 1, types: ['fill_in_blank'] });
+
+    expect((complete.mock.calls[0][0] as any).messages[1].content).toMatch(/^Drill  in Spanish\.\n\nEXERCISE FORMAT:/);
+  });
+
+  it('repairs multiple choice exercises whose answer is not an option', async () => {
+    const exercise = {
+      type: 'multiple_choice',
+      instructions: 'Choose.',
+      prompt: 'El café ___ frío.',
+      answer: 'está',
+      explanation: 'Temporary state.',
+      focus: 'ser vs estar'
+    };
+    const respond = vi.fn()
+      .mockReturnValueOnce(JSON.stringify({ exercises: [{ ...exercise, options: ['es', 'son'] }] }))
+      .mockReturnValueOnce(JSON.stringify({ exercises: [{ ...exercise, options: ['es', 'está'] }] }));
+    (openAIService as any).provider = new StubLLMProvider(respond);
+
+    const set = await exerciseService.createExerciseSet('user-1', { userProfile, count: 1, types: ['multiple_choice'] });
+
+    expect(respond).toHaveBeenCalledTimes(2);
+    expect(set.exercises[0].options).toEqual(['es', 'está']);
+  });
+
+  it('does not store a set when generation fails', async () => {
+    (openAIService as any).provider = new StubLLMProvider(() => 'not json');
+
+    await expect(exerciseService.createExerciseSet('user-1', { userProfile, count: 1, types: [...allTypes] }))
+      .rejects.toBeInstanceOf(ExternalAPIError);
+    expect(supabaseState.tables.exercise_sets).toBeUndefined();
+  });
+
+  it('grades answers leniently and stores the attempt', async () => {
+    const set = await exerciseService.createExerciseSet('user-1', { userProfile, count: 3, types: [...allTypes] });
+
+    const grade = await exerciseService.gradeExercises('user-1', set.id, {
+      answers: [
+        { exerciseId: 'ex-1', answer: ' Went ' },
+        { exerciseId: 'ex-2', answer: 'are' }
+      ]
+    });
+
+    expect(grade).toMatchObject({ setId: set.id, correctCount: 1, total: 3 });
+    expect(grade.results.map(result => [result.exerciseId, result.correct, result.expected])).toEqual([
+      ['ex-1', true, 'went'],
+      ['ex-2', false, 'is'],
+      ['ex-3', false, 'I ate an apple.']
+    ]);
+    expect(supabaseState.tables.exercise_attempts[0]).toMatchObject({ set_id: set.id, user_id: 'user-1', correct_count: 1, total: 3 });
+  });
+
+  it('rejects answers to exercises outside the set and sets of other users', async () => {
+    const set = await exerciseService.createExerciseSet('user-1', { userProfile, count: 1, types: ['fill_in_blank'] });
+    const answers = [{ exerciseId: 'ex-1', answer: 'went' }];
+
+    await expect(exerciseService.gradeExercises('user-1', set.id, { answers: [{ exerciseId: 'ex-2', answer: 'is' }] }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(exerciseService.gradeExercises('user-2', set.id, { answers }))
+      .rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('normalizes case, whitespace and surrounding punctuation', () => {
+    expect(normalizeAnswer('  ¿Dónde   ESTÁ? ')).toBe('dónde está');
+    expect(normalizeAnswer('"I ate an apple."')).toBe('i ate an apple');
+  });
+});
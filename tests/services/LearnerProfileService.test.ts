@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { learnerProfileService } from '../../src/services/LearnerProfileService';
+import { ConversationAnalysis } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+function analysis(insights: Partial<ConversationAnalysis['userInsights']>, overrides: Partial<ConversationAnalysis> = {}): ConversationAnalysis {
+  return {
+    summary: 'The learner talked about travel.',
+    keyTopics: ['travel'],
+    userInsights: {
+      languageLevel: 'A2',
+      commonMistakes: [],
+      interests: [],
+      learningStyle: 'practical',
+      strengths: [],
+      areasForImprovement: [],
+      ...insights
+    },
+    conversationType: 'general',
+    learningProgress: {
+      vocabularyProgress: 'Good',
+      grammarProgress: 'Developing',
+      fluencyProgress: 'Developing'
+    },
+    proficiency: { cefrLevel: 'A2', vocabulary: 45, grammar: 38, fluency: 41, confidence: 0.7 },
+    degraded: false,
+    ...overrides
+  };
+}
+
+function analysisRow(id: string, createdAt: string, value: ConversationAnalysis) {
+  return { id, user_id: 'user-1', conversation_type: value.conversationType, analysis: value, created_at: createdAt };
+}
+
+describe('LearnerProfileService', () => {
+  beforeEach(() => {
+    resetFakeSupabaseState(supabaseState);
+
+    supabaseState.tables.conversation_analyses = [
+      analysisRow('ca-1', '2024-01-01T10:00:00Z', analysis({ commonMistakes: ['Ser vs estar', 'Gender agreement'], interests: ['travel'] })),
+      analysisRow('ca-2', '2024-01-02T10:00:00Z', analysis({ commonMistakes: ['ser vs estar '], strengths: ['Pronunciation'] })),
+      analysisRow('ca-3', '2024-01-03T10:00:00Z', analysis({ commonMistakes: ['ser vs estar', 'Past tense'], interests: ['Travel', 'food'] }))
+    ];
+  });
+
+  it('merges recurring entries across analyses, most frequent first', async () => {
+    const profile = await learnerProfileService.getProfile('user-1');
+
+    expect(profile).toMatchObject({
+      analysisCount: 3,
+      firstAnalyzedAt: '2024-01-01T10:00:00Z',
+      lastAnalyzedAt: '2024-01-03T10:00:00Z'
+    });
+    expect(profile.recurringMistakes.map(insight => [insight.text, insight.occurrences])).toEqual([
+      ['ser vs estar', 3],
+      ['Past tense', 1],
+      ['Gender agreement', 1]
+    ]);
+    expect(profile.interests[0]).toEqual({ text: 'Travel', occurrences: 2, lastSeenAt: '2024-01-03T10:00:00Z' });
+  });
+
+  it('condenses the profile for prompts', async () => {
+    supabaseState.tables.proficiency_estimates = [
+      { id: 'pe-1', user_id: 'user-1', conversation_type: 'general', cefr_level: 'B1', created_at: '2024-01-03T10:00:00Z' }
+    ];
+
+    const history = await learnerProfileService.getPromptHistory('user-1');
+
+    expect(history).toBe([
+      'Previous conversations analyzed: 3',
+      'Recurring mistakes: ser vs estar (3x), Past tense (1x), Gender agreement (1x)',
+      'Strengths: Pronunciation (1x)',
+      'Interests: Travel (2x), food (1x)',
+      'Latest proficiency estimate: B1'
+    ].join('\n'));
+    expect(await learnerProfileService.getPromptHistory('user-2')).toBe('No previous conversations analyzed');
+  });
+
+  it('stores analyses with their proficiency estimate and skips degraded ones', async () => {
+    supabaseState.tables.conversation_analyses = [];
+
+    await learnerProfileService.recordAnalysis('user-2', analysis({ strengths: ['Listening'] }), 'conv-9');
+    await learnerProfileService.recordAnalysis('user-2', analysis({}, { proficiency: undefined, degraded: true }));
+
+    expect(supabaseState.tables.conversation_analyses).toHaveLength(1);
+    expect(supabaseState.tables.conversation_analyses[0]).toMatchObject({ user_id: 'user-2', conversation_id: 'conv-9' });
+    expect(supabaseState.tables.proficiency_estimates).toHaveLength(1);
+    expect((await learnerProfileService.getProfile('user-2')).strengths[0].text).toBe('Listening');
+  });
+
+  it('replaces the analysis of a resubmitted conversation', async () => {
+    supabaseState.tables.conversation_analyses = [];
+
+    await learnerProfileService.recordAnalysis('user-2', analysis({ strengths: ['Listening'] }), 'conv-9');
+    await learnerProfileService.recordAnalysis('user-2', analysis({ strengths: ['Reading'] }), 'conv-9');
+
+    const profile = await learnerProfileService.getProfile('user-2');
+    expect(profile.analysisCount).toBe(1);
+    expect(profile.strengths).toEqual([expect.objectContaining({ text: 'Reading', occurrences: 1 })]);
+  });
+});
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { DEFAULT_MODERATION_POLICY, getModerationPolicy, moderationService } from '../../src/services/ModerationService';
+import {
+  OpenAIModerationClassifier,
+  RuleBasedModerationClassifier,
+  createModerationClassifier
+} from '../../src/services/ModerationClassifier';
+import { resendService } from '../../src/services/ResendService';
+import { ContentBlockedError } from '../../src/utils/errors';
+import { ConversationAnalysis, Message, ModerationClassifier } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const context = { userId: 'user-1', conversationId: 'conv-1', path: 'analysis' };
+
+function useClassifier(classifier: ModerationClassifier) {
+  (moderationService as any).classifier = classifier;
+}
+
+describe('RuleBasedModerationClassifier', () => {
+  const classifier = new RuleBasedModerationClassifier();
+
+  it('flags phrases in the product languages, ignoring case and accents', async () => {
+    const results = await classifier.classify([
+      'Sometimes I want to die',
+      'Eres una ZORRA',
+      'Je vais te tuer',
+      'Quiero quitarme la vída'
+    ]);
+
+    expect(results.map(result => result.categories)).toEqual([
+      ['self_harm'],
+      ['harassment'],
+      ['violence'],
+      ['self_harm']
+    ]);
+  });
+
+  it('leaves ordinary lesson content alone', async () => {
+    const results = await classifier.classify([
+      'We killed time at the museum and I was dying to see the paintings.',
+      'La disputa terminó bien.',
+      'Ich habe die Geschichte gelesen.'
+    ]);
+
+    expect(results.every(result => !result.flagged)).toBe(true);
+  });
+});
+
+describe('ModerationService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetFakeSupabaseState(supabaseState);
+    useClassifier(new RuleBasedModerationClassifier());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('passes clean conversations without logging', async () => {
+    const outcome = await moderationService.moderateConversation(
+      [{ role: 'user', content: 'Ayer fui al mercado.' }],
+      context
+    );
+
+    expect(outcome).toEqual({ flagged: false, classifier: 'rules', flags: [] });
+    expect(supabaseState.tables.unified_logs || []).toHaveLength(0);
+  });
+
+  it('flags learner messages and tutor turns by position and raises an alert', async () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'You are a tutor. Never say kill yourself.' },
+      { role: 'user', content: 'Hola, ¿cómo estás?' },
+      { role: 'assistant', content: 'Nobody likes you.' },
+      { role: 'user', content: 'I want to end my life' }
+    ];
+
+    const outcome = await moderationService.moderateConversation(messages, context);
+
+    expect(outcome).toEqual({
+      flagged: true,
+      action: 'alert',
+      classifier: 'rules',
+      flags: [
+        { source: 'model_output', messageIndex: 2, categories: ['harassment'] },
+        { source: 'user_message', messageIndex: 3, categories: ['self_harm'] }
+      ]
+    });
+    expect(supabaseState.tables.unified_logs[0]).toMatchObject({
+      event_category: 'conversation',
+      event_type: 'moderation',
+      user_id: 'user-1',
+      conversation_id: 'conv-1',
+      event_data: { action: 'alert', categories: ['harassment', 'self_harm'] }
+    });
+    expect(supabaseState.tables.moderation_alerts).toEqual([
+      expect.objectContaining({ user_id: 'user-1', action: 'alert', categories: ['harassment', 'self_harm'], status: 'open' })
+    ]);
+    // Alerts and logs point at messages, they never copy them
+    expect(JSON.stringify(supabaseState.tables.moderation_alerts)).not.toContain('end my life');
+  });
+
+  it('alerts and then blocks when a flagged category is blocked', async () => {
+    await expect(moderationService.moderate([{ source: 'user_message', text: 'send nudes' }], context))
+      .rejects.toThrow(ContentBlockedError);
+
+    expect(supabaseState.tables.moderation_alerts).toEqual([
+      expect.objectContaining({ action: 'block', categories: ['sexual'] })
+    ]);
+  });
+
+  it('screens the text of an analysis as model output', async () => {
+    const analysis = {
+      summary: 'The learner talked about school.',
+      keyTopics: ['school'],
+      userInsights: {
+        languageLevel: 'A2',
+        commonMistakes: [],
+        interests: [],
+        learningStyle: 'visual',
+        strengths: ['Told the tutor: nobody likes you'],
+        areasForImprovement: []
+      },
+      conversationType: 'general',
+      learningProgress: { vocabularyProgress: '', grammarProgress: '', fluencyProgress: '' }
+    } as ConversationAnalysis;
+
+    const outcome = await moderationService.moderateAnalysis(analysis, context);
+
+    expect(outcome).toMatchObject({
+      flagged: true,
+      action: 'alert',
+      flags: [{ source: 'model_output', categories: ['harassment'] }]
+    });
+  });
+
+  it('emails the learner\'s teachers about alerts without the flagged text', async () => {
+    supabaseState.tables.teacher_students = [
+      { teacher_id: 'teacher-1', student_id: 'user-1', teacher_email: 'teacher@example.com', student_name: 'Ana' },
+      { teacher_id: 'teacher-2', student_id: 'user-2', teacher_email: 'other@example.com', student_name: 'Ben' }
+    ];
+    const sendAlert = vi.spyOn(resendService, 'sendModerationAlert').mockRejectedValueOnce(new Error('Resend unavailable'));
+
+    const outcome = await moderationService.moderate([{ source: 'user_message', text: 'I want to end my life' }], context);
+
+    expect(outcome.action).toBe('alert');
+    expect(sendAlert).toHaveBeenCalledTimes(1);
+    expect(sendAlert).toHaveBeenCalledWith('teacher@example.com', {
+      studentName: 'Ana',
+      categories: ['self_harm'],
+      action: 'alert'
+    });
+    // A failed email leaves the stored alert in place
+    expect(supabaseState.tables.moderation_alerts).toHaveLength(1);
+  });
+
+  it('only logs categories whose policy is log', async () => {
+    vi.stubEnv('MODERATION_POLICY', JSON.stringify({ violence: 'log' }));
+
+    const outcome = await moderationService.moderate([{ source: 'user_message', text: 'I will kill you' }], context);
+
+    expect(outcome.action).toBe('log');
+    expect(supabaseState.tables.unified_logs).toHaveLength(1);
+    expect(supabaseState.tables.moderation_alerts || []).toHaveLength(0);
+  });
+
+  it('falls back to the local rules when the classifier fails', async () => {
+    useClassifier({ name: 'openai', classify: vi.fn().mockRejectedValue(new Error('timeout')) });
+
+    const outcome = await moderationService.moderate([{ source: 'user_message', text: 'I hate all immigrants' }], context)
+      .catch(error => error);
+
+    expect(outcome).toBeInstanceOf(ContentBlockedError);
+    expect(supabaseState.tables.moderation_alerts[0]).toMatchObject({ classifier: 'rules', categories: ['hate'] });
+  });
+
+  it('falls back to the local rules when the classifier cannot be created', async () => {
+    (moderationService as any).classifier = null;
+    vi.stubEnv('MODERATION_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    const outcome = await moderationService.moderate([{ source: 'user_message', text: 'Nobody likes you' }], context);
+
+    expect(outcome).toMatchObject({ flagged: true, classifier: 'rules', action: 'alert' });
+  });
+
+  it('lists alerts newest first, filtered by status', async () => {
+    supabaseState.tables.moderation_alerts = [
+      { id: 'alert-1', user_id: 'user-1', status: 'open', action: 'alert', categories: ['violence'], flags: [], created_at: '2024-01-01T00:00:00Z' },
+      { id: 'alert-2', user_id: 'user-2', status: 'resolved', action: 'block', categories: ['hate'], flags: [], created_at: '2024-01-02T00:00:00Z' },
+      { id: 'alert-3', user_id: 'user-1', status: 'open', action: 'alert', categories: ['self_harm'], flags: [], created_at: '2024-01-03T00:00:00Z' }
+    ];
+
+    const alerts = await moderationService.listAlerts({ status: 'open', limit: 50 });
+
+    expect(alerts.map(alert => alert.id)).toEqual(['alert-3', 'alert-1']);
+  });
+
+  it('applies MODERATION_POLICY over the defaults and ignores invalid values', () => {
+    vi.stubEnv('MODERATION_POLICY', JSON.stringify({ self_harm: 'block' }));
+    expect(getModerationPolicy()).toEqual({ ...DEFAULT_MODERATION_POLICY, self_harm: 'block' });
+
+    vi.stubEnv('MODERATION_POLICY', JSON.stringify({ spam: 'block' }));
+    expect(getModerationPolicy()).toBe(DEFAULT_MODERATION_POLICY);
+
+    vi.stubEnv('MODERATION_POLICY', JSON.stringify({ hate: 'ignore' }));
+    expect(getModerationPolicy()).toBe(DEFAULT_MODERATION_POLICY);
+  });
+
+  it('moderates locally by default when conversations stay off OpenAI', () => {
+    vi.stubEnv('MODERATION_PROVIDER', '');
+    expect(createModerationClassifier()).toBeInstanceOf(OpenAIModerationClassifier);
+
+    vi.stubEnv('LLM_PROVIDER', 'stub');
+    expect(createModerationClassifier()).toBeInstanceOf(RuleBasedModerationClassifier);
+  });
+});
@@ -0,0 +1,892 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { openAIService } from '../../src/services/OpenAIService';
+import { OpenAIProvider, StubLLMProvider } from '../../src/services/LLMProvider';
+import { cacheService } from '../../src/utils/cache';
+import { RateLimitError } from '../../src/utils/errors';
+import { Message } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+const openAIClient = vi.hoisted(() => ({ create: (..._args: any[]): any => undefined }));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: (...args: any[]) => openAIClient.create(...args) } };
+  }
+}));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const userProfile = { native_language: 'English', practice_languages: ['Spanish'], interface_language: 'en' };
+
+function conversation(...contents: string[]): Message[] {
+  return contents.map((content, index) => ({ role: index % 2 === 0 ? 'user' : 'assistant', content }));
+}
+
+function promptRow(conversationType: string) {
+  return {
+    id: `prompt-${conversationType}`,
+    prompt_name: `${conversationType} analysis`,
+    prompt_version: '1',
+    conversation_type: conversationType,
+    language_code: 'en',
+    prompt_template: `Analyze this ${conversationType} conversation:\n{{conversation_text}}`,
+    variables: ['conversation_text'],
+    is_active: true
+  };
+}
+
+const validOutput = {
+  summary: 'The learner discussed their plans.',
+  keyTopics: ['plans'],
+  userInsights: {
+    languageLevel: 'A2',
+    commonMistakes: ['ser vs estar'],
+    interests: ['travel'],
+    learningStyle: 'practical',
+    strengths: ['vocabulary'],
+    areasForImprovement: ['past tense']
+  },
+  learningProgress: {
+    vocabularyProgress: 'Good',
+    grammarProgress: 'Developing',
+    fluencyProgress: 'Developing'
+  },
+  proficiency: {
+    cefrLevel: 'A2',
+    vocabulary: 45,
+    grammar: 38,
+    fluency: 41,
+    confidence: 0.7
+  }
+};
+
+function completion(content: string) {
+  return { choices: [{ message: { content } }], usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 } };
+}
+
+describe('OpenAIService', () => {
+  let create: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetFakeSupabaseState(supabaseState);
+    cacheService.flush();
+
+    supabaseState.tables.analysis_prompts = ['general', 'study_plan', 'practice', 'vocabulary_practice'].map(promptRow);
+
+    create = vi.fn(async () => completion(JSON.stringify(validOutput)));
+    openAIClient.create = create;
+    (openAIService as any).provider = null;
+  });
+
+  describe('detectConversationType', () => {
+    it('detects vocabulary practice from a word list', () => {
+      const type = openAIService.detectConversationType(conversation('Hola'), undefined, {
+        word_list_title: 'Animals',
+        word_list_topic: 'Animals',
+        word_list_words: [{ word: 'perro' }]
+      });
+
+      expect(type).toBe('vocabulary_practice');
+    });
+
+    it('detects study plan conversations', () => {
+      const type = openAIService.detectConversationType(conversation(
+        'I need a study plan for my exam next month',
+        'Sure! What are your goals, and how many hours per week can you study?'
+      ));
+
+      expect(type).toBe('study_plan');
+    });
+
+    it('detects practice conversations', () => {
+      const type = openAIService.detectConversationType(conversation(
+        "Let's practice the past tense",
+        'Great, translate this sentence. Try again if you make a mistake.'
+      ));
+
+      expect(type).toBe('practice');
+    });
+
+    it('treats a study topic as a practice signal', () => {
+      const type = openAIService.detectConversationType(
+        conversation('Let\'s practice', 'Okay'),
+        { title: 'Ordering food' }
+      );
+
+      expect(type).toBe('practice');
+    });
+
+    it('defaults to general small talk', () => {
+      expect(openAIService.detectConversationType(conversation('Hello!', 'Hi, how are you?'))).toBe('general');
+    });
+
+    it('reads signals in the practice language', () => {
+      expect(openAIService.detectConversationType(conversation(
+        'Necesito un plan de estudios para mi examen',
+        '¡Claro! ¿Cuáles son tus metas?'
+      ))).toBe('study_plan');
+      expect(openAIService.detectConversationType(conversation(
+        'On pratique le passé composé ?',
+        'Oui ! Traduis cette phrase. Essaie encore si tu te trompes.'
+      ))).toBe('practice');
+    });
+
+    it('does not treat a study topic alone as practice', () => {
+      const type = openAIService.detectConversationType(
+        conversation('Hola, ¿qué tal?', 'Muy bien, ¿y tú?'),
+        { title: 'Ordering food' }
+      );
+
+      expect(type).toBe('general');
+    });
+  });
+
+  describe('analyzeConversation', () => {
+    it('uses the prompt for the detected conversation type', async () => {
+      const analysis = await openAIService.analyzeConversation(
+        conversation('Can you make me a study plan with weekly goals?', 'Of course.'),
+        userProfile
+      );
+
+      expect(analysis.conversationType).toBe('study_plan');
+      expect(create.mock.calls[0][0].messages[1].content).toContain('Analyze this study_plan conversation');
+    });
+
+    it('analyzes detected types without a prompt as general conversation', async () => {
+      supabaseState.tables.analysis_prompts = [promptRow('general')];
+
+      const analysis = await openAIService.analyzeConversation(
+        conversation('Can you make me a study plan with weekly goals?', 'Of course.'),
+        userProfile
+      );
+
+      expect(analysis).toMatchObject({ conversationType: 'general', promptId: 'prompt-general', degraded: false });
+    });
+
+    it('lets callers override the detected type', async () => {
+      const analysis = await openAIService.analyzeConversation(
+        conversation('Can you make me a study plan with weekly goals?', 'Of course.'),
+        userProfile,
+        undefined,
+        { conversationType: 'general' }
+      );
+
+      expect(analysis.conversationType).toBe('general');
+      expect(create.mock.calls[0][0].messages[1].content).toContain('Analyze this general conversation');
+    });
+
+    it('requests JSON output and returns validated analyses as not degraded', async () => {
+      const analysis = await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create.mock.calls[0][0].response_format).toEqual({ type: 'json_object' });
+      expect(analysis.summary).toBe(validOutput.summary);
+      expect(analysis.degraded).toBe(false);
+    });
+
+    it('sends one repair request with the validation errors', async () => {
+      create
+        .mockResolvedValueOnce(completion(JSON.stringify({ ...validOutput, keyTopics: 'plans' })))
+        .mockResolvedValueOnce(completion(JSON.stringify(validOutput)));
+
+      const analysis = await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+
+      expect(create).toHaveBeenCalledTimes(2);
+      const repairMessages = create.mock.calls[1][0].messages;
+      expect(repairMessages[2].role).toBe('assistant');
+      expect(repairMessages[3].content).toContain('keyTopics: Expected array, received string');
+      expect(analysis.degraded).toBe(false);
+    });
+
+    it('asks for a proficiency estimate and rejects out-of-range scores', async () => {
+      create
+        .mockResolvedValueOnce(completion(JSON.stringify({
+          ...validOutput,
+          proficiency: { ...validOutput.proficiency, grammar: 140 }
+        })))
+        .mockResolvedValueOnce(completion(JSON.stringify(validOutput)));
+
+      const analysis = await openAIService.analyzeConversation(conversation('Hola', 'Hola'), userProfile);
+
+      expect(create.mock.calls[0][0].messages[1].content).toContain('Also include a "proficiency" object');
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(analysis.proficiency).toEqual(validOutput.proficiency);
+    });
+
+    it('returns a degraded fallback when the repair also fails', async () => {
+      create.mockResolvedValue(completion('not json'));
+
+      const analysis = await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(analysis.degraded).toBe(true);
+    });
+  });
+
+  describe('prompt templates', () => {
+    it('renders word lists with translations in vocabulary prompts', async () => {
+      supabaseState.tables.analysis_prompts[3] = {
+        ...promptRow('vocabulary_practice'),
+        prompt_template: 'Words:\n{{#each word_list_words}}- {{this.word}}{{#if this.translation}} = {{this.translation}}{{/if}}\n{{/each}}{{conversation_text}}',
+        variables: ['word_list_words', 'conversation_text']
+      };
+
+      await openAIService.analyzeVocabularyPractice(conversation('La casa es grande.'), userProfile, {
+        word_list_title: 'Home',
+        word_list_topic: 'Home',
+        word_list_words: [{ word: 'casa', translation: 'house' }, { word: 'mesa' }]
+      });
+
+      const prompt: string = create.mock.calls[0][0].messages[1].content;
+      expect(prompt.startsWith('Words:\n- casa = house\n- mesa\nUSER: La casa es grande.\n\n')).toBe(true);
+    });
+
+    it('gives prompts that declare learner_history a condensed history of the user', async () => {
+      supabaseState.tables.analysis_prompts[0] = {
+        ...promptRow('general'),
+        prompt_template: 'History:\n{{learner_history}}\n\n{{conversation_text}}',
+        variables: ['learner_history', 'conversation_text']
+      };
+      supabaseState.tables.conversation_analyses = [
+        { user_id: 'user-1', analysis: validOutput, created_at: '2024-01-01T10:00:00Z' }
+      ];
+
+      await openAIService.analyzeConversation(conversation('Hola'), userProfile, undefined, { userId: 'user-1' });
+      await openAIService.analyzeConversation(conversation('Hola'), userProfile);
+
+      expect(create.mock.calls[0][0].messages[1].content).toContain('History:\nPrevious conversations analyzed: 1\nRecurring mistakes: ser vs estar (1x)');
+      expect(create.mock.calls[1][0].messages[1].content).toContain('History:\nNo previous conversations analyzed');
+    });
+
+    it('does not call the model when the template uses undeclared variables', async () => {
+      supabaseState.tables.analysis_prompts[0] = {
+        ...promptRow('general'),
+        prompt_template: '{{conversation_text}} for {{first_name}}'
+      };
+
+      const analysis = await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile, undefined, {
+        conversationType: 'general'
+      });
+
+      expect(create).not.toHaveBeenCalled();
+      expect(analysis.degraded).toBe(true);
+    });
+  });
+
+  describe('prompt experiments', () => {
+    beforeEach(() => {
+      supabaseState.tables.analysis_prompts = [
+        { ...promptRow('general'), id: 'prompt-general-a', prompt_version: '1', traffic_weight: 1 },
+        {
+          ...promptRow('general'),
+          id: 'prompt-general-b',
+          prompt_version: '2',
+          prompt_template: 'Version two:\n{{conversation_text}}',
+          traffic_weight: 3
+        }
+      ];
+    });
+
+    const analyzeFor = (userId?: string) => openAIService.analyzeConversation(
+      conversation('Hello!', 'Hi!'),
+      userProfile,
+      undefined,
+      { conversationType: 'general', userId }
+    );
+
+    it('keeps each user on the same prompt version', async () => {
+      const first = await analyzeFor('user-7');
+      cacheService.flush();
+      const second = await analyzeFor('user-7');
+
+      expect(second.promptId).toBe(first.promptId);
+      expect(second.promptVersion).toBe(first.promptVersion);
+    });
+
+    it('splits users across active versions', async () => {
+      const versions = new Set<string | undefined>();
+      for (let index = 0; index < 20; index++) {
+        versions.add((await analyzeFor(`user-${index}`)).promptVersion);
+      }
+
+      expect(versions).toEqual(new Set(['1', '2']));
+    });
+
+    it('uses the highest-weighted version without a user', async () => {
+      const analysis = await analyzeFor();
+
+      expect(analysis.promptId).toBe('prompt-general-b');
+      expect(create.mock.calls[0][0].messages[1].content).toContain('Version two');
+    });
+
+    it('records the prompt version in unified_logs', async () => {
+      await analyzeFor();
+
+      const apiCall = supabaseState.tables.unified_logs.find((row: any) => row.event_category === 'api_call');
+      expect(apiCall.event_data.request_body).toMatchObject({ promptId: 'prompt-general-b', promptVersion: '2' });
+    });
+  });
+
+  describe('prompt locales', () => {
+    const analyzeIn = (interfaceLanguage: string) => openAIService.analyzeConversation(
+      conversation('Hello!', 'Hi!'),
+      { ...userProfile, interface_language: interfaceLanguage },
+      undefined,
+      { conversationType: 'general' }
+    );
+
+    beforeEach(() => {
+      supabaseState.tables.analysis_prompts = [
+        promptRow('general'),
+        { ...promptRow('general'), id: 'prompt-general-pt', language_code: 'pt', prompt_template: 'Analise esta conversa:\n{{conversation_text}}' }
+      ];
+    });
+
+    it('uses the prompt of the exact interface language without a language instruction', async () => {
+      const analysis = await analyzeIn('pt');
+
+      expect(analysis).toMatchObject({ promptId: 'prompt-general-pt', promptLocale: 'pt' });
+      expect(create.mock.calls[0][0].messages[1].content).not.toContain('RESPONSE LANGUAGE');
+    });
+
+    it('falls back to the language and asks for the regional interface language', async () => {
+      const analysis = await analyzeIn('pt-BR');
+
+      expect(analysis).toMatchObject({ promptId: 'prompt-general-pt', promptLocale: 'pt' });
+      expect(create.mock.calls[0][0].messages[1].content).toContain('Write all text in your response in the language with code "pt-BR"');
+    });
+
+    it('falls back to English for languages without prompts', async () => {
+      const analysis = await analyzeIn('fi');
+
+      expect(analysis.degraded).toBe(false);
+      expect(analysis).toMatchObject({ promptId: 'prompt-general', promptLocale: 'en' });
+      expect(create.mock.calls[0][0].messages[1].content).toContain('language with code "fi"');
+    });
+
+    it('records the prompt locale in unified_logs', async () => {
+      await analyzeIn('pt-BR');
+
+      const apiCall = supabaseState.tables.unified_logs.find((row: any) => row.event_category === 'api_call');
+      expect(apiCall.event_data.request_body).toMatchObject({ promptId: 'prompt-general-pt', promptLocale: 'pt' });
+    });
+  });
+
+  describe('model configuration', () => {
+    it('uses the model settings stored on the prompt', async () => {
+      supabaseState.tables.analysis_prompts[0] = {
+        ...promptRow('general'),
+        model: 'gpt-4o',
+        temperature: 0.7,
+        max_tokens: 1500,
+        system_prompt: 'You are a strict examiner.'
+      };
+
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile, undefined, {
+        conversationType: 'general'
+      });
+
+      const request = create.mock.calls[0][0];
+      expect(request.model).toBe('gpt-4o');
+      expect(request.temperature).toBe(0.7);
+      expect(request.max_tokens).toBe(1500);
+      expect(request.messages[0].content).toBe('You are a strict examiner.');
+    });
+
+    it('falls back to environment defaults for missing settings', async () => {
+      vi.stubEnv('OPENAI_MODEL', 'gpt-4.1-mini');
+      supabaseState.tables.analysis_prompts[0] = { ...promptRow('general'), temperature: 0, max_tokens: null };
+
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile, undefined, {
+        conversationType: 'general'
+      });
+      vi.unstubAllEnvs();
+
+      const request = create.mock.calls[0][0];
+      expect(request.model).toBe('gpt-4.1-mini');
+      expect(request.temperature).toBe(0);
+      expect(request.max_tokens).toBe(2000);
+      expect(request.messages[0].content).toContain('language learning');
+    });
+  });
+
+  describe('token budget', () => {
+    const longConversation = () => Array.from({ length: 12 }, (_, index) => ({
+      role: (index % 2 === 0 ? 'user' : 'assistant') as Message['role'],
+      content: `Message ${index} `.padEnd(2000, 'x')
+    }));
+
+    it('analyzes chunks and merges them when over budget', async () => {
+      const analysis = await openAIService.analyzeConversation(longConversation(), userProfile, undefined, {
+        conversationType: 'general',
+        tokenBudget: { maxInputTokens: 2000, chunkTokens: 1200 }
+      });
+
+      const calls = create.mock.calls.map(call => call[0].messages);
+      const chunkCalls = calls.filter(messages => messages[1].content.includes('[Segment'));
+      const mergeCall = calls[calls.length - 1];
+
+      expect(chunkCalls.length).toBeGreaterThan(1);
+      expect(chunkCalls[0][1].content).toContain(`[Segment 1 of ${chunkCalls.length}`);
+      expect(mergeCall[1].content).toContain('SEGMENT ANALYSES');
+      expect(create).toHaveBeenCalledTimes(chunkCalls.length + 1);
+      expect(analysis.degraded).toBe(false);
+    });
+
+    it('limits the number of chunks to the most recent ones', async () => {
+      await openAIService.analyzeConversation(longConversation(), userProfile, undefined, {
+        conversationType: 'general',
+        tokenBudget: { maxInputTokens: 2000, chunkTokens: 1200, maxChunks: 2 }
+      });
+
+      const chunkCalls = create.mock.calls.filter(call => call[0].messages[1].content.includes('[Segment'));
+      expect(chunkCalls).toHaveLength(2);
+      expect(chunkCalls[1][0].messages[1].content).toContain('Message 11');
+    });
+
+    it('truncates to the most recent messages in single mode', async () => {
+      await openAIService.analyzeConversation(longConversation(), userProfile, undefined, {
+        conversationType: 'general',
+        tokenBudget: { maxInputTokens: 1200, mode: 'single' }
+      });
+
+      const prompt = create.mock.calls[0][0].messages[1].content;
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(prompt).toContain('Message 11');
+      expect(prompt).not.toContain('Message 0 ');
+    });
+
+    it('sends short conversations in a single request', async () => {
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('streamConversationAnalysis', () => {
+    async function collect(stream: AsyncGenerator<any>) {
+      const events: any[] = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+      return events;
+    }
+
+    function streamOf(text: string, chunkSize: number) {
+      return (async function* () {
+        for (let index = 0; index < text.length; index += chunkSize) {
+          yield { choices: [{ delta: { content: text.slice(index, index + chunkSize) } }] };
+        }
+      })();
+    }
+
+    it('emits summary deltas and ends with the validated analysis', async () => {
+      const output = { ...validOutput, summary: 'Line one\nand "quoted" text' };
+      create.mockResolvedValue(streamOf(JSON.stringify(output), 7));
+
+      const events = await collect(openAIService.streamConversationAnalysis(conversation('Hello!', 'Hi!'), userProfile));
+      const deltas = events.filter(event => event.type === 'summary').map(event => event.delta);
+      const terminal = events[events.length - 1];
+
+      expect(create.mock.calls[0][0].stream).toBe(true);
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe(output.summary);
+      expect(terminal).toEqual({ type: 'analysis', analysis: expect.objectContaining({ summary: output.summary, degraded: false }) });
+    });
+
+    it('caches the streamed analysis for later requests', async () => {
+      create.mockResolvedValue(streamOf(JSON.stringify(validOutput), 50));
+      await collect(openAIService.streamConversationAnalysis(conversation('Hello!', 'Hi!'), userProfile));
+
+      const analysis = await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(analysis).toMatchObject({ summary: validOutput.summary, cached: true });
+    });
+
+    it('repairs an invalid streamed response', async () => {
+      create
+        .mockResolvedValueOnce(streamOf('{"summary": "partial"', 5))
+        .mockResolvedValueOnce(completion(JSON.stringify(validOutput)));
+
+      const events = await collect(openAIService.streamConversationAnalysis(conversation('Hello!', 'Hi!'), userProfile));
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(events[events.length - 1].analysis.summary).toBe(validOutput.summary);
+    });
+  });
+
+  describe('word outcomes', () => {
+    const wordList = {
+      word_list_title: 'Animals',
+      word_list_topic: 'Animals',
+      word_list_words: [{ word: 'Perro', translation: 'dog' }, { word: 'gato' }, { word: 'pez' }]
+    };
+
+    function respondWithOutcomes(outcomes: unknown) {
+      create.mockImplementation(async (params: any) => params.messages[0].content.includes('target vocabulary')
+        ? completion(JSON.stringify(outcomes))
+        : completion(JSON.stringify(validOutput)));
+    }
+
+    it('returns one outcome per listed word with the list spelling', async () => {
+      respondWithOutcomes({
+        outcomes: [
+          { word: 'perro', outcome: 'correct' },
+          { word: 'gato', outcome: 'incorrect', note: 'Used to mean dog' },
+          { word: 'casa', outcome: 'correct' }
+        ]
+      });
+
+      const analysis = await openAIService.analyzeVocabularyPractice(
+        conversation('Mi perro es un gato', '¡Qué gracioso!'),
+        userProfile,
+        wordList
+      );
+
+      expect(analysis.summary).toBe(validOutput.summary);
+      expect(analysis.wordOutcomes).toEqual([
+        { word: 'Perro', outcome: 'correct' },
+        { word: 'gato', outcome: 'incorrect', note: 'Used to mean dog' },
+        { word: 'pez', outcome: 'not_used' }
+      ]);
+
+      const prompt = create.mock.calls.find(([params]: any[]) => params.messages[0].content.includes('target vocabulary'))[0].messages[1].content;
+      expect(prompt).toContain('USER: Mi perro es un gato');
+      expect(prompt).not.toContain('¡Qué gracioso!');
+    });
+
+    it('keeps the analysis when outcome extraction fails', async () => {
+      respondWithOutcomes({ words: [] });
+
+      const analysis = await openAIService.analyzeVocabularyPractice(conversation('Mi perro'), userProfile, wordList);
+
+      expect(analysis.degraded).toBe(false);
+      expect(analysis.wordOutcomes).toBeUndefined();
+    });
+
+    it('judges words offline with the stub provider', async () => {
+      (openAIService as any).provider = new StubLLMProvider();
+
+      const analysis = await openAIService.analyzeVocabularyPractice(conversation('El perro y el gato'), userProfile, wordList);
+
+      expect(analysis.wordOutcomes?.map(outcome => outcome.outcome)).toEqual(['correct', 'correct', 'not_used']);
+    });
+  });
+
+  describe('correctMessages', () => {
+    const messages = conversation('Ayer yo voy a la playa con mi amigos', '¡Qué bien!', 'Me gusta mucho mucho');
+
+    function correctionOutput(errors: any[]) {
+      return completion(JSON.stringify({
+        corrections: [{ index: 0, corrected: 'Ayer yo fui a la playa con mis amigos', errors }]
+      }));
+    }
+
+    it('locates quoted mistakes as character spans of the original message', async () => {
+      create.mockResolvedValue(correctionOutput([
+        { text: 'mi', correction: 'mis', category: 'agreement', explanation: 'Agreement with "amigos".' },
+        { text: 'voy', correction: 'fui', category: 'tense', explanation: 'Use the preterite.' }
+      ]));
+
+      const result = await openAIService.correctMessages(messages, userProfile);
+
+      expect(result.degraded).toBe(false);
+      expect(result.corrections.map(correction => correction.messageIndex)).toEqual([0, 2]);
+      expect(result.corrections[0].errors).toEqual([
+        { start: 8, end: 11, text: 'voy', correction: 'fui', category: 'tense', explanation: 'Use the preterite.' },
+        { start: 27, end: 29, text: 'mi', correction: 'mis', category: 'agreement', explanation: 'Agreement with "amigos".' }
+      ]);
+      expect(result.corrections[1]).toEqual({
+        messageIndex: 2,
+        original: 'Me gusta mucho mucho',
+        corrected: 'Me gusta mucho mucho',
+        errors: []
+      });
+    });
+
+    it('drops mistakes that are not in the original message', async () => {
+      create.mockResolvedValue(correctionOutput([
+        { text: 'fuimos', correction: 'fui', category: 'tense', explanation: 'Not in the message.' },
+        { text: 'voy', correction: 'fui', category: 'tense', explanation: 'Use the preterite.' },
+        { text: 'voy a', correction: 'fui a', category: 'tense', explanation: 'Overlaps.' }
+      ]));
+
+      const result = await openAIService.correctMessages(messages, userProfile);
+
+      expect(result.corrections[0].errors.map(error => error.text)).toEqual(['voy']);
+    });
+
+    it('asks for explanations in the interface language', async () => {
+      create.mockResolvedValue(correctionOutput([]));
+
+      await openAIService.correctMessages(messages, { ...userProfile, interface_language: 'de' });
+
+      const prompt = create.mock.calls[0][0].messages[1].content;
+      expect(prompt).toContain('written in the language with code "de"');
+      expect(prompt).not.toContain('¡Qué bien!');
+    });
+
+    it('returns the messages unchanged as degraded when the model fails', async () => {
+      create.mockRejectedValue(new Error('timeout'));
+
+      const result = await openAIService.correctMessages(messages, userProfile);
+
+      expect(result.degraded).toBe(true);
+      expect(result.corrections[0]).toMatchObject({ corrected: messages[0].content, errors: [] });
+    });
+
+    it('flags repeated words with the stub provider', async () => {
+      (openAIService as any).provider = new StubLLMProvider();
+
+      const result = await openAIService.correctMessages(messages, userProfile);
+
+      expect(result.corrections[1]).toMatchObject({
+        corrected: 'Me gusta mucho',
+        errors: [{ start: 9, end: 20, text: 'mucho mucho', correction: 'mucho', category: 'lexical' }]
+      });
+    });
+  });
+
+  describe('redaction', () => {
+    const personal = conversation('Hi! My name is Lucía, write to lucia@example.com', 'Nice to meet you, Lucía!');
+
+    it('masks PII in the prompt and restores it in the analysis', async () => {
+      create.mockResolvedValue(completion(JSON.stringify({ ...validOutput, summary: '[NAME_1] introduced herself and shared [EMAIL_1].' })));
+
+      const analysis = await openAIService.analyzeConversation(personal, { ...userProfile, first_name: 'Lucía' });
+
+      const prompt = create.mock.calls[0][0].messages[1].content;
+      expect(prompt).not.toContain('Lucía');
+      expect(prompt).not.toContain('lucia@example.com');
+      expect(prompt).toContain('[NAME_1]');
+      expect(analysis.summary).toBe('Lucía introduced herself and shared lucia@example.com.');
+    });
+
+    it('restores placeholders split across streamed deltas', async () => {
+      const output = JSON.stringify({ ...validOutput, summary: 'Met [NAME_1] today.' });
+      const split = output.indexOf('[NAME_1]') + 3;
+      create.mockResolvedValue((async function* () {
+        yield { choices: [{ delta: { content: output.slice(0, split) } }] };
+        yield { choices: [{ delta: { content: output.slice(split) } }] };
+      })());
+
+      const deltas: string[] = [];
+      for await (const event of openAIService.streamConversationAnalysis(personal, userProfile)) {
+        if (event.type === 'summary') deltas.push(event.delta);
+      }
+
+      expect(deltas).toEqual(['Met ', 'Lucía today.']);
+    });
+
+    it('locates corrections of messages with PII in the original text', async () => {
+      create.mockResolvedValue(completion(JSON.stringify({
+        corrections: [{
+          index: 0,
+          corrected: 'Hi! My name is [NAME_1], write to me at [EMAIL_1]',
+          errors: [{ text: 'write to [EMAIL_1]', correction: 'write to me at [EMAIL_1]', category: 'word_order', explanation: 'Add "me at".' }]
+        }]
+      })));
+
+      const result = await openAIService.correctMessages(personal, userProfile);
+
+      expect(result.corrections[0].corrected).toBe('Hi! My name is Lucía, write to me at lucia@example.com');
+      expect(result.corrections[0].errors[0]).toMatchObject({ start: 22, end: 48, text: 'write to lucia@example.com' });
+    });
+
+    it('masks PII in the learner history of analysis prompts', async () => {
+      supabaseState.tables.analysis_prompts[0] = {
+        ...promptRow('general'),
+        prompt_template: 'History:\n{{learner_history}}\n\n{{conversation_text}}',
+        variables: ['learner_history', 'conversation_text']
+      };
+      supabaseState.tables.conversation_analyses = [{
+        user_id: 'user-1',
+        analysis: { ...validOutput, userInsights: { ...validOutput.userInsights, commonMistakes: ['spelling lucia@example.com'] } },
+        created_at: '2024-01-01T10:00:00Z'
+      }];
+
+      await openAIService.analyzeConversation(conversation('Hola'), userProfile, undefined, { userId: 'user-1' });
+
+      const prompt = create.mock.calls[0][0].messages[1].content;
+      expect(prompt).not.toContain('lucia@example.com');
+      expect(prompt).toContain('spelling [EMAIL_1]');
+    });
+
+    it('masks PII in the learner history of study plans and restores it in the plan', async () => {
+      create.mockResolvedValue(completion(JSON.stringify({
+        title: 'Plan for [NAME_1]',
+        weeks: [{ focus: 'Greetings', topics: [{ title: 'Introductions', description: 'Write to [EMAIL_1]', objectives: ['Greet'] }] }]
+      })));
+
+      const plan = await openAIService.generateStudyPlan({ ...userProfile, first_name: 'Lucía' }, {
+        practiceLanguage: 'es',
+        weeks: 1,
+        sessionsPerWeek: 1,
+        learnerHistory: 'Lucía shared lucia@example.com'
+      });
+
+      const prompt = create.mock.calls[0][0].messages[1].content;
+      expect(prompt).not.toContain('Lucía');
+      expect(prompt).toContain('[NAME_1] shared [EMAIL_1]');
+      expect(plan.title).toBe('Plan for Lucía');
+      expect(plan.weeks[0].topics[0].description).toBe('Write to lucia@example.com');
+    });
+
+    it('masks PII in the mistakes exercises target', async () => {
+      create.mockResolvedValue(completion(JSON.stringify({
+        exercises: [{
+          type: 'fill_in_blank',
+          instructions: 'Fill in the gap',
+          prompt: '[NAME_1] ___ estudiante.',
+          answer: 'es',
+          explanation: 'Ser for identity.',
+          focus: 'ser vs estar'
+        }]
+      })));
+
+      const exercises = await openAIService.generateExercises({ ...userProfile, first_name: 'Lucía' }, {
+        practiceLanguage: 'es',
+        count: 1,
+        types: ['fill_in_blank'],
+        commonMistakes: ['Lucía está estudiante'],
+        areasForImprovement: ['call 555-123-4567 politely']
+      });
+
+      const prompt = create.mock.calls[0][0].messages[1].content;
+      expect(prompt).not.toContain('Lucía');
+      expect(prompt).not.toContain('555-123-4567');
+      expect(exercises[0].prompt).toBe('Lucía ___ estudiante.');
+    });
+
+    it('sends conversations unchanged when the policy is off', async () => {
+      vi.stubEnv('REDACTION_POLICY', JSON.stringify({ openai: [] }));
+
+      await openAIService.analyzeConversation(personal, userProfile);
+
+      expect(create.mock.calls[0][0].messages[1].content).toContain('lucia@example.com');
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe('usage', () => {
+    it('records the tokens of every request of an analysis for the user', async () => {
+      create
+        .mockResolvedValueOnce(completion('{"summary": "incomplete"}'))
+        .mockResolvedValueOnce(completion(JSON.stringify(validOutput)));
+
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile, undefined, { userId: 'user-1' });
+
+      expect(supabaseState.tables.api_usage).toEqual([expect.objectContaining({
+        user_id: 'user-1',
+        service_name: 'openai',
+        model: 'gpt-4o-mini',
+        prompt_tokens: 20,
+        completion_tokens: 40,
+        cost_usd: 0.000027
+      })]);
+    });
+
+    it('records usage reported at the end of a stream', async () => {
+      create.mockResolvedValue((async function* () {
+        yield { choices: [{ delta: { content: JSON.stringify(validOutput) } }] };
+        yield { choices: [], usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 } };
+      })());
+
+      for await (const _event of openAIService.streamConversationAnalysis(conversation('Hello!', 'Hi!'), userProfile, undefined, { userId: 'user-1' })) {
+        // drain
+      }
+
+      expect(create.mock.calls[0][0].stream_options).toEqual({ include_usage: true });
+      expect(supabaseState.tables.api_usage).toEqual([
+        expect.objectContaining({ user_id: 'user-1', prompt_tokens: 100, completion_tokens: 50 })
+      ]);
+    });
+
+    it('records usage of other providers under their own name, unpriced by default', async () => {
+      (openAIService as any).provider = new OpenAIProvider({ apiKey: 'not-needed', baseURL: 'http://localhost:8000/v1', name: 'openai_compatible' });
+
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile, undefined, { userId: 'user-1' });
+
+      expect(supabaseState.tables.api_usage).toEqual([expect.objectContaining({
+        service_name: 'openai_compatible',
+        prompt_tokens: 10,
+        cost_usd: 0
+      })]);
+    });
+
+    it('records nothing for cached analyses', async () => {
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+
+      expect(supabaseState.tables.api_usage).toHaveLength(1);
+    });
+
+    it('rejects users over their token quota without calling the model', async () => {
+      supabaseState.tables.user_quotas = [{ user_id: 'user-1', plan: 'free', limits: { daily: { tokens: 50 } } }];
+      supabaseState.tables.api_usage = [{ user_id: 'user-1', prompt_tokens: 30, completion_tokens: 20, created_at: new Date().toISOString() }];
+
+      await expect(openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile, undefined, { userId: 'user-1' }))
+        .rejects.toBeInstanceOf(RateLimitError);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('providers', () => {
+    it('runs the full analysis pipeline offline with the stub provider', async () => {
+      (openAIService as any).provider = new StubLLMProvider();
+
+      const messages = conversation('Quiero viajar a Barcelona el verano.', '¡Qué bien!', 'Barcelona tiene playas.');
+      const first = await openAIService.analyzeConversation(messages, userProfile, undefined, { conversationType: 'general' });
+      cacheService.flush();
+      const second = await openAIService.analyzeConversation(messages, userProfile, undefined, { conversationType: 'general' });
+
+      expect(create).not.toHaveBeenCalled();
+      expect(first.degraded).toBe(false);
+      expect(first.keyTopics).toContain('barcelona');
+      expect(second).toEqual(first);
+    });
+
+    it('uses built-in prompts with the stub provider when none are stored', async () => {
+      (openAIService as any).provider = new StubLLMProvider();
+      supabaseState.tables.analysis_prompts = [];
+
+      const analysis = await openAIService.analyzeConversation(
+        conversation('Quiero viajar a Barcelona el verano.', '¡Qué bien!'),
+        userProfile,
+        { title: 'Travel', description: 'Holiday plans' },
+        { conversationType: 'practice' }
+      );
+
+      expect(analysis).toMatchObject({ promptId: 'stub-practice', degraded: false });
+    });
+
+    it('streams stub analyses', async () => {
+      (openAIService as any).provider = new StubLLMProvider();
+
+      const events: any[] = [];
+      for await (const event of openAIService.streamConversationAnalysis(conversation('Hello!', 'Hi!'), userProfile)) {
+        events.push(event);
+      }
+
+      const summary = events.filter(event => event.type === 'summary').map(event => event.delta).join('');
+      expect(summary).toBe('Stub analysis of a conversation with 1 learner message(s).');
+      expect(events[events.length - 1].analysis.degraded).toBe(false);
+    });
+
+    it('selects the provider from LLM_PROVIDER', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'stub');
+
+      await openAIService.analyzeConversation(conversation('Hello!', 'Hi!'), userProfile);
+      vi.unstubAllEnvs();
+
+      expect(create).not.toHaveBeenCalled();
+      expect((openAIService as any).provider.name).toBe('stub');
+    });
+  });
+});
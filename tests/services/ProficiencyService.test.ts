@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { proficiencyService } from '../../src/services/ProficiencyService';
+import { ConversationAnalysis } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+function analysis(overrides: Partial<ConversationAnalysis> = {}): ConversationAnalysis {
+  return {
+    summary: 'The learner ordered food.',
+    keyTopics: ['food'],
+    userInsights: {
+      languageLevel: 'A2',
+      commonMistakes: [],
+      interests: [],
+      learningStyle: 'practical',
+      strengths: [],
+      areasForImprovement: []
+    },
+    conversationType: 'practice',
+    learningProgress: {
+      vocabularyProgress: 'Good',
+      grammarProgress: 'Developing',
+      fluencyProgress: 'Developing'
+    },
+    proficiency: { cefrLevel: 'A2', vocabulary: 45, grammar: 38, fluency: 41, confidence: 0.7 },
+    promptId: 'prompt-practice',
+    degraded: false,
+    ...overrides
+  };
+}
+
+describe('ProficiencyService', () => {
+  beforeEach(() => {
+    resetFakeSupabaseState(supabaseState);
+  });
+
+  it('stores estimates per conversation and returns them oldest first', async () => {
+    await proficiencyService.recordEstimate('user-1', analysis(), 'conv-1');
+    await proficiencyService.recordEstimate('user-1', analysis({
+      proficiency: { cefrLevel: 'B1', vocabulary: 55, grammar: 50, fluency: 52, confidence: 0.8 }
+    }), 'conv-2');
+    await proficiencyService.recordEstimate('user-2', analysis(), 'conv-3');
+    supabaseState.tables.proficiency_estimates[0].created_at = '2024-01-01T00:00:00Z';
+
+    const history = await proficiencyService.getHistory('user-1');
+
+    expect(history.map(record => [record.conversationId, record.cefrLevel])).toEqual([['conv-1', 'A2'], ['conv-2', 'B1']]);
+    expect(history[1]).toMatchObject({ userId: 'user-1', conversationType: 'practice', promptId: 'prompt-practice', grammar: 50 });
+  });
+
+  it('keeps one estimate per conversation when it is analyzed again', async () => {
+    await proficiencyService.recordEstimate('user-1', analysis(), 'conv-1');
+    await proficiencyService.recordEstimate('user-1', analysis({
+      proficiency: { cefrLevel: 'B1', vocabulary: 55, grammar: 50, fluency: 52, confidence: 0.8 }
+    }), 'conv-1');
+
+    const history = await proficiencyService.getHistory('user-1');
+
+    expect(history.map(record => [record.conversationId, record.cefrLevel])).toEqual([['conv-1', 'B1']]);
+  });
+
+  it('skips degraded analyses', async () => {
+    await proficiencyService.recordEstimate('user-1', analysis({ proficiency: undefined, degraded: true }));
+
+    expect(await proficiencyService.getHistory('user-1')).toEqual([]);
+  });
+
+  it('does not fail the request when storage fails', async () => {
+    supabaseState.failures.proficiency_estimates = 'database unavailable';
+
+    await expect(proficiencyService.recordEstimate('user-1', analysis())).resolves.toBeUndefined();
+  });
+});
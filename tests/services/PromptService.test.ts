@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { promptService } from '../../src/services/PromptService';
+import { cacheService } from '../../src/utils/cache';
+import { NotFoundError, ValidationError } from '../../src/utils/errors';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+function promptRow(id: string, version: string, isActive: boolean) {
+  return {
+    id,
+    prompt_name: 'General analysis',
+    prompt_version: version,
+    conversation_type: 'general',
+    language_code: 'en',
+    prompt_template: `Version ${version}:\n{{conversation_text}}`,
+    variables: ['conversation_text'],
+    is_active: isActive
+  };
+}
+
+describe('PromptService', () => {
+  beforeEach(() => {
+    resetFakeSupabaseState(supabaseState);
+    cacheService.flush();
+
+    supabaseState.tables.analysis_prompts = [
+      promptRow('prompt-1', '1', true),
+      promptRow('prompt-2', '2', false)
+    ];
+  });
+
+  it('creates inactive versions numbered after the latest one', async () => {
+    const prompt = await promptService.createVersion('prompt-1', { model: 'gpt-4o' });
+
+    expect(prompt).toMatchObject({
+      prompt_version: '3',
+      prompt_template: 'Version 1:\n{{conversation_text}}',
+      model: 'gpt-4o',
+      is_active: false
+    });
+  });
+
+  it('rejects templates with undeclared variables', async () => {
+    await expect(promptService.createVersion('prompt-1', { promptTemplate: '{{conversation_text}} {{mood}}' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(supabaseState.tables.analysis_prompts).toHaveLength(2);
+  });
+
+  it('activates one version at a time', async () => {
+    await promptService.activatePrompt('prompt-2');
+
+    const active = supabaseState.tables.analysis_prompts.filter((row: any) => row.is_active);
+    expect(active.map((row: any) => row.id)).toEqual(['prompt-2']);
+  });
+
+  it('adds weighted versions to an experiment', async () => {
+    await promptService.activatePrompt('prompt-2', 3);
+
+    const active = supabaseState.tables.analysis_prompts.filter((row: any) => row.is_active);
+    expect(active.map((row: any) => row.id)).toEqual(['prompt-1', 'prompt-2']);
+    expect(active[1].traffic_weight).toBe(3);
+  });
+
+  it('invalidates cached analyses for the conversation type and language', async () => {
+    const generalKey = `${cacheService.generateAnalysisScope('general', 'en')}:abc`;
+    const practiceKey = `${cacheService.generateAnalysisScope('practice', 'en')}:abc`;
+    cacheService.set(generalKey, {}, 'openai');
+    cacheService.set(practiceKey, {}, 'openai');
+
+    await promptService.activatePrompt('prompt-2');
+
+    expect(cacheService.has(generalKey)).toBe(false);
+    expect(cacheService.has(practiceKey)).toBe(true);
+  });
+
+  it('previews stored prompts with the sample context', async () => {
+    const preview = await promptService.previewPrompt({ promptId: 'prompt-2' });
+
+    expect(preview.prompt).toContain('Version 2:\nUSER: Quisiera una mesa');
+  });
+
+  it('previews draft templates with context overrides', async () => {
+    const preview = await promptService.previewPrompt({
+      promptTemplate: '{{first_name}}: {{#each word_list_words}}{{this.word}} {{/each}}',
+      variables: ['first_name', 'word_list_words'],
+      conversationType: 'vocabulary_practice',
+      context: { first_name: 'Maria' }
+    });
+
+    expect(preview.prompt).toBe('Maria: mesa cuenta ');
+  });
+
+  it('rejects variables the conversation type is not rendered with', async () => {
+    const preview = promptService.previewPrompt({
+      promptTemplate: '{{#each word_list_words}}{{this.word}} {{/each}}',
+      variables: ['word_list_words'],
+      conversationType: 'general'
+    });
+
+    await expect(preview).rejects.toMatchObject({
+      details: [{ field: 'promptTemplate', message: 'Unknown variable "word_list_words"' }]
+    });
+  });
+
+  it('requires optional variables to be guarded by an if block', async () => {
+    const create = (promptTemplate: string) => promptService.createPrompt({
+      promptName: 'Topic analysis',
+      conversationType: 'practice',
+      languageCode: 'en',
+      promptTemplate,
+      variables: ['study_topic', 'conversation_text']
+    });
+
+    await expect(create('Topic: {{study_topic.title}}\n{{conversation_text}}')).rejects.toMatchObject({
+      details: [{ field: 'promptTemplate', message: 'Variable "study_topic" may be empty, use it inside an {{#if study_topic}} block' }]
+    });
+    await expect(create('{{#if study_topic}}Topic: {{study_topic.title}}\n{{/if}}{{conversation_text}}'))
+      .resolves.toMatchObject({ prompt_version: '1' });
+  });
+
+  it('validates rows without declared variables against their template', async () => {
+    supabaseState.tables.analysis_prompts.push({
+      ...promptRow('prompt-legacy', '3', false),
+      prompt_template: '{{conversation_text}} {{word_list_title}}',
+      variables: null
+    });
+
+    await expect(promptService.activatePrompt('prompt-legacy')).rejects.toMatchObject({
+      details: [{ field: 'promptTemplate', message: 'Unknown variable "word_list_title"' }]
+    });
+
+    const preview = await promptService.previewPrompt({ promptId: 'prompt-2' });
+    expect(preview.variables).toEqual(['conversation_text']);
+  });
+
+  it('reports unknown prompts', async () => {
+    await expect(promptService.activatePrompt('prompt-unknown')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { DEFAULT_QUOTA_PLANS, getQuotaPlans, quotaService } from '../../src/services/QuotaService';
+import { elevenLabsService } from '../../src/services/ElevenLabsService';
+import { RateLimitError } from '../../src/utils/errors';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const NOW = new Date('2024-03-15T12:00:00Z');
+
+function usageRow(userId: string, createdAt: string, fields: Record<string, number>) {
+  return { user_id: userId, prompt_tokens: 0, completion_tokens: 0, characters: 0, emails: 0, ...fields, created_at: createdAt };
+}
+
+describe('QuotaService', () => {
+  beforeEach(() => {
+    resetFakeSupabaseState(supabaseState);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('counts usage of the current day and month against the plan', async () => {
+    supabaseState.tables.api_usage = [
+      usageRow('user-1', '2024-03-15T08:00:00Z', { prompt_tokens: 1000, completion_tokens: 500 }),
+      usageRow('user-1', '2024-03-02T08:00:00Z', { prompt_tokens: 2000, emails: 1 }),
+      usageRow('user-1', '2024-02-28T08:00:00Z', { prompt_tokens: 9000 }),
+      usageRow('user-2', '2024-03-15T08:00:00Z', { prompt_tokens: 9000 })
+    ];
+
+    const status = await quotaService.getStatus('user-1', NOW);
+
+    expect(status.plan).toBe('free');
+    expect(status.allowances).toContainEqual({
+      period: 'daily', metric: 'tokens', limit: 100000, used: 1500, remaining: 98500, resetsAt: '2024-03-16T00:00:00.000Z'
+    });
+    expect(status.allowances).toContainEqual({
+      period: 'monthly', metric: 'tokens', limit: 1000000, used: 3500, remaining: 996500, resetsAt: '2024-04-01T00:00:00.000Z'
+    });
+    expect(status.allowances).toContainEqual(expect.objectContaining({ period: 'monthly', metric: 'emails', used: 1 }));
+  });
+
+  it('counts every usage row, beyond the rows one query returns', async () => {
+    supabaseState.tables.api_usage = Array.from({ length: 1500 }, () =>
+      usageRow('user-1', '2024-03-15T08:00:00Z', { prompt_tokens: 50, completion_tokens: 50 })
+    );
+
+    await expect(quotaService.assertWithinQuota('user-1', 'tokens', 0, NOW)).rejects.toThrow(
+      'Daily AI token quota exceeded: 150000 of 100000 used'
+    );
+  });
+
+  it('applies individual limits over the user plan', async () => {
+    supabaseState.tables.user_quotas = [{ user_id: 'user-1', plan: 'pro', limits: { daily: { emails: 5 } } }];
+
+    const status = await quotaService.getStatus('user-1', NOW);
+
+    expect(status.plan).toBe('pro');
+    const daily = status.allowances.filter(allowance => allowance.period === 'daily');
+    expect(daily.map(allowance => [allowance.metric, allowance.limit])).toEqual([
+      ['tokens', DEFAULT_QUOTA_PLANS.pro.daily!.tokens],
+      ['characters', DEFAULT_QUOTA_PLANS.pro.daily!.characters],
+      ['emails', 5]
+    ]);
+  });
+
+  it('rejects exhausted budgets and requests larger than what remains', async () => {
+    supabaseState.tables.user_quotas = [{ user_id: 'user-1', plan: 'free', limits: { daily: { characters: 100, emails: 1 } } }];
+    supabaseState.tables.api_usage = [usageRow('user-1', '2024-03-15T08:00:00Z', { characters: 60, emails: 1 })];
+
+    await expect(quotaService.assertWithinQuota('user-1', 'emails', 1, NOW)).rejects.toThrow(
+      'Daily email quota exceeded: 1 of 1 used, 1 requested. Resets at 2024-03-16T00:00:00.000Z'
+    );
+    await expect(quotaService.assertWithinQuota('user-1', 'characters', 50, NOW)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(quotaService.assertWithinQuota('user-1', 'characters', 40, NOW)).resolves.toBeUndefined();
+  });
+
+  it('does not limit system and anonymous requests', async () => {
+    supabaseState.tables.user_quotas = [{ user_id: 'system', plan: 'free', limits: { daily: { tokens: 0 } } }];
+
+    await expect(quotaService.assertWithinQuota('system', 'tokens', 0, NOW)).resolves.toBeUndefined();
+    await expect(quotaService.assertWithinQuota(undefined, 'tokens', 0, NOW)).resolves.toBeUndefined();
+  });
+
+  it('applies QUOTA_PLANS over the defaults and ignores invalid values', () => {
+    const team = { daily: { tokens: 5 }, monthly: { tokens: 50 } };
+    vi.stubEnv('QUOTA_PLANS', JSON.stringify({ team }));
+    expect(getQuotaPlans()).toEqual({ ...DEFAULT_QUOTA_PLANS, team });
+
+    vi.stubEnv('QUOTA_PLANS', '[]');
+    expect(getQuotaPlans()).toBe(DEFAULT_QUOTA_PLANS);
+
+    vi.stubEnv('QUOTA_PLANS', JSON.stringify({ team: { weekly: { tokens: 5 } } }));
+    expect(getQuotaPlans()).toBe(DEFAULT_QUOTA_PLANS);
+  });
+
+  it('checks text-to-speech characters before calling ElevenLabs', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    supabaseState.tables.user_quotas = [{ user_id: 'user-1', plan: 'free', limits: { daily: { characters: 10 } } }];
+
+    await expect(elevenLabsService.generateVoice('This sentence is too long', 'voice_1', undefined, 'user-1'))
+      .rejects.toBeInstanceOf(RateLimitError);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { studyPlanService } from '../../src/services/StudyPlanService';
+import { openAIService } from '../../src/services/OpenAIService';
+import { StubLLMProvider } from '../../src/services/LLMProvider';
+import { ContentBlockedError, ExternalAPIError, NotFoundError } from '../../src/utils/errors';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const userProfile = {
+  native_language: 'English',
+  practice_languages: ['Spanish', 'French'],
+  level: 'Beginner',
+  learning_goals: 'Travel',
+  interface_language: 'en'
+};
+
+describe('StudyPlanService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetFakeSupabaseState(supabaseState);
+    (openAIService as any).provider = new StubLLMProvider();
+  });
+
+  it('generates and stores a plan with the requested weeks and topics', async () => {
+    const plan = await studyPlanService.createPlan('user-1', { userProfile, weeks: 2, sessionsPerWeek: 3 });
+
+    expect(plan).toMatchObject({ userId: 'user-1', title: '2-week Spanish plan', practiceLanguage: 'Spanish' });
+    expect(plan.weeks.map(week => [week.week, week.topics.length])).toEqual([[1, 3], [2, 3]]);
+    expect(await studyPlanService.getPlan('user-1', plan.id)).toEqual(plan);
+  });
+
+  it('bases the plan on the learner history', async () => {
+    supabaseState.tables.conversation_analyses = [{
+      user_id: 'user-1',
+      analysis: { userInsights: { commonMistakes: ['ser vs estar'], strengths: [], interests: ['food'] } },
+      created_at: '2024-01-01T10:00:00Z'
+    }];
+    const complete = vi.spyOn((openAIService as any).provider, 'complete');
+
+    await studyPlanService.createPlan('user-1', { userProfile, practiceLanguage: 'French', weeks: 1, sessionsPerWeek: 1 });
+
+    const prompt = (complete.mock.calls[0][0] as any).messages[1].content;
+    expect(prompt).toContain('- Practice language: French');
+    expect(prompt).toContain('Recurring mistakes: ser vs estar (1x)');
+  });
+
+  it('trims extra weeks and topics and numbers weeks itself', async () => {
+    (openAIService as any).provider = new StubLLMProvider(() => JSON.stringify({
+      title: 'Plan',
+      weeks: [5, 6, 7].map(number => ({
+        week: number,
+        focus: 'Practice',
+        topics: [1, 2, 3].map(topic => ({ title: `Topic ${topic}`, description: 'Talk', objectives: ['Speak'] }))
+      }))
+    }));
+
+    const plan = await studyPlanService.createPlan('user-1', { userProfile, weeks: 2, sessionsPerWeek: 2 });
+
+    expect(plan.weeks.map(week => [week.week, week.topics.length])).toEqual([[1, 2], [2, 2]]);
+  });
+
+  it('does not store a plan when generation fails', async () => {
+    (openAIService as any).provider = new StubLLMProvider(() => 'not json');
+
+    await expect(studyPlanService.createPlan('user-1', { userProfile, weeks: 1, sessionsPerWeek: 1 }))
+      .rejects.toBeInstanceOf(ExternalAPIError);
+    expect(supabaseState.tables.study_plans).toBeUndefined();
+  });
+
+  it('does not store a plan blocked by moderation', async () => {
+    (openAIService as any).provider = new StubLLMProvider(() => JSON.stringify({
+      title: 'Plan',
+      weeks: [{ week: 1, focus: 'Practice', topics: [{ title: 'Films', description: 'Talk about porn', objectives: ['Speak'] }] }]
+    }));
+
+    await expect(studyPlanService.createPlan('user-1', { userProfile, weeks: 1, sessionsPerWeek: 1 }))
+      .rejects.toBeInstanceOf(ContentBlockedError);
+    expect(supabaseState.tables.study_plans).toBeUndefined();
+    expect(supabaseState.tables.moderation_alerts[0]).toMatchObject({
+      path: 'study_plan',
+      flags: [{ source: 'model_output', categories: ['sexual'] }]
+    });
+  });
+
+  it('only returns plans of the user', async () => {
+    const plan = await studyPlanService.createPlan('user-1', { userProfile, weeks: 1, sessionsPerWeek: 1 });
+
+    await expect(studyPlanService.getPlan('user-2', plan.id)).rejects.toBeInstanceOf(NotFoundError);
+    expect(await studyPlanService.listPlans('user-2', { limit: 10 })).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { usageService } from '../../src/services/UsageService';
+import { loggingService } from '../../src/utils/logging';
+import { ValidationError } from '../../src/utils/errors';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+function usageRow(userId: string | null, service: string, createdAt: string, fields: Record<string, number>) {
+  return { user_id: userId, service_name: service, prompt_tokens: 0, completion_tokens: 0, characters: 0, emails: 0, ...fields, created_at: createdAt };
+}
+
+describe('UsageService', () => {
+  beforeEach(() => {
+    resetFakeSupabaseState(supabaseState);
+  });
+
+  it('stores priced usage for logged API calls', async () => {
+    await loggingService.logApiCall({
+      serviceName: 'elevenlabs',
+      endpoint: 'https://api.elevenlabs.io/v1/text-to-speech/voice_1',
+      method: 'POST',
+      responseStatus: 200,
+      userId: 'user-1',
+      usage: { model: 'eleven_multilingual_v2', characters: 1000 }
+    });
+    await loggingService.logApiCall({ serviceName: 'resend', method: 'POST', responseStatus: 500, usage: {} });
+
+    expect(supabaseState.tables.api_usage).toEqual([expect.objectContaining({
+      user_id: 'user-1',
+      service_name: 'elevenlabs',
+      characters: 1000,
+      cost_usd: 0.3
+    })]);
+    expect(supabaseState.tables.unified_logs[0]).toMatchObject({ user_id: 'user-1', event_data: { cost_usd: 0.3 } });
+  });
+
+  it('breaks usage down by user, service and day', async () => {
+    supabaseState.tables.api_usage = [
+      usageRow('user-1', 'openai', '2024-01-15T08:00:00Z', { prompt_tokens: 100, completion_tokens: 50, cost_usd: 0.1 }),
+      usageRow('user-1', 'openai', '2024-01-15T20:00:00Z', { prompt_tokens: 200, completion_tokens: 50, cost_usd: 0.2 }),
+      usageRow('user-1', 'resend', '2024-01-15T09:00:00Z', { emails: 1, cost_usd: 0.0004 }),
+      usageRow('user-2', 'openai', '2024-01-16T09:00:00Z', { prompt_tokens: 10, cost_usd: 0.01 }),
+      usageRow('user-2', 'openai', '2024-02-01T09:00:00Z', { prompt_tokens: 10, cost_usd: 0.01 })
+    ];
+
+    const report = await usageService.getReport({ from: '2024-01-01', to: '2024-01-31' });
+
+    expect(report.totalCostUsd).toBe(0.3104);
+    expect(report.rows).toEqual([
+      { userId: 'user-1', service: 'openai', day: '2024-01-15', calls: 2, promptTokens: 300, completionTokens: 100, characters: 0, emails: 0, costUsd: 0.3 },
+      { userId: 'user-1', service: 'resend', day: '2024-01-15', calls: 1, promptTokens: 0, completionTokens: 0, characters: 0, emails: 1, costUsd: 0.0004 },
+      { userId: 'user-2', service: 'openai', day: '2024-01-16', calls: 1, promptTokens: 10, completionTokens: 0, characters: 0, emails: 0, costUsd: 0.01 }
+    ]);
+  });
+
+  it('reports every group, beyond the rows one request returns', async () => {
+    supabaseState.tables.api_usage = Array.from({ length: 1200 }, (_, index) =>
+      usageRow(`user-${index}`, 'openai', '2024-01-15T08:00:00Z', { prompt_tokens: 10, cost_usd: 0.01 })
+    );
+
+    const report = await usageService.getReport({ from: '2024-01-01', to: '2024-01-31' });
+
+    expect(report.rows).toHaveLength(1200);
+    expect(report.totalCostUsd).toBe(12);
+  });
+
+  it('filters by user and service and defaults to the last 30 days', async () => {
+    supabaseState.tables.api_usage = [
+      usageRow('user-1', 'openai', '2024-03-01T08:00:00Z', { cost_usd: 0.1 }),
+      usageRow('user-1', 'resend', '2024-03-30T08:00:00Z', { cost_usd: 0.2 }),
+      usageRow('user-2', 'openai', '2024-03-30T08:00:00Z', { cost_usd: 0.3 })
+    ];
+
+    const report = await usageService.getReport({ userId: 'user-1', service: 'resend' }, new Date('2024-03-31T12:00:00Z'));
+
+    expect([report.from, report.to]).toEqual(['2024-03-02', '2024-03-31']);
+    expect(report.rows.map(row => row.costUsd)).toEqual([0.2]);
+  });
+
+  it('rejects reversed and overlong ranges', async () => {
+    await expect(usageService.getReport({ from: '2024-02-01', to: '2024-01-01' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(usageService.getReport({ from: '2022-01-01', to: '2024-01-01' })).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetFakeSupabaseState } from '../helpers/supabase';
+import { vocabularyService } from '../../src/services/VocabularyService';
+import { VocabularyContext } from '../../src/types/index';
+
+const supabaseState = vi.hoisted(() => ({ tables: {}, users: {}, failures: {} } as any));
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { createFakeSupabaseClient } = await import('../helpers/supabase');
+  return { createClient: () => createFakeSupabaseClient(supabaseState) };
+});
+
+const wordList: VocabularyContext = {
+  word_list_title: 'Animals',
+  word_list_topic: 'Animals',
+  word_list_words: [{ word: 'perro', translation: 'dog' }, { word: 'gato', translation: 'cat' }, { word: 'pez' }]
+};
+
+const now = new Date('2024-01-10T12:00:00Z');
+
+describe('VocabularyService', () => {
+  beforeEach(() => {
+    resetFakeSupabaseState(supabaseState);
+  });
+
+  it('schedules the words the learner used and ignores unused ones', async () => {
+    await vocabularyService.recordOutcomes('user-1', wordList, [
+      { word: 'perro', outcome: 'correct' },
+      { word: 'gato', outcome: 'incorrect', note: 'Used for dog' },
+      { word: 'pez', outcome: 'not_used' }
+    ], 'conv-1', now);
+
+    const rows = supabaseState.tables.vocabulary_reviews;
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      user_id: 'user-1',
+      word: 'perro',
+      translation: 'dog',
+      repetitions: 1,
+      correct_count: 1,
+      last_outcome: 'correct',
+      due_at: '2024-01-11T12:00:00.000Z'
+    });
+    expect(rows[1]).toMatchObject({ word: 'gato', repetitions: 0, incorrect_count: 1 });
+  });
+
+  it('continues existing schedules', async () => {
+    supabaseState.tables.vocabulary_reviews = [{
+      id: 'vr-1',
+      user_id: 'user-1',
+      word: 'perro',
+      translation: 'dog',
+      ease_factor: 2.5,
+      interval_days: 1,
+      repetitions: 1,
+      correct_count: 1,
+      incorrect_count: 0
+    }];
+
+    await vocabularyService.recordOutcomes('user-1', wordList, [{ word: 'perro', outcome: 'correct' }], 'conv-2', now);
+
+    expect(supabaseState.tables.vocabulary_reviews).toHaveLength(1);
+    expect(supabaseState.tables.vocabulary_reviews[0]).toMatchObject({
+      interval_days: 6,
+      repetitions: 2,
+      correct_count: 2,
+      due_at: '2024-01-16T12:00:00.000Z'
+    });
+  });
+
+  it('applies the outcomes of a conversation once', async () => {
+    const outcomes = [{ word: 'perro', outcome: 'correct' as const }];
+
+    await vocabularyService.recordOutcomes('user-1', wordList, outcomes, 'conv-1', now);
+    await vocabularyService.recordOutcomes('user-1', wordList, outcomes, 'conv-1', now);
+
+    expect(supabaseState.tables.vocabulary_reviews[0]).toMatchObject({ repetitions: 1, correct_count: 1 });
+  });
+
+  it('applies the outcomes again when storing them failed', async () => {
+    const outcomes = [{ word: 'perro', outcome: 'correct' as const }];
+
+    supabaseState.failures.vocabulary_reviews = 'database unavailable';
+    await vocabularyService.recordOutcomes('user-1', wordList, outcomes, 'conv-1', now);
+    delete supabaseState.failures.vocabulary_reviews;
+    await vocabularyService.recordOutcomes('user-1', wordList, outcomes, 'conv-1', now);
+
+    expect(supabaseState.tables.vocabulary_reviews[0]).toMatchObject({ repetitions: 1, correct_count: 1 });
+  });
+
+  it('returns due words, most overdue first, as a vocabulary context', async () => {
+    supabaseState.tables.vocabulary_reviews = [
+      { id: 'vr-1', user_id: 'user-1', word: 'gato', translation: 'cat', due_at: '2024-01-09T00:00:00.000Z' },
+      { id: 'vr-2', user_id: 'user-1', word: 'perro', translation: 'dog', due_at: '2024-01-05T00:00:00.000Z' },
+      { id: 'vr-3', user_id: 'user-1', word: 'pez', translation: null, due_at: '2024-01-08T00:00:00.000Z' },
+      { id: 'vr-4', user_id: 'user-1', word: 'casa', translation: 'house', due_at: '2024-02-01T00:00:00.000Z' },
+      { id: 'vr-5', user_id: 'user-2', word: 'mesa', translation: 'table', due_at: '2024-01-01T00:00:00.000Z' }
+    ];
+
+    const dueWords = await vocabularyService.getDueWords('user-1', { limit: 2 }, now);
+
+    expect(dueWords).toEqual({
+      word_list_title: 'Words due for review',
+      word_list_topic: 'Review',
+      word_list_words: [{ word: 'perro', translation: 'dog' }, { word: 'pez' }]
+    });
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Test environment setup
+ * Services read their configuration at import time, so it must exist before any handler is loaded
+ */
+process.env.OPENAI_API_KEY = 'test-openai-key';
+process.env.ELEVENLABS_API_KEY = 'test-elevenlabs-key';
+process.env.RESEND_API_KEY = 'test-resend-key';
+process.env.SUPABASE_URL = 'https://supabase.test';
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key';
+process.env.API_SECRET_KEY = 'test-api-secret';
+process.env.NODE_ENV = 'test';
+process.env.MODERATION_PROVIDER = 'rules';
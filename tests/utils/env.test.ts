@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { parseJsonEnv } from '../../src/utils/env';
+
+const defaults = { limit: 10 };
+const schema = z.object({ limit: z.number().int().positive() }).partial().transform(overrides => ({ ...defaults, ...overrides }));
+
+describe('parseJsonEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('parses the variable with the schema', () => {
+    vi.stubEnv('TEST_SETTINGS', JSON.stringify({ limit: 20 }));
+
+    expect(parseJsonEnv('TEST_SETTINGS', schema, defaults)).toEqual({ limit: 20 });
+  });
+
+  it('falls back when the variable is unset, not JSON or does not match the schema', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    vi.stubEnv('TEST_SETTINGS', '');
+    expect(parseJsonEnv('TEST_SETTINGS', schema, defaults)).toBe(defaults);
+    expect(warn).not.toHaveBeenCalled();
+
+    vi.stubEnv('TEST_SETTINGS', '{limit: 20}');
+    expect(parseJsonEnv('TEST_SETTINGS', schema, defaults)).toBe(defaults);
+
+    vi.stubEnv('TEST_SETTINGS', JSON.stringify({ limit: 'many' }));
+    expect(parseJsonEnv('TEST_SETTINGS', schema, defaults)).toBe(defaults);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][0]).toBe('⚠️ Invalid TEST_SETTINGS, using defaults:');
+  });
+});
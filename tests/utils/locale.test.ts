@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getLocaleFallbacks, normalizeLocale } from '../../src/utils/locale';
+
+describe('locale', () => {
+  it('writes language tags in their usual case', () => {
+    expect(normalizeLocale('pt_br')).toBe('pt-BR');
+    expect(normalizeLocale('ZH-hant-tw')).toBe('zh-Hant-TW');
+    expect(normalizeLocale('es-419')).toBe('es-419');
+    expect(normalizeLocale('EN')).toBe('en');
+  });
+
+  it('falls back from the most specific locale to the default', () => {
+    expect(getLocaleFallbacks('pt-BR')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(getLocaleFallbacks('zh_Hant_TW')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh', 'en']);
+  });
+
+  it('does not repeat the default locale', () => {
+    expect(getLocaleFallbacks('en-GB')).toEqual(['en-GB', 'en']);
+    expect(getLocaleFallbacks('en')).toEqual(['en']);
+    expect(getLocaleFallbacks(undefined)).toEqual(['en']);
+    expect(getLocaleFallbacks('')).toEqual(['en']);
+  });
+});
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RATES, getRateTable, priceUsage } from '../../src/utils/pricing';
+
+describe('pricing', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prices tokens by model and falls back to the service rate', () => {
+    expect(priceUsage('openai', { model: 'gpt-4o', promptTokens: 1000, completionTokens: 1000 })).toBe(0.0125);
+    expect(priceUsage('openai', { model: 'unknown-model', promptTokens: 1000 })).toBe(0.00015);
+  });
+
+  it('prices characters and emails', () => {
+    expect(priceUsage('elevenlabs', { characters: 500 })).toBe(0.15);
+    expect(priceUsage('resend', { emails: 1 })).toBe(0.0004);
+    expect(priceUsage('posthog', { emails: 1 })).toBe(0);
+  });
+
+  it('applies USAGE_RATES over the defaults and ignores invalid values', () => {
+    vi.stubEnv('USAGE_RATES', JSON.stringify({ resend: { emails: 1 } }));
+    expect(getRateTable()).toEqual({ ...DEFAULT_RATES, resend: { emails: 1 } });
+    expect(priceUsage('resend', { emails: 2 })).toBe(0.002);
+
+    vi.stubEnv('USAGE_RATES', 'not json');
+    expect(getRateTable()).toBe(DEFAULT_RATES);
+
+    vi.stubEnv('USAGE_RATES', JSON.stringify({ resend: { emails: -1 } }));
+    expect(getRateTable()).toBe(DEFAULT_RATES);
+  });
+});
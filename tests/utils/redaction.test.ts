@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_REDACTION_POLICY,
+  PII_CATEGORIES,
+  getRedactionPolicy,
+  redactMessages,
+  redactText,
+  redactValue,
+  restorePartialText,
+  restorePlaceholders
+} from '../../src/utils/redaction';
+import { Message } from '../../src/types/index';
+
+describe('redaction', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('masks emails, phone numbers and addresses', () => {
+    const placeholders = {};
+    const text = 'Write to ana.perez@example.com or call +34 612 345 678. I live at 12 Baker Street and work in Calle Mayor 5.';
+
+    expect(redactText(text, PII_CATEGORIES, placeholders)).toBe(
+      'Write to [EMAIL_1] or call [PHONE_1]. I live at [ADDRESS_1] and work in [ADDRESS_2].'
+    );
+    expect(placeholders).toEqual({
+      '[EMAIL_1]': 'ana.perez@example.com',
+      '[PHONE_1]': '+34 612 345 678',
+      '[ADDRESS_1]': '12 Baker Street',
+      '[ADDRESS_2]': 'Calle Mayor 5'
+    });
+  });
+
+  it('leaves dates, short numbers and ordinary words alone', () => {
+    const text = 'On 2024-01-15 I walked 3 miles down the road and paid 1200 euros.';
+    expect(redactText(text, PII_CATEGORIES)).toBe(text);
+  });
+
+  it('masks introduced and known names in every message with one placeholder each', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'Hola, me llamo Lucía. Mi amigo es Tom.' },
+      { role: 'assistant', content: '¡Hola Lucía! ¿Y Tom habla español?' },
+      { role: 'user', content: 'Sí, Tom habla un poco. I will ask him.' }
+    ];
+
+    const redacted = redactMessages(messages, PII_CATEGORIES, ['Tom', 'Will']);
+
+    expect(redacted.messages.map(message => message.content)).toEqual([
+      'Hola, me llamo [NAME_1]. Mi amigo es [NAME_2].',
+      '¡Hola [NAME_1]! ¿Y [NAME_2] habla español?',
+      'Sí, [NAME_2] habla un poco. I will ask him.'
+    ]);
+    expect(redacted.placeholders).toEqual({ '[NAME_1]': 'Lucía', '[NAME_2]': 'Tom' });
+  });
+
+  it('only masks the categories it is given', () => {
+    const text = 'My name is Ana, ana@example.com';
+    expect(redactText(text, ['email'])).toBe('My name is Ana, [EMAIL_1]');
+    expect(redactText(text, [])).toBe(text);
+  });
+
+  it('restores placeholders in nested values and keeps unknown ones', () => {
+    const placeholders = { '[NAME_1]': 'Lucía', '[EMAIL_1]': 'lucia@example.com' };
+    const output = {
+      summary: '[NAME_1] shared [EMAIL_1] and mentioned [NAME_7].',
+      keyTopics: ['[NAME_1] at work'],
+      confidence: 0.5
+    };
+
+    expect(restorePlaceholders(output, placeholders)).toEqual({
+      summary: 'Lucía shared lucia@example.com and mentioned [NAME_7].',
+      keyTopics: ['Lucía at work'],
+      confidence: 0.5
+    });
+  });
+
+  it('holds back placeholders cut off at the end of partial text', () => {
+    const placeholders = { '[NAME_1]': 'Lucía' };
+
+    expect(restorePartialText('The learner [NA', placeholders)).toBe('The learner ');
+    expect(restorePartialText('The learner [NAME_1] said', placeholders)).toBe('The learner Lucía said');
+    expect(restorePartialText('Scores [1', placeholders)).toBe('Scores [1');
+  });
+
+  it('redacts logged values without keeping placeholders', () => {
+    expect(redactValue({ text: 'Call me Ana at 612 345 678', voice_settings: { stability: 0.5 } }, PII_CATEGORIES)).toEqual({
+      text: 'Call me [NAME_1] at [PHONE_1]',
+      voice_settings: { stability: 0.5 }
+    });
+  });
+
+  it('applies REDACTION_POLICY over the defaults and ignores invalid values', () => {
+    vi.stubEnv('REDACTION_POLICY', JSON.stringify({ elevenlabs: [] }));
+    expect(getRedactionPolicy()).toEqual({ ...DEFAULT_REDACTION_POLICY, elevenlabs: [] });
+
+    vi.stubEnv('REDACTION_POLICY', JSON.stringify({ openai: ['passport'] }));
+    expect(getRedactionPolicy()).toBe(DEFAULT_REDACTION_POLICY);
+
+    vi.stubEnv('REDACTION_POLICY', JSON.stringify({ deepl: ['email'] }));
+    expect(getRedactionPolicy()).toBe(DEFAULT_REDACTION_POLICY);
+  });
+});
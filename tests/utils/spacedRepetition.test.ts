@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { getDueDate, INITIAL_SCHEDULE, scheduleReview } from '../../src/utils/spacedRepetition';
+
+describe('spaced repetition', () => {
+  it('spaces correct reviews out by 1, 6 and then interval times ease days', () => {
+    const first = scheduleReview(INITIAL_SCHEDULE, 'correct');
+    const second = scheduleReview(first, 'correct');
+    const third = scheduleReview(second, 'correct');
+
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 15]);
+    expect(third.repetitions).toBe(3);
+    expect(third.easeFactor).toBeCloseTo(2.5);
+  });
+
+  it('starts words over after an incorrect use and lowers their ease', () => {
+    const schedule = scheduleReview({ easeFactor: 2.5, intervalDays: 15, repetitions: 3 }, 'incorrect');
+
+    expect(schedule).toEqual({ easeFactor: expect.closeTo(1.96, 2), intervalDays: 1, repetitions: 0 });
+  });
+
+  it('never lowers the ease below 1.3', () => {
+    let schedule = INITIAL_SCHEDULE;
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 'incorrect');
+    }
+
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+
+  it('computes due dates from intervals', () => {
+    expect(getDueDate(6, new Date('2024-01-01T08:00:00Z')).toISOString()).toBe('2024-01-07T08:00:00.000Z');
+  });
+});
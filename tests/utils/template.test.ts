@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getTemplateVariables, renderTemplate, validateTemplate } from '../../src/utils/template';
+import { TemplateError } from '../../src/utils/errors';
+
+describe('template engine', () => {
+  it('substitutes variables and joins lists', () => {
+    const output = renderTemplate('{{first_name}} practices {{practice_languages}}', {
+      first_name: 'Ana',
+      practice_languages: ['Spanish', 'French']
+    });
+
+    expect(output).toBe('Ana practices Spanish, French');
+  });
+
+  it('renders conditionals with an else branch', () => {
+    const template = '{{#if study_topic}}Topic: {{study_topic.title}}{{else}}Free talk{{/if}}';
+
+    expect(renderTemplate(template, { study_topic: { title: 'Travel' } })).toBe('Topic: Travel');
+    expect(renderTemplate(template, {})).toBe('Free talk');
+  });
+
+  it('loops over lists with item fields and loop variables', () => {
+    const template = '{{#each words}}{{@number}}. {{this.word}}{{#if this.translation}} ({{this.translation}}){{/if}}{{#if @last}}.{{else}}, {{/if}}{{/each}}';
+    const output = renderTemplate(template, {
+      words: [{ word: 'casa', translation: 'house' }, { word: 'perro' }]
+    });
+
+    expect(output).toBe('1. casa (house), 2. perro.');
+  });
+
+  it('reports missing values instead of dropping them', () => {
+    expect(() => renderTemplate('{{level}} and {{learning_goals}}', { level: 'A2' }))
+      .toThrowError(/Missing value for variable "learning_goals"/);
+  });
+
+  it('rejects malformed templates', () => {
+    expect(() => renderTemplate('{{#if level}}unclosed', {})).toThrow(TemplateError);
+    expect(validateTemplate('{{#each words}}{{/if}}', ['words'])).toEqual([
+      'Unexpected {{/if}}, expected {{/each}}',
+      'Unclosed {{#each words}} block'
+    ]);
+    expect(validateTemplate('{{#unless level}}{{/unless}}', ['level'])).toContain('Unknown block {{#unless level}}');
+  });
+
+  it('validates references against declared variables', () => {
+    const template = '{{#each words}}{{this.word}}{{/each}} {{level}} {{@index}}';
+
+    expect(getTemplateVariables(template)).toEqual(['words', 'level']);
+    expect(validateTemplate(template, ['words', 'level'])).toEqual([
+      '"@index" can only be used inside an {{#each}} block'
+    ]);
+    expect(validateTemplate('{{level}}', ['level', 'mood'], ['level'])).toEqual(['Unknown variable "mood"']);
+    expect(validateTemplate('{{level}} {{mood}}', ['level'])).toEqual(['Variable "mood" is used but not declared']);
+    expect(validateTemplate('{{#if topic}}{{topic.title}}{{else}}{{topic}}{{/if}}', ['topic'], undefined, ['topic']))
+      .toEqual(['Variable "topic" may be empty, use it inside an {{#if topic}} block']);
+  });
+});
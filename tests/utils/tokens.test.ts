@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkMessages,
+  estimateConversationTokens,
+  estimateTokens,
+  truncateMessages
+} from '../../src/utils/tokens';
+import { Message } from '../../src/types/index';
+
+function message(content: string, role: Message['role'] = 'user'): Message {
+  return { role, content };
+}
+
+describe('token utilities', () => {
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('a'.repeat(400))).toBe(100);
+  });
+
+  it('counts wide characters as a token each', () => {
+    expect(estimateTokens('日本語')).toBe(3);
+  });
+
+  it('chunks messages in order within the budget', () => {
+    const messages = Array.from({ length: 10 }, (_, index) => message(`${index}`.padEnd(80, 'x')));
+    const chunks = chunkMessages(messages, 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flat()).toEqual(messages);
+    chunks.forEach(chunk => expect(estimateConversationTokens(chunk)).toBeLessThanOrEqual(60));
+  });
+
+  it('shortens a single message larger than the chunk budget', () => {
+    const chunks = chunkMessages([message('x'.repeat(4000))], 100);
+
+    expect(chunks).toHaveLength(1);
+    expect(estimateConversationTokens(chunks[0])).toBeLessThanOrEqual(100);
+  });
+
+  it('keeps the most recent messages when truncating', () => {
+    const messages = [message('a'.repeat(400)), message('b'.repeat(400)), message('c'.repeat(400))];
+    const truncated = truncateMessages(messages, 220);
+
+    expect(truncated.map(msg => msg.content[0])).toEqual(['b', 'c']);
+  });
+});